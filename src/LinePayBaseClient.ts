@@ -1,8 +1,46 @@
 import { randomUUID } from 'node:crypto'
 import { DEFAULT_TIMEOUT, LINE_PAY_API_BASE_URL } from './config/env'
 import type { LinePayConfig } from './config/types'
-import { LinePayConfigError, LinePayError, LinePayTimeoutError } from './errors/LinePayError'
-import { LinePayUtils } from './LinePayUtils'
+import { assertValidLinePayConfig } from './config/validateConfig'
+import type { LinePaySecret } from './credentials/LinePaySecret'
+import { LinePayCredentialCache } from './credentials/providers'
+import {
+  LinePayAbortError,
+  LinePayConfigError,
+  LinePayError,
+  LinePayNetworkError,
+  LinePayResponseValidationError,
+  LinePayTimeoutError,
+  LinePayValidationError,
+} from './errors/LinePayError'
+import { type LinePayBigNumberMode, parseLinePayJson, stringifyLinePayJson } from './http/json'
+import {
+  type LinePayMiddleware,
+  type LinePayRequestContext,
+  runMiddlewareHook,
+  wrapTransport,
+} from './http/middleware'
+import {
+  computeRetryDelay,
+  isRetryableError,
+  type ResolvedRetryPolicy,
+  resolveRetryPolicy,
+  sleep,
+} from './http/retry'
+import { createFetchTransport, type LinePayTransport } from './http/transport'
+import {
+  DEFAULT_IDEMPOTENCY_PENDING_TIMEOUT,
+  DEFAULT_IDEMPOTENCY_TTL,
+  LINE_PAY_ALREADY_PROCESSED_RETURN_CODES,
+  type LinePayAlreadyProcessedResponse,
+  type LinePayIdempotencyStore,
+  type LinePayIdempotentOperation,
+} from './idempotency/IdempotencyStore'
+import { type LinePayQueryParams, LinePayUtils } from './LinePayUtils'
+import { createRedactor, type LinePayRedactor } from './logging/redact'
+import type { LinePayLogEntry, LinePayLogger, LinePayLogLevel } from './logging/types'
+import { toPathTemplate } from './telemetry/instrumentation'
+import { type LinePayStandardSchema, validateResponse } from './validation/schema'
 
 /**
  * Base Response Format for all LINE Pay APIs
@@ -108,6 +146,83 @@ export interface LinePayErrorResponse<T = unknown> {
   info?: T
 }
 
+/**
+ * Per-request options for {@link LinePayBaseClient.sendRequest}
+ *
+ * @example
+ * ```typescript
+ * // Opt a POST request into the configured retry policy
+ * return this.sendRequest('POST', `/v3/payments/${transactionId}/refund`, body, undefined, undefined, {
+ *   retry: true
+ * })
+ * ```
+ */
+export interface LinePayRequestOptions {
+  /**
+   * Whether this request may be retried according to `LinePayConfig.retry`
+   *
+   * Defaults to `true` for idempotent (GET) requests and `false` otherwise.
+   * Has no effect when the client has no retry policy configured.
+   */
+  retry?: boolean
+
+  /**
+   * Additional return codes that indicate success for this request
+   *
+   * Some endpoints (e.g., Check Payment Status) report state through non-`'0000'` codes.
+   * Responses with these codes are returned instead of throwing {@link LinePayError}.
+   */
+  successReturnCodes?: readonly string[]
+
+  /**
+   * Key used by the idempotency layer instead of the one derived from the
+   * operation and transaction or order ID
+   *
+   * Set it to tell apart operations that share a transaction on purpose. Partial refunds
+   * have no derived key, so they are only deduplicated when this is set. Like derived keys,
+   * it is scoped to the channel and operation.
+   */
+  idempotencyKey?: string
+
+  /**
+   * Schema validating the response, instead of the one configured for the endpoint
+   * in `LinePayConfig.responseSchemas`
+   */
+  responseSchema?: LinePayStandardSchema
+
+  /**
+   * Timeout in milliseconds of each attempt, instead of `LinePayConfig.timeout`
+   */
+  timeout?: number
+
+  /**
+   * Cancels the request, including pending retries, when aborted
+   *
+   * Combined with the internal timeout signal. Cancellation is reported as
+   * {@link LinePayAbortError}, a timeout as {@link LinePayTimeoutError}.
+   */
+  signal?: AbortSignal
+
+  /**
+   * Additional HTTP headers for this request
+   */
+  headers?: Record<string, string>
+
+  /**
+   * Caller-defined ID correlating the request with application logs
+   *
+   * Added to log entries, the middleware context and telemetry spans; it is not sent
+   * to LINE Pay unless a header carrying it is set.
+   */
+  requestId?: string
+}
+
+/**
+ * Interval in milliseconds at which a pending idempotency record of another client is checked
+ * @internal
+ */
+const IDEMPOTENCY_POLL_INTERVAL = 100
+
 /**
  * LINE Pay Base Client
  *
@@ -123,6 +238,10 @@ export interface LinePayErrorResponse<T = unknown> {
  * **Features:**
  * - ✅ Automatic signature generation for each request
  * - ✅ Timeout protection with AbortController
+ * - ✅ Optional retry with exponential backoff
+ * - ✅ Request middleware for tracing, logging and header injection
+ * - ✅ Optional idempotency for confirm, capture and refund
+ * - ✅ Optional runtime validation of response payloads
  * - ✅ Comprehensive error handling
  * - ✅ Type-safe response parsing
  *
@@ -154,10 +273,13 @@ export abstract class LinePayBaseClient {
   protected readonly channelId: string
 
   /**
-   * LINE Pay Channel Secret (encrypted/hashed in memory)
-   * @protected
+   * LINE Pay Channel Secret, fixed or resolved from `LinePayConfig.credentials`
+   *
+   * Kept in a {@link LinePaySecret} so it does not appear in `JSON.stringify(client)`
+   * or `console.log(client)`.
+   * @private
    */
-  protected readonly channelSecret: string
+  private readonly credentials: LinePayCredentialCache
 
   /**
    * BASE URL for LINE Pay API
@@ -171,14 +293,85 @@ export abstract class LinePayBaseClient {
    */
   protected readonly timeout: number
 
+  /**
+   * Retry policy applied to retryable requests
+   * @protected
+   */
+  protected readonly retryPolicy: ResolvedRetryPolicy
+
+  /**
+   * HTTP transport used to send requests
+   * @protected
+   */
+  protected readonly transport: LinePayTransport
+
+  /**
+   * Registered request middleware, in execution order
+   * @private
+   */
+  private readonly middleware: LinePayMiddleware[]
+
+  /**
+   * Store used by {@link sendIdempotentRequest}, if idempotency is enabled
+   * @protected
+   */
+  protected readonly idempotencyStore?: LinePayIdempotencyStore
+
+  /**
+   * Time in milliseconds idempotency records are kept
+   * @protected
+   */
+  protected readonly idempotencyTtl: number
+
+  /**
+   * Time in milliseconds a pending idempotency record is kept and waited on
+   * @protected
+   */
+  protected readonly idempotencyPendingTimeout: number
+
+  /**
+   * Idempotent requests currently being sent by this client, by key
+   * @private
+   */
+  private readonly inFlight = new Map<
+    string,
+    Promise<LinePayBaseResponse | LinePayAlreadyProcessedResponse>
+  >()
+
+  /**
+   * Logger receiving request events, if logging is enabled
+   * @protected
+   */
+  protected readonly logger?: LinePayLogger
+
+  /**
+   * Redactor applied to every log entry
+   * @private
+   */
+  private readonly redact: LinePayRedactor
+
+  /**
+   * Response schemas by `'<METHOD> <path template>'`
+   * @private
+   */
+  private readonly responseSchemas: Record<string, LinePayStandardSchema>
+
+  /**
+   * Representation of unsafe integers in parsed responses
+   * @private
+   */
+  private readonly bigNumbers: LinePayBigNumberMode
+
   /**
    * Creates a new LinePayBaseClient instance
    *
-   * Validates the configuration and sets up the client with the appropriate API base URL.
+   * Validates the configuration with {@link validateLinePayConfig} and sets up the client
+   * with the appropriate API base URL. Warnings are sent to the logger as `config.warning`
+   * entries.
    *
    * @param config - LINE Pay configuration object
-   * @throws {LinePayConfigError} If channelId or channelSecret is empty
-   * @throws {LinePayConfigError} If timeout is not a positive number
+   * @throws {LinePayConfigError} If the configuration is invalid; `issues` lists every
+   * problem with its field name
    *
    * @example
    * ```typescript
@@ -192,48 +385,104 @@ export abstract class LinePayBaseClient {
    *
    * @example
    * ```typescript
-   * // Using environment variables (recommended)
-   * const client = new MyLinePayClient({
-   *   channelId: process.env.LINE_PAY_CHANNEL_ID!,
-   *   channelSecret: process.env.LINE_PAY_CHANNEL_SECRET!,
-   *   env: process.env.NODE_ENV === 'production' ? 'production' : 'sandbox'
-   * })
+   * // Using LINE_PAY_* environment variables (recommended)
+   * const client = new MyLinePayClient(loadLinePayConfigFromEnv())
    * ```
    */
   constructor(config: LinePayConfig) {
-    const channelId = config.channelId.trim()
-    const channelSecret = config.channelSecret.trim()
+    const warnings = assertValidLinePayConfig(config)
 
-    if (channelId === '') {
-      throw new LinePayConfigError('channelId is required and cannot be empty')
-    }
-    if (channelSecret === '') {
-      throw new LinePayConfigError('channelSecret is required and cannot be empty')
-    }
-
-    this.channelId = channelId
-    this.channelSecret = channelSecret
+    this.channelId = config.channelId.trim()
+    this.credentials = new LinePayCredentialCache(
+      config.credentials ?? config.channelSecret?.trim() ?? ''
+    )
     this.baseUrl =
       config.baseUrl ??
       (config.env === 'production'
         ? LINE_PAY_API_BASE_URL.production
         : LINE_PAY_API_BASE_URL.sandbox)
     this.timeout = config.timeout ?? DEFAULT_TIMEOUT
+    this.retryPolicy = resolveRetryPolicy(config.retry)
+    this.transport = config.transport ?? createFetchTransport()
+    this.middleware = [...(config.middleware ?? [])]
+    this.idempotencyStore = config.idempotency?.store
+    this.idempotencyTtl = config.idempotency?.ttl ?? DEFAULT_IDEMPOTENCY_TTL
+    this.idempotencyPendingTimeout =
+      config.idempotency?.pendingTimeout ?? DEFAULT_IDEMPOTENCY_PENDING_TIMEOUT
+
+    this.logger = config.logger
+    this.redact = createRedactor(config.redaction, () => [this.credentials.current ?? ''])
+    this.responseSchemas = { ...config.responseSchemas }
+    this.bigNumbers = config.bigNumbers ?? 'string'
 
-    if (this.timeout <= 0) {
-      throw new LinePayConfigError('timeout must be a positive number')
+    for (const { field, message } of warnings) {
+      this.log('warn', { message, event: 'config.warning', field })
+    }
+  }
+
+  /**
+   * Current channel secret
+   *
+   * With `LinePayConfig.credentials`, this is the last resolved value.
+   *
+   * @throws {LinePayConfigError} If the credentials have not been resolved yet
+   * @protected
+   */
+  protected get channelSecret(): string {
+    const secret = this.credentials.current
+    if (secret === undefined) {
+      throw new LinePayConfigError('channelSecret has not been resolved yet')
     }
+    return secret
+  }
+
+  /**
+   * Resolves the channel secret again from `LinePayConfig.credentials`
+   *
+   * Call it after rotating the secret to use the new value before the TTL elapses.
+   * Has no effect on a fixed `channelSecret`.
+   *
+   * @throws {LinePayConfigError} If the provider fails or returns an empty secret
+   */
+  async refreshCredentials(): Promise<void> {
+    this.credentials.invalidate()
+    await this.credentials.resolve()
+  }
+
+  /**
+   * Registers a request middleware
+   *
+   * Middleware runs after any middleware passed through `LinePayConfig.middleware`,
+   * in registration order.
+   *
+   * @param middleware - Middleware to register
+   * @returns The client instance for chaining
+   *
+   * @example
+   * ```typescript
+   * client.use({
+   *   afterSign(ctx) {
+   *     auditLog.write({ method: ctx.method, url: ctx.url, attempt: ctx.attempt })
+   *   }
+   * })
+   * ```
+   */
+  use(middleware: LinePayMiddleware): this {
+    this.middleware.push(middleware)
+    return this
   }
 
   /**
    * Sends an HTTP request to LINE Pay API with authentication
    *
    * Handles the complete request lifecycle:
-   * 1. Generates HMAC-SHA256 signature
-   * 2. Sets authentication headers
-   * 3. Sends HTTP request with timeout
-   * 4. Parses and validates response
-   * 5. Throws appropriate errors on failure
+   * 1. Runs `beforeSign` middleware
+   * 2. Generates HMAC-SHA256 signature
+   * 3. Sets authentication headers and runs `afterSign` middleware
+   * 4. Sends HTTP request with timeout through the configured transport (wrapped by `aroundSend` middleware)
+   * 5. Parses and validates response (against `LinePayConfig.responseSchemas`, if any), then
+   *    runs `afterResponse` middleware
+   * 6. Runs `onError` middleware and throws appropriate errors on failure
    *
    * **Authentication Flow:**
    * - Generates unique nonce (UUID)
@@ -241,21 +490,40 @@ export abstract class LinePayBaseClient {
    * - Sets headers: `X-LINE-ChannelId`, `X-LINE-Authorization`, `X-LINE-Authorization-Nonce`
    *
    * **Error Handling:**
-   * - Network errors → Propagated as-is
-   * - Timeout → {@link LinePayTimeoutError}
+   * - Transport (network) errors → {@link LinePayNetworkError}
+   * - Timeout (`options.timeout` or `LinePayConfig.timeout`) → {@link LinePayTimeoutError}
+   * - Cancellation through `options.signal` → {@link LinePayAbortError}
    * - JSON parse error → {@link LinePayError} with code `PARSE_ERROR`
    * - HTTP error → {@link LinePayError} with LINE Pay error code
    * - Business error (returnCode !== '0000') → {@link LinePayError}
    *
+   * **Retry:**
+   * When `LinePayConfig.retry` is set, network errors, timeouts and errors whose return code
+   * or HTTP status is listed as retryable are attempted again with exponential backoff.
+   * Errors thrown by middleware are not retried.
+   * GET requests are retried by default; other requests must opt in with `options.retry`.
+   * Every attempt is signed with a fresh nonce, and the error thrown after the last attempt
+   * records the number of attempts in its `attempts` property.
+   *
+   * **Logging:**
+   * When `LinePayConfig.logger` is set, `request.start`, `request.response`, `request.retry`
+   * and `request.error` events are emitted after redaction of secrets and buyer information.
+   *
    * @template T - Expected response type extending {@link LinePayBaseResponse}
    * @param method - HTTP method ('GET' or 'POST')
    * @param path - API endpoint path (e.g., '/v3/payments/request')
-   * @param body - Optional request body (will be JSON stringified)
+   * @param body - Optional request body (JSON stringified; `bigint` values are written as numbers)
    * @param params - Optional query parameters
    * @param additionalHeaders - Optional additional HTTP headers to include in the request
+   * @param options - Optional per-request options (timeout, abort signal, headers, request ID,
+   * retry, success codes, response schema)
    * @returns Promise resolving to typed LINE Pay response
-   * @throws {LinePayTimeoutError} If request exceeds configured timeout
+   * @throws {LinePayValidationError} If options.timeout is not a positive number
+   * @throws {LinePayTimeoutError} If an attempt exceeds the timeout
+   * @throws {LinePayAbortError} If options.signal is aborted
+   * @throws {LinePayNetworkError} If the transport fails to send the request
    * @throws {LinePayError} If API returns an error or response is invalid
+   * @throws {LinePayResponseValidationError} If the response does not match its schema
    * @protected
    *
    * @example
@@ -304,48 +572,367 @@ export abstract class LinePayBaseClient {
     method: 'GET' | 'POST',
     path: string,
     body?: unknown,
-    params?: Record<string, string>,
-    additionalHeaders?: Record<string, string>
+    params?: LinePayQueryParams,
+    additionalHeaders?: Record<string, string>,
+    options?: LinePayRequestOptions
   ): Promise<T> {
-    const nonce = randomUUID()
-    const queryString = LinePayUtils.buildQueryString(params)
-    const url = `${this.baseUrl}${path}${queryString}`
-    const bodyString = body !== undefined ? JSON.stringify(body) : ''
+    const retryable = options?.retry ?? method === 'GET'
+    const maxAttempts = retryable ? this.retryPolicy.maxAttempts : 1
+    const timeout = options?.timeout ?? this.timeout
+    const requestId = options?.requestId
+    const start = Date.now()
+
+    if (!Number.isFinite(timeout) || timeout <= 0) {
+      throw new LinePayValidationError('timeout must be a positive number', 'timeout')
+    }
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        if (options?.signal?.aborted === true) {
+          throw new LinePayAbortError(options.signal.reason, `${this.baseUrl}${path}`)
+        }
+        return await this.executeRequest<T>(
+          attempt,
+          method,
+          path,
+          body,
+          params,
+          additionalHeaders,
+          options
+        )
+      } catch (error) {
+        if (error instanceof LinePayError || error instanceof LinePayResponseValidationError) {
+          error.redactor = this.redact
+        }
+        if (attempt >= maxAttempts || !isRetryableError(this.retryPolicy, error)) {
+          if (
+            error instanceof LinePayError ||
+            error instanceof LinePayTimeoutError ||
+            error instanceof LinePayAbortError ||
+            error instanceof LinePayNetworkError
+          ) {
+            error.attempts = attempt
+          }
+          this.log('error', {
+            message: `LINE Pay request failed: ${method} ${path}`,
+            event: 'request.error',
+            method,
+            path,
+            attempt,
+            requestId,
+            durationMs: Date.now() - start,
+            error: serializeError(error),
+          })
+          throw error
+        }
+        const delay = computeRetryDelay(this.retryPolicy, attempt)
+        this.log('warn', {
+          message: `LINE Pay request attempt ${attempt} failed, retrying: ${method} ${path}`,
+          event: 'request.retry',
+          method,
+          path,
+          attempt,
+          requestId,
+          durationMs: Date.now() - start,
+          delayMs: delay,
+          error: serializeError(error),
+        })
+        await sleep(delay, options?.signal)
+      }
+    }
+  }
+
+  /**
+   * Sends a request through the idempotency layer
+   *
+   * Without `LinePayConfig.idempotency`, this is the same as {@link sendRequest}.
+   * Otherwise the request is keyed by channel, operation and `options.idempotencyKey` (or
+   * `resourceKey`; without either, the request is sent as is):
+   * - a concurrent call with the same key shares the in-flight request
+   * - the key is claimed atomically with {@link LinePayIdempotencyStore.setIfAbsent};
+   *   while another client holds a pending claim, the store is polled until it completes
+   * - a completed result in the store is returned without calling the API
+   * - return codes in {@link LINE_PAY_ALREADY_PROCESSED_RETURN_CODES} are returned as a
+   *   {@link LinePayAlreadyProcessedResponse}
+   * - failures remove the record so the operation can be attempted again; a failure to
+   *   save the completed record is logged as `idempotency.error` and the response is
+   *   still returned, since the operation has been applied
+   *
+   * @template T - Expected response type extending {@link LinePayBaseResponse}
+   * @param operation - Operation being performed
+   * @param resourceKey - Transaction or order ID, or `undefined` when the request can only
+   * be told apart from another one by a caller-supplied `options.idempotencyKey`
+   * @param method - HTTP method ('GET' or 'POST')
+   * @param path - API endpoint path
+   * @param body - Optional request body
+   * @param params - Optional query parameters
+   * @param additionalHeaders - Optional additional HTTP headers
+   * @param options - Optional per-request options
+   * @returns The API response, the stored response of a previous call, or a
+   * {@link LinePayAlreadyProcessedResponse}
+   * @throws {LinePayTimeoutError} If request exceeds configured timeout, or another client
+   * still holds the key after `idempotency.pendingTimeout`
+   * @throws {LinePayAbortError} If the request is aborted, including while waiting on
+   * another client
+   * @throws {LinePayError} If API returns an error or response is invalid
+   * @protected
+   */
+  protected async sendIdempotentRequest<T extends LinePayBaseResponse>(
+    operation: LinePayIdempotentOperation,
+    resourceKey: string | undefined,
+    method: 'GET' | 'POST',
+    path: string,
+    body?: unknown,
+    params?: LinePayQueryParams,
+    additionalHeaders?: Record<string, string>,
+    options?: LinePayRequestOptions
+  ): Promise<T | LinePayAlreadyProcessedResponse> {
+    const store = this.idempotencyStore
+    const id = options?.idempotencyKey ?? resourceKey
+    if (store === undefined || id === undefined) {
+      return this.sendRequest<T>(method, path, body, params, additionalHeaders, options)
+    }
+    const key = `${this.channelId}:${operation}:${id}`
+
+    const inFlight = this.inFlight.get(key)
+    if (inFlight !== undefined) {
+      return inFlight as Promise<T | LinePayAlreadyProcessedResponse>
+    }
+
+    const alreadyProcessedCodes = LINE_PAY_ALREADY_PROCESSED_RETURN_CODES[operation]
+    const execute = async (): Promise<T | LinePayAlreadyProcessedResponse> => {
+      const completed = await this.claimIdempotencyKey(store, key, options?.signal)
+      if (completed !== undefined) {
+        return completed as T | LinePayAlreadyProcessedResponse
+      }
+
+      let response: T
+      try {
+        response = await this.sendRequest<T>(method, path, body, params, additionalHeaders, {
+          ...options,
+          successReturnCodes: [...(options?.successReturnCodes ?? []), ...alreadyProcessedCodes],
+        })
+      } catch (error) {
+        await store.delete(key)
+        throw error
+      }
+
+      const result: T | LinePayAlreadyProcessedResponse = alreadyProcessedCodes.includes(
+        response.returnCode
+      )
+        ? {
+            returnCode: response.returnCode,
+            returnMessage: response.returnMessage,
+            alreadyProcessed: true,
+            operation,
+          }
+        : response
+      try {
+        await store.set(
+          key,
+          { status: 'completed', completedAt: Date.now(), response: result },
+          this.idempotencyTtl
+        )
+      } catch (error) {
+        this.log('error', {
+          message: `Failed to save the idempotency record: ${method} ${path}`,
+          event: 'idempotency.error',
+          method,
+          path,
+          requestId: options?.requestId,
+          error: serializeError(error),
+        })
+      }
+      return result
+    }
+
+    const promise = execute().finally(() => {
+      this.inFlight.delete(key)
+    })
+    this.inFlight.set(key, promise)
+    return promise
+  }
+
+  /**
+   * Claims an idempotency key with a pending record, waiting while another client holds it
+   *
+   * @returns The stored response if the operation has completed, or `undefined` once the
+   * key is claimed
+   * @throws {LinePayTimeoutError} If the key is still pending after the pending timeout
+   * @throws {LinePayAbortError} If the signal is aborted while waiting
+   * @private
+   */
+  private async claimIdempotencyKey(
+    store: LinePayIdempotencyStore,
+    key: string,
+    signal?: AbortSignal
+  ): Promise<LinePayBaseResponse | LinePayAlreadyProcessedResponse | undefined> {
+    const deadline = Date.now() + this.idempotencyPendingTimeout
+    for (;;) {
+      const pending = { status: 'pending', startedAt: Date.now() } as const
+      if (await store.setIfAbsent(key, pending, this.idempotencyPendingTimeout)) {
+        return undefined
+      }
+
+      const record = await store.get(key)
+      if (record?.status === 'completed') {
+        return record.response
+      }
+      if (record !== undefined) {
+        const remaining = deadline - Date.now()
+        if (remaining <= 0) {
+          throw new LinePayTimeoutError(this.idempotencyPendingTimeout)
+        }
+        await sleep(Math.min(IDEMPOTENCY_POLL_INTERVAL, remaining), signal)
+        if (signal?.aborted === true) {
+          throw new LinePayAbortError(signal.reason)
+        }
+      }
+    }
+  }
 
-    const signature = LinePayUtils.generateSignature(
-      this.channelSecret,
+  /**
+   * Performs a single signed HTTP request attempt, running the middleware hooks around it
+   *
+   * A new nonce and signature are generated on every call.
+   * @private
+   */
+  private async executeRequest<T extends LinePayBaseResponse>(
+    attempt: number,
+    method: 'GET' | 'POST',
+    path: string,
+    body?: unknown,
+    params?: LinePayQueryParams,
+    additionalHeaders?: Record<string, string>,
+    options?: LinePayRequestOptions
+  ): Promise<T> {
+    const queryString = LinePayUtils.buildQueryString(params)
+    const context: LinePayRequestContext = {
+      method,
       path,
-      bodyString,
-      nonce,
-      queryString
-    )
+      params,
+      url: `${this.baseUrl}${path}${queryString}`,
+      nonce: randomUUID(),
+      attempt,
+      requestId: options?.requestId,
+      body,
+      headers: { ...additionalHeaders, ...options?.headers },
+      timings: { start: Date.now() },
+    }
+
+    try {
+      await runMiddlewareHook(this.middleware, 'beforeSign', context)
+
+      const channelSecret = await this.credentials.resolve()
+      const bodyString = context.body !== undefined ? stringifyLinePayJson(context.body) : ''
+      const signature = LinePayUtils.generateSignature(
+        channelSecret,
+        path,
+        bodyString,
+        context.nonce,
+        queryString
+      )
+
+      context.headers = {
+        'Content-Type': 'application/json',
+        'X-LINE-ChannelId': this.channelId,
+        'X-LINE-Authorization-Nonce': context.nonce,
+        'X-LINE-Authorization': signature,
+        ...context.headers,
+      }
+
+      await runMiddlewareHook(this.middleware, 'afterSign', context)
+
+      this.log('debug', {
+        message: `LINE Pay request: ${method} ${path}`,
+        event: 'request.start',
+        method,
+        path,
+        attempt,
+        requestId: context.requestId,
+        url: context.url,
+        headers: context.headers,
+        body: context.body,
+      })
+
+      const response = await this.dispatch<T>(
+        context,
+        method === 'POST' ? bodyString : undefined,
+        options?.timeout ?? this.timeout,
+        options?.signal,
+        options?.successReturnCodes,
+        options?.responseSchema ?? this.responseSchemas[`${method} ${toPathTemplate(path)}`]
+      )
+
+      context.response = response
+      this.finishTimings(context)
+      await runMiddlewareHook(this.middleware, 'afterResponse', context)
+
+      this.log('info', {
+        message: `LINE Pay response: ${method} ${path} [${response.returnCode}]`,
+        event: 'request.response',
+        method,
+        path,
+        attempt,
+        requestId: context.requestId,
+        httpStatus: context.httpStatus,
+        returnCode: response.returnCode,
+        durationMs: context.timings.duration,
+      })
 
-    const headers = {
-      'Content-Type': 'application/json',
-      'X-LINE-ChannelId': this.channelId,
-      'X-LINE-Authorization-Nonce': nonce,
-      'X-LINE-Authorization': signature,
-      ...additionalHeaders,
+      return response
+    } catch (error) {
+      context.error = error
+      this.finishTimings(context)
+      await runMiddlewareHook(this.middleware, 'onError', context)
+      throw error
     }
+  }
 
+  /**
+   * Sends a prepared request through the transport and parses the response
+   * @private
+   */
+  private async dispatch<T extends LinePayBaseResponse>(
+    context: LinePayRequestContext,
+    bodyString: string | undefined,
+    timeout: number,
+    signal: AbortSignal | undefined,
+    successReturnCodes: readonly string[] = [],
+    responseSchema?: LinePayStandardSchema
+  ): Promise<T> {
+    const { url } = context
     const controller = new AbortController()
     const timeoutId = setTimeout(() => {
       controller.abort()
-    }, this.timeout)
+    }, timeout)
 
     try {
-      const response = await fetch(url, {
-        method,
-        headers,
-        body: method === 'POST' ? bodyString : undefined,
-        signal: controller.signal,
+      const send = wrapTransport(this.middleware, context, async (request) => {
+        try {
+          return await this.transport(request)
+        } catch (error) {
+          if (request.signal.aborted || (error instanceof Error && error.name === 'AbortError')) {
+            throw error
+          }
+          throw new LinePayNetworkError(error, request.url)
+        }
+      })
+      const response = await send({
+        method: context.method,
+        url,
+        headers: context.headers,
+        body: bodyString,
+        signal:
+          signal === undefined ? controller.signal : AbortSignal.any([controller.signal, signal]),
       })
 
-      const responseText = await response.text()
+      context.httpStatus = response.status
+      const responseText = response.text
 
       let jsonResponse: T
       try {
-        jsonResponse = JSON.parse(responseText) as T
+        jsonResponse = parseLinePayJson(responseText, this.bigNumbers) as T
       } catch {
         throw new LinePayError(
           'PARSE_ERROR',
@@ -355,16 +942,19 @@ export abstract class LinePayBaseClient {
         )
       }
 
-      if (!response.ok) {
+      if (response.status < 200 || response.status >= 300) {
         throw new LinePayError(
           jsonResponse.returnCode || 'HTTP_ERROR',
-          jsonResponse.returnMessage || response.statusText,
+          jsonResponse.returnMessage || response.statusText || 'HTTP error',
           response.status,
           responseText
         )
       }
 
-      if (jsonResponse.returnCode !== '0000') {
+      if (
+        jsonResponse.returnCode !== '0000' &&
+        !successReturnCodes.includes(jsonResponse.returnCode)
+      ) {
         throw new LinePayError(
           jsonResponse.returnCode,
           jsonResponse.returnMessage,
@@ -373,14 +963,26 @@ export abstract class LinePayBaseClient {
         )
       }
 
+      if (responseSchema !== undefined && jsonResponse.returnCode === '0000') {
+        return (await validateResponse(
+          responseSchema,
+          jsonResponse,
+          responseText,
+          response.status
+        )) as T
+      }
+
       return jsonResponse
     } catch (error) {
-      if (error instanceof LinePayError) {
+      if (error instanceof LinePayError || error instanceof LinePayResponseValidationError) {
         throw error
       }
 
-      if (error instanceof Error && error.name === 'AbortError') {
-        throw new LinePayTimeoutError(this.timeout, url)
+      if (signal?.aborted === true) {
+        throw new LinePayAbortError(signal.reason, url)
+      }
+      if (controller.signal.aborted || (error instanceof Error && error.name === 'AbortError')) {
+        throw new LinePayTimeoutError(timeout, url)
       }
 
       throw error
@@ -388,4 +990,38 @@ export abstract class LinePayBaseClient {
       clearTimeout(timeoutId)
     }
   }
+
+  /**
+   * Records the end time and duration of an attempt
+   * @private
+   */
+  private finishTimings(context: LinePayRequestContext): void {
+    context.timings.end = Date.now()
+    context.timings.duration = context.timings.end - context.timings.start
+  }
+
+  /**
+   * Redacts a log entry and passes it to the logger, if any
+   * @private
+   */
+  private log(level: LinePayLogLevel, entry: LinePayLogEntry): void {
+    this.logger?.[level](this.redact(entry) as LinePayLogEntry)
+  }
+}
+
+/**
+ * Converts a thrown value to a plain object for logging
+ * @internal
+ */
+function serializeError(error: unknown): Record<string, unknown> {
+  if (error instanceof LinePayError) {
+    return { ...error.toJSON(), attempts: error.attempts }
+  }
+  if (error instanceof LinePayResponseValidationError) {
+    return error.toJSON()
+  }
+  if (error instanceof Error) {
+    return { name: error.name, message: error.message }
+  }
+  return { message: String(error) }
 }
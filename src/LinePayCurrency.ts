@@ -0,0 +1,198 @@
+/* eslint-disable @typescript-eslint/no-extraneous-class */
+import { LinePayValidationError } from './errors/LinePayError'
+
+/**
+ * Currencies supported by LINE Pay
+ */
+export type LinePayCurrency = 'TWD' | 'JPY' | 'THB' | 'USD'
+
+/**
+ * Number of decimal places (minor units) LINE Pay accepts for each currency
+ *
+ * - `TWD`, `JPY`: integers only
+ * - `THB`, `USD`: up to 2 decimal places
+ */
+export const LINE_PAY_CURRENCY_MINOR_UNITS: Readonly<Record<LinePayCurrency, number>> = {
+  TWD: 0,
+  JPY: 0,
+  THB: 2,
+  USD: 2,
+}
+
+/**
+ * Tolerance used when checking whether a scaled amount is an integer,
+ * to absorb binary floating point noise (e.g., `1.1 * 100 = 110.00000000000001`)
+ * @internal
+ */
+const EPSILON = 1e-6
+
+/**
+ * Utility class for currency-aware amount handling
+ *
+ * Provides static helpers for:
+ * - Checking supported currencies
+ * - Converting amounts to and from integer minor units
+ * - Validating that an amount can be represented in a currency
+ * - Adding up amounts without floating point drift
+ *
+ * @example
+ * ```typescript
+ * import { LinePayCurrencyUtils } from 'line-pay-core-v4'
+ *
+ * LinePayCurrencyUtils.validateAmount(100.1, 'TWD') // ❌ Throws: TWD has no decimals
+ * LinePayCurrencyUtils.validateAmount(19.99, 'USD') // ✅ Valid
+ *
+ * LinePayCurrencyUtils.toMinorUnits(19.99, 'USD')  // 1999
+ * LinePayCurrencyUtils.fromMinorUnits(1999, 'USD') // 19.99
+ * ```
+ */
+export class LinePayCurrencyUtils {
+  // eslint-disable-next-line @typescript-eslint/no-empty-function
+  private constructor() {}
+
+  /**
+   * Checks if a currency code is supported by LINE Pay
+   *
+   * @param currency - Currency code to check
+   * @returns `true` if the currency is one of {@link LinePayCurrency}
+   */
+  static isSupportedCurrency(currency: string): currency is LinePayCurrency {
+    return Object.hasOwn(LINE_PAY_CURRENCY_MINOR_UNITS, currency)
+  }
+
+  /**
+   * Validates that a currency code is supported by LINE Pay
+   *
+   * @param currency - Currency code to validate
+   * @param field - Field name reported in the error
+   * @throws {LinePayValidationError} If the currency is not supported
+   */
+  static validateCurrency(
+    currency: string,
+    field = 'currency'
+  ): asserts currency is LinePayCurrency {
+    if (!LinePayCurrencyUtils.isSupportedCurrency(currency)) {
+      throw new LinePayValidationError(
+        `Unsupported currency "${currency}": expected one of ${Object.keys(LINE_PAY_CURRENCY_MINOR_UNITS).join(', ')}`,
+        field
+      )
+    }
+  }
+
+  /**
+   * Returns the number of decimal places accepted for a currency
+   *
+   * @param currency - Supported currency
+   * @returns Number of minor unit digits
+   */
+  static getMinorUnits(currency: LinePayCurrency): number {
+    return LINE_PAY_CURRENCY_MINOR_UNITS[currency]
+  }
+
+  /**
+   * Checks if an amount is a finite, non-negative number representable in the currency
+   *
+   * @param amount - Amount to check
+   * @param currency - Supported currency
+   * @returns `true` if the amount has no more decimals than the currency allows
+   *
+   * @example
+   * ```typescript
+   * LinePayCurrencyUtils.isValidAmount(100.1, 'TWD') // false
+   * LinePayCurrencyUtils.isValidAmount(100.1, 'THB') // true
+   * ```
+   */
+  static isValidAmount(amount: number, currency: LinePayCurrency): boolean {
+    if (typeof amount !== 'number' || !Number.isFinite(amount) || amount < 0) {
+      return false
+    }
+    const scaled = amount * 10 ** LinePayCurrencyUtils.getMinorUnits(currency)
+    return (
+      Number.isSafeInteger(Math.round(scaled)) && Math.abs(scaled - Math.round(scaled)) < EPSILON
+    )
+  }
+
+  /**
+   * Validates that an amount is representable in the currency
+   *
+   * @param amount - Amount to validate
+   * @param currency - Currency code (validated as well)
+   * @param field - Field name reported in the error
+   * @throws {LinePayValidationError} If the currency is unsupported or the amount is negative,
+   * not finite or has more decimals than the currency allows
+   *
+   * @example
+   * ```typescript
+   * try {
+   *   LinePayCurrencyUtils.validateAmount(100.1, 'TWD')
+   * } catch (error) {
+   *   if (error instanceof LinePayValidationError) {
+   *     console.log(error.field) // 'amount'
+   *   }
+   * }
+   * ```
+   */
+  static validateAmount(amount: number, currency: string, field = 'amount'): void {
+    LinePayCurrencyUtils.validateCurrency(currency)
+    if (!LinePayCurrencyUtils.isValidAmount(amount, currency)) {
+      const minorUnits = LinePayCurrencyUtils.getMinorUnits(currency)
+      throw new LinePayValidationError(
+        `Invalid ${currency} amount ${String(amount)}: expected a non-negative number with at most ${String(minorUnits)} decimal place(s)`,
+        field
+      )
+    }
+  }
+
+  /**
+   * Converts an amount to integer minor units (e.g., cents)
+   *
+   * @param amount - Amount in major units
+   * @param currency - Supported currency
+   * @returns Amount in minor units
+   * @throws {LinePayValidationError} If the amount is not representable in the currency
+   */
+  static toMinorUnits(amount: number, currency: LinePayCurrency): number {
+    LinePayCurrencyUtils.validateAmount(amount, currency)
+    return Math.round(amount * 10 ** LinePayCurrencyUtils.getMinorUnits(currency))
+  }
+
+  /**
+   * Converts integer minor units back to an amount in major units
+   *
+   * @param minorUnits - Amount in minor units (must be a safe integer)
+   * @param currency - Supported currency
+   * @returns Amount in major units
+   * @throws {LinePayValidationError} If minorUnits is not a safe integer
+   */
+  static fromMinorUnits(minorUnits: number, currency: LinePayCurrency): number {
+    if (!Number.isSafeInteger(minorUnits)) {
+      throw new LinePayValidationError(
+        `Minor units must be a safe integer, got ${String(minorUnits)}`,
+        'amount'
+      )
+    }
+    return minorUnits / 10 ** LinePayCurrencyUtils.getMinorUnits(currency)
+  }
+
+  /**
+   * Adds up amounts in minor units to avoid floating point drift
+   *
+   * @param amounts - Amounts in major units
+   * @param currency - Supported currency
+   * @returns The exact sum in major units
+   * @throws {LinePayValidationError} If any amount is not representable in the currency
+   *
+   * @example
+   * ```typescript
+   * 0.1 + 0.2                                     // 0.30000000000000004
+   * LinePayCurrencyUtils.sum([0.1, 0.2], 'USD')   // 0.3
+   * ```
+   */
+  static sum(amounts: readonly number[], currency: LinePayCurrency): number {
+    const total = amounts.reduce(
+      (acc, amount) => acc + LinePayCurrencyUtils.toMinorUnits(amount, currency),
+      0
+    )
+    return LinePayCurrencyUtils.fromMinorUnits(total, currency)
+  }
+}
@@ -9,12 +9,24 @@ import { LinePayValidationError } from './errors/LinePayError'
  */
 const TRANSACTION_ID_REGEX = /^\d{19}$/
 
+/**
+ * Regular expression for validating LINE Pay preapproved payment keys
+ * LINE Pay regKey must be exactly 15 alphanumeric characters
+ * @internal
+ */
+const REG_KEY_REGEX = /^[A-Za-z0-9]{15}$/
+
+/**
+ * Query parameters; an array value is sent as one parameter per element
+ */
+export type LinePayQueryParams = Record<string, string | readonly string[]>
+
 /**
  * Utility class for LINE Pay operations
  *
  * Provides static helper methods for:
  * - HMAC-SHA256 signature generation and verification
- * - Transaction ID validation
+ * - Transaction ID and regKey validation
  * - Query string building
  * - Callback query parameter parsing
  *
@@ -88,6 +100,7 @@ export class LinePayUtils {
    * **Security Note**: This method uses constant-time comparison to prevent timing attacks
    * where an attacker could deduce information about the signature by measuring verification time.
    * The data format is automatically constructed to match {@link generateSignature}.
+   * It does not detect replayed requests; use `verifySignatureWithNonce` with a `NonceStore` for that.
    *
    * @param secret - Channel Secret from LINE Pay Merchant Center
    * @param uri - Request URI path (e.g., '/v3/payments/request' or '/webhooks')
@@ -203,10 +216,55 @@ export class LinePayUtils {
     return TRANSACTION_ID_REGEX.test(transactionId)
   }
 
+  /**
+   * Validates LINE Pay preapproved payment key (regKey) format
+   *
+   * Throws a validation error if the regKey is not exactly 15 alphanumeric characters.
+   * The regKey is a reusable payment credential, so it is left out of the error message.
+   * For non-throwing validation, use {@link isValidRegKey} instead.
+   *
+   * @param regKey - The regKey to validate
+   * @throws {LinePayValidationError} If regKey is not 15 alphanumeric characters
+   *
+   * @example
+   * ```typescript
+   * LinePayUtils.validateRegKey('RK9A1B2C3D4E5F6') // ✅ Valid
+   * LinePayUtils.validateRegKey('RK-123')          // ❌ Throws LinePayValidationError
+   * ```
+   */
+  static validateRegKey(regKey: string): void {
+    if (!REG_KEY_REGEX.test(regKey)) {
+      throw new LinePayValidationError(
+        `Invalid regKey format: expected 15 alphanumeric characters (got ${regKey.length} characters)`,
+        'regKey'
+      )
+    }
+  }
+
+  /**
+   * Checks if a preapproved payment key (regKey) has valid format
+   *
+   * For throwing validation, use {@link validateRegKey} instead.
+   *
+   * @param regKey - The regKey to check
+   * @returns `true` if regKey is 15 alphanumeric characters, `false` otherwise
+   *
+   * @example
+   * ```typescript
+   * if (LinePayUtils.isValidRegKey(subscription.regKey)) {
+   *   await client.payPreapproved(subscription.regKey, body)
+   * }
+   * ```
+   */
+  static isValidRegKey(regKey: string): boolean {
+    return REG_KEY_REGEX.test(regKey)
+  }
+
   /**
    * Builds URL query string from parameters object
    *
-   * Converts a key-value object into a URL-encoded query string.
+   * Converts a key-value object into a URL-encoded query string, repeating the key
+   * for each element of an array value.
    * Returns empty string if params is undefined or empty.
    *
    * @param params - Optional key-value pairs to convert to query string
@@ -224,12 +282,17 @@ export class LinePayUtils {
    * // Returns: ""
    * ```
    */
-  static buildQueryString(params?: Record<string, string>): string {
+  static buildQueryString(params?: LinePayQueryParams): string {
     if (params === undefined || Object.keys(params).length === 0) {
       return ''
     }
-    const query = new URLSearchParams(params).toString()
-    return `?${query}`
+    const query = new URLSearchParams()
+    for (const [key, value] of Object.entries(params)) {
+      for (const entry of typeof value === 'string' ? [value] : value) {
+        query.append(key, entry)
+      }
+    }
+    return `?${query.toString()}`
   }
 
   /**
@@ -237,10 +300,11 @@ export class LinePayUtils {
    *
    * Extracts and validates transactionId and orderId from the callback URL query.
    * Handles both string and array query parameter formats (e.g., Express.js query parsing).
+   * For the complete confirm flow, see `LinePayConfirmHandler`.
    *
    * @param query - Query parameters object from the callback URL
    * @returns Object containing transactionId and optional orderId
-   * @throws {Error} If transactionId is missing or empty
+   * @throws {LinePayValidationError} If transactionId is missing, empty or not a 19-digit number
    *
    * @example
    * ```typescript
@@ -278,8 +342,9 @@ export class LinePayUtils {
     const orderId = Array.isArray(query.orderId) ? query.orderId[0] : query.orderId
 
     if (transactionId === undefined || transactionId === '') {
-      throw new Error('Missing transactionId in callback query')
+      throw new LinePayValidationError('Missing transactionId in callback query', 'transactionId')
     }
+    LinePayUtils.validateTransactionId(transactionId)
 
     const result: { transactionId: string; orderId?: string } = {
       transactionId,
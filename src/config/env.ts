@@ -1,3 +1,5 @@
+import { LINE_PAY_RETURN_CODES } from '../errors/returnCodes'
+
 /**
  * LINE Pay API Base URLs
  */
@@ -10,3 +12,19 @@ export const LINE_PAY_API_BASE_URL = {
  * Default Timeout (20 seconds)
  */
 export const DEFAULT_TIMEOUT = 20000
+
+/**
+ * Default Retry Policy
+ *
+ * Applied to any field omitted from `LinePayConfig.retry`.
+ */
+export const DEFAULT_RETRY_CONFIG = {
+  maxAttempts: 3,
+  baseDelay: 200,
+  maxDelay: 5000,
+  jitter: true,
+  retryableReturnCodes: Object.values(LINE_PAY_RETURN_CODES)
+    .filter((definition) => definition.retryable)
+    .map((definition) => definition.code),
+  retryableStatuses: [408, 429, 500, 502, 503, 504],
+}
@@ -0,0 +1,151 @@
+import { LinePayConfigError, type LinePayConfigIssue } from '../errors/LinePayError'
+import { DEFAULT_TIMEOUT } from './env'
+import type { LinePayConfig } from './types'
+import { validateLinePayConfig } from './validateConfig'
+
+/**
+ * Default prefix of LINE Pay environment variables
+ */
+export const DEFAULT_ENV_PREFIX = 'LINE_PAY'
+
+/**
+ * Environment variables to read from, e.g. `process.env`
+ */
+export type LinePayEnvSource = Record<string, string | undefined>
+
+/**
+ * Environment variable suffix of each configuration field read from the environment
+ * @internal
+ */
+const ENV_KEYS: Partial<Record<keyof LinePayConfig, string>> = {
+  channelId: 'CHANNEL_ID',
+  channelSecret: 'CHANNEL_SECRET',
+  env: 'ENV',
+  timeout: 'TIMEOUT',
+  baseUrl: 'BASE_URL',
+}
+
+/**
+ * Reads the configuration variables of one prefix and validates them with
+ * {@link validateLinePayConfig}, appending any issues with the variable name as field
+ * @internal
+ */
+function readConfig(
+  prefix: string,
+  env: LinePayEnvSource,
+  issues: LinePayConfigIssue[]
+): LinePayConfig {
+  const name = (key: string) => `${prefix.replace(/_+$/, '')}_${key}`
+  const read = (key: string) => {
+    const value = env[name(key)]?.trim()
+    return value === '' ? undefined : value
+  }
+
+  const envName = read('ENV')
+  const timeout = read('TIMEOUT')
+  const baseUrl = read('BASE_URL')
+  const config: LinePayConfig = {
+    channelId: read('CHANNEL_ID') ?? '',
+    channelSecret: read('CHANNEL_SECRET') ?? '',
+    timeout: DEFAULT_TIMEOUT,
+  }
+  if (envName !== undefined) {
+    config.env = envName as LinePayConfig['env']
+  }
+  if (timeout !== undefined) {
+    config.timeout = /^\d+$/.test(timeout) ? Number(timeout) : Number.NaN
+  }
+  if (baseUrl !== undefined) {
+    config.baseUrl = baseUrl.replace(/\/+$/, '')
+  }
+
+  for (const issue of validateLinePayConfig(config).errors) {
+    const key = ENV_KEYS[issue.field as keyof LinePayConfig]
+    const field = key === undefined ? issue.field : name(key)
+    const message =
+      issue.field === 'timeout'
+        ? `${field} must be a positive integer in milliseconds (got "${timeout}")`
+        : issue.message.replace(issue.field, field)
+    issues.push({ field, message })
+  }
+  return config
+}
+
+/**
+ * Throws a LinePayConfigError listing every issue, if any
+ * @internal
+ */
+function assertNoIssues(issues: LinePayConfigIssue[]): void {
+  if (issues.length > 0) {
+    throw new LinePayConfigError(
+      `Invalid LINE Pay environment configuration:\n${issues.map((issue) => `- ${issue.message}`).join('\n')}`,
+      undefined,
+      issues
+    )
+  }
+}
+
+/**
+ * Builds a client configuration from environment variables
+ *
+ * Reads `<PREFIX>_CHANNEL_ID`, `<PREFIX>_CHANNEL_SECRET`, `<PREFIX>_ENV`
+ * (`production` or `sandbox`), `<PREFIX>_TIMEOUT` (milliseconds, defaults to
+ * {@link DEFAULT_TIMEOUT}) and `<PREFIX>_BASE_URL`. Unlike a hand-written
+ * `process.env.LINE_PAY_ENV === 'production'` check, a typo such as `prod` is rejected
+ * instead of silently selecting the sandbox. Values are checked by
+ * {@link validateLinePayConfig}, the same validation client constructors run.
+ *
+ * @param prefix - Variable name prefix
+ * @param env - Environment variables to read from
+ * @returns The configuration, ready to pass to a client constructor
+ * @throws {LinePayConfigError} Listing every missing or invalid variable, also in `issues`
+ * with the variable name as `field`
+ *
+ * @example
+ * ```typescript
+ * // LINE_PAY_CHANNEL_ID=1234567890 LINE_PAY_CHANNEL_SECRET=... LINE_PAY_ENV=production
+ * const client = new LinePayOnlineClient(loadLinePayConfigFromEnv())
+ * ```
+ */
+export function loadLinePayConfigFromEnv(
+  prefix = DEFAULT_ENV_PREFIX,
+  env: LinePayEnvSource = process.env
+): LinePayConfig {
+  const issues: LinePayConfigIssue[] = []
+  const config = readConfig(prefix, env, issues)
+  assertNoIssues(issues)
+  return config
+}
+
+/**
+ * Builds one client configuration per prefix, e.g. for multi-merchant setups
+ *
+ * Problems of all prefixes are reported together.
+ *
+ * @param prefixes - Variable name prefixes
+ * @param env - Environment variables to read from
+ * @returns The configurations, keyed by prefix
+ * @throws {LinePayConfigError} Listing every missing or invalid variable
+ *
+ * @example
+ * ```typescript
+ * // SHOP_A_LINE_PAY_CHANNEL_ID=... SHOP_B_LINE_PAY_CHANNEL_ID=...
+ * const configs = loadLinePayConfigsFromEnv(['SHOP_A_LINE_PAY', 'SHOP_B_LINE_PAY'])
+ * const registry = new LinePayClientRegistry({
+ *   resolveConfig: (merchantKey) => configs[merchantKey],
+ *   createClient: (config) => new LinePayOnlineClient(config)
+ * })
+ * ```
+ */
+export function loadLinePayConfigsFromEnv<P extends string>(
+  prefixes: readonly P[],
+  env: LinePayEnvSource = process.env
+): Record<P, LinePayConfig> {
+  const issues: LinePayConfigIssue[] = []
+  const configs = {} as Record<P, LinePayConfig>
+  for (const prefix of prefixes) {
+    configs[prefix] = readConfig(prefix, env, issues)
+  }
+  assertNoIssues(issues)
+  return configs
+}
@@ -1,17 +1,63 @@
+import type { LinePayCredentialProvider, LinePayCredentialsConfig } from '../credentials/providers'
+import type { LinePayBigNumberMode } from '../http/json'
+import type { LinePayMiddleware } from '../http/middleware'
+import type { LinePayTransport } from '../http/transport'
+import type { LinePayIdempotencyConfig } from '../idempotency/IdempotencyStore'
+import type { LinePayLogger, LinePayRedactionConfig } from '../logging/types'
+import type { LinePayStandardSchema } from '../validation/schema'
+
 /**
  * LINE Pay Client Configuration
+ *
+ * The channel secret is given either as `channelSecret` or through a `credentials`
+ * provider.
  */
-export interface LinePayConfig {
-  /**
-   * Channel ID found in the LINE Pay Merchant Center
-   */
-  channelId: string
+export type LinePayConfig = LinePayChannelSecretConfig | LinePayCredentialsProviderConfig
 
+/**
+ * Client configuration with a fixed channel secret
+ */
+export interface LinePayChannelSecretConfig extends LinePayBaseConfig {
   /**
    * Channel Secret found in the LINE Pay Merchant Center
    */
   channelSecret: string
 
+  credentials?: undefined
+}
+
+/**
+ * Client configuration resolving the channel secret from a provider
+ */
+export interface LinePayCredentialsProviderConfig extends LinePayBaseConfig {
+  channelSecret?: undefined
+
+  /**
+   * Provider of the channel secret, used instead of `channelSecret`
+   *
+   * The provider is called lazily before the first request and again once the TTL
+   * elapses, so the secret can come from a secret manager and be rotated at runtime.
+   *
+   * @example
+   * ```typescript
+   * credentials: {
+   *   provider: () => secretManager.getSecret('line-pay/channel-secret'),
+   *   ttl: 10 * 60 * 1000
+   * }
+   * ```
+   */
+  credentials: LinePayCredentialProvider | LinePayCredentialsConfig
+}
+
+/**
+ * Client settings shared by both ways of giving the channel secret
+ */
+export interface LinePayBaseConfig {
+  /**
+   * Channel ID found in the LINE Pay Merchant Center
+   */
+  channelId: string
+
   /**
    * Environment
    * - 'production': https://api-pay.line.me
@@ -32,4 +78,129 @@ export interface LinePayConfig {
    * @internal
    */
   baseUrl?: string
+
+  /**
+   * Retry policy for failed requests
+   *
+   * When omitted, every request is attempted exactly once.
+   * Only idempotent (GET) requests are retried unless a request opts in
+   * through {@link LinePayRequestOptions.retry}.
+   */
+  retry?: LinePayRetryConfig
+
+  /**
+   * HTTP transport used to send requests
+   *
+   * Allows routing requests through a proxy, tuning connection pooling or
+   * injecting a fake transport in tests.
+   * @default createFetchTransport()
+   */
+  transport?: LinePayTransport
+
+  /**
+   * Request middleware run around every request, in order
+   *
+   * More middleware can be registered later with `client.use()`.
+   */
+  middleware?: LinePayMiddleware[]
+
+  /**
+   * Idempotency layer for confirm, capture and refund
+   *
+   * When set, duplicate calls for the same transaction return the stored result
+   * instead of calling the API again, and "already processed" return codes are
+   * returned as a `LinePayAlreadyProcessedResponse`. Disabled when omitted.
+   */
+  idempotency?: LinePayIdempotencyConfig
+
+  /**
+   * Structured logger for request start, response, retry and error events
+   *
+   * Logging is disabled when omitted. Entries are redacted according to `redaction`.
+   */
+  logger?: LinePayLogger
+
+  /**
+   * Redaction applied to log entries
+   *
+   * The signature and nonce headers, the channel secret, regKeys, oneTimeKeys and buyer
+   * information are always masked; more keys can be added here.
+   */
+  redaction?: LinePayRedactionConfig
+
+  /**
+   * Schemas validating successful (`'0000'`) responses, keyed by method and path template
+   *
+   * Keys use the placeholders of `toPathTemplate()`, e.g.
+   * `'POST /v3/payments/{transactionId}/confirm'`. Any Standard Schema (zod, valibot)
+   * or `LinePaySchema` builder can be used; a mismatch throws
+   * `LinePayResponseValidationError`. Responses are not validated when omitted.
+   */
+  responseSchemas?: Record<string, LinePayStandardSchema>
+
+  /**
+   * Representation of integers beyond `Number.MAX_SAFE_INTEGER` in responses
+   *
+   * LINE Pay sends 19-digit transaction IDs as JSON numbers, which `JSON.parse` rounds.
+   * With `'string'` they match the `string` typing of the response types; with `'bigint'`
+   * they are returned as `bigint` (and idempotency records must then be stored with a
+   * bigint-aware serializer). `'number'` keeps the rounded values.
+   * @default 'string'
+   */
+  bigNumbers?: LinePayBigNumberMode
+}
+
+/**
+ * LINE Pay Retry Configuration
+ *
+ * Controls how many times a failed request is attempted and how long the client
+ * waits between attempts. The delay grows exponentially from `baseDelay` and is
+ * capped at `maxDelay`; with `jitter` enabled a random delay between zero and the
+ * computed value is used instead.
+ *
+ * @example
+ * ```typescript
+ * const config: LinePayConfig = {
+ *   channelId: '1234567890',
+ *   channelSecret: 'secret',
+ *   retry: { maxAttempts: 3, baseDelay: 200, maxDelay: 2000 }
+ * }
+ * ```
+ */
+export interface LinePayRetryConfig {
+  /**
+   * Maximum number of attempts, including the first one
+   * @default 3
+   */
+  maxAttempts?: number
+
+  /**
+   * Base delay in milliseconds before the first retry
+   * @default 200
+   */
+  baseDelay?: number
+
+  /**
+   * Upper bound for the delay between attempts in milliseconds
+   * @default 5000
+   */
+  maxDelay?: number
+
+  /**
+   * Whether to apply full jitter to the computed delay
+   * @default true
+   */
+  jitter?: boolean
+
+  /**
+   * LINE Pay return codes that are considered transient
+   * @default codes marked as retryable in LINE_PAY_RETURN_CODES
+   */
+  retryableReturnCodes?: string[]
+
+  /**
+   * HTTP status codes that are considered transient
+   * @default [408, 429, 500, 502, 503, 504]
+   */
+  retryableStatuses?: number[]
 }
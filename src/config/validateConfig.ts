@@ -0,0 +1,177 @@
+import { LinePayConfigError, type LinePayConfigIssue } from '../errors/LinePayError'
+import { LINE_PAY_API_BASE_URL } from './env'
+import type { LinePayConfig } from './types'
+
+/**
+ * Result of {@link validateLinePayConfig}
+ */
+export interface LinePayConfigValidationResult {
+  /**
+   * `true` if there are no errors
+   */
+  valid: boolean
+
+  /**
+   * Problems that prevent a client from being created
+   */
+  errors: LinePayConfigIssue[]
+
+  /**
+   * Suspicious but accepted settings, e.g. a sandbox URL with `env: 'production'`
+   */
+  warnings: LinePayConfigIssue[]
+}
+
+/**
+ * Big number modes accepted by `LinePayConfig.bigNumbers`
+ * @internal
+ */
+const BIG_NUMBER_MODES = ['string', 'bigint', 'number']
+
+/**
+ * Heuristic for channel secrets and URLs that belong to a sandbox or test channel
+ * @internal
+ */
+const SANDBOX_PATTERN = /sandbox|test|dummy/i
+
+/**
+ * Checks whether a value is a positive number, allowing `Infinity` when requested
+ * @internal
+ */
+function isPositive(value: unknown, allowInfinity = false): boolean {
+  return (
+    typeof value === 'number' &&
+    value > 0 &&
+    (allowInfinity ? !Number.isNaN(value) : Number.isFinite(value))
+  )
+}
+
+/**
+ * Checks whether a value is a finite number greater than or equal to zero
+ * @internal
+ */
+function isNonNegative(value: unknown): boolean {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0
+}
+
+/**
+ * Validates a client configuration without creating a client
+ *
+ * Collects every problem instead of stopping at the first one, and also checks values
+ * the type system cannot (e.g. `env` read from untyped input, `NaN` timeouts).
+ * Client constructors run the same validation.
+ *
+ * @param config - Configuration to validate
+ * @returns Errors and warnings, each with the field name
+ *
+ * @example
+ * ```typescript
+ * const { valid, errors, warnings } = validateLinePayConfig(config)
+ * for (const { field, message } of [...errors, ...warnings]) {
+ *   console.warn(`${field}: ${message}`)
+ * }
+ * ```
+ */
+export function validateLinePayConfig(config: LinePayConfig): LinePayConfigValidationResult {
+  const errors: LinePayConfigIssue[] = []
+  const warnings: LinePayConfigIssue[] = []
+  const error = (field: string, message: string) => errors.push({ field, message })
+
+  const channelId = typeof config.channelId === 'string' ? config.channelId.trim() : ''
+  if (channelId === '') {
+    error('channelId', 'channelId is required and cannot be empty')
+  } else if (!/^\d+$/.test(channelId)) {
+    error('channelId', `channelId must be numeric (got "${channelId}")`)
+  }
+
+  const channelSecret = typeof config.channelSecret === 'string' ? config.channelSecret.trim() : ''
+  if (channelSecret === '' && config.credentials === undefined) {
+    error('channelSecret', 'channelSecret is required and cannot be empty')
+  }
+  if (channelSecret !== '' && config.credentials !== undefined) {
+    error('credentials', 'channelSecret and credentials cannot both be set')
+  }
+  if (
+    typeof config.credentials === 'object' &&
+    config.credentials.ttl !== undefined &&
+    !isPositive(config.credentials.ttl, true)
+  ) {
+    error('credentials.ttl', 'credentials.ttl must be a positive number')
+  }
+
+  const envNames = Object.keys(LINE_PAY_API_BASE_URL)
+  if (config.env !== undefined && !envNames.includes(config.env)) {
+    error('env', `env must be one of ${envNames.join(', ')} (got "${String(config.env)}")`)
+  }
+
+  if (config.timeout !== undefined && !isPositive(config.timeout)) {
+    error('timeout', `timeout must be a positive number (got ${String(config.timeout)})`)
+  }
+
+  if (config.baseUrl !== undefined) {
+    const url = URL.canParse(config.baseUrl) ? new URL(config.baseUrl) : undefined
+    if (url === undefined || (url.protocol !== 'https:' && url.protocol !== 'http:')) {
+      error('baseUrl', `baseUrl must be an absolute http(s) URL (got "${config.baseUrl}")`)
+    }
+  }
+
+  const { retry } = config
+  if (
+    retry?.maxAttempts !== undefined &&
+    (!Number.isInteger(retry.maxAttempts) || retry.maxAttempts < 1)
+  ) {
+    error('retry.maxAttempts', 'retry.maxAttempts must be a positive integer')
+  }
+  for (const field of ['baseDelay', 'maxDelay'] as const) {
+    if (retry?.[field] !== undefined && !isNonNegative(retry[field])) {
+      error(`retry.${field}`, `retry.${field} must be a non-negative finite number`)
+    }
+  }
+
+  if (config.idempotency?.ttl !== undefined && !isPositive(config.idempotency.ttl, true)) {
+    error('idempotency.ttl', 'idempotency.ttl must be a positive number')
+  }
+  if (
+    config.idempotency?.pendingTimeout !== undefined &&
+    !isPositive(config.idempotency.pendingTimeout)
+  ) {
+    error('idempotency.pendingTimeout', 'idempotency.pendingTimeout must be a positive number')
+  }
+
+  if (config.bigNumbers !== undefined && !BIG_NUMBER_MODES.includes(config.bigNumbers)) {
+    error('bigNumbers', `bigNumbers must be one of ${BIG_NUMBER_MODES.join(', ')}`)
+  }
+
+  if (config.env === 'production') {
+    if (SANDBOX_PATTERN.test(channelSecret)) {
+      warnings.push({
+        field: 'channelSecret',
+        message: 'channelSecret looks like a sandbox or test secret but env is production',
+      })
+    }
+    if (config.baseUrl !== undefined && SANDBOX_PATTERN.test(config.baseUrl)) {
+      warnings.push({
+        field: 'baseUrl',
+        message: `baseUrl looks like a sandbox URL but env is production (${config.baseUrl})`,
+      })
+    }
+  }
+
+  return { valid: errors.length === 0, errors, warnings }
+}
+
+/**
+ * Validates a configuration and throws if it has errors
+ *
+ * @returns The warnings
+ * @throws {LinePayConfigError} With every error in `issues`; the message is the error itself
+ * when there is only one, or all of them separated by `; `
+ * @internal
+ */
+export function assertValidLinePayConfig(config: LinePayConfig): LinePayConfigIssue[] {
+  const { errors, warnings } = validateLinePayConfig(config)
+  if (errors.length > 0) {
+    throw new LinePayConfigError(errors.map((issue) => issue.message).join('; '), undefined, errors)
+  }
+  return warnings
+}
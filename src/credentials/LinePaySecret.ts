@@ -0,0 +1,60 @@
+/**
+ * Text shown in place of a secret
+ * @internal
+ */
+const MASK = '[REDACTED]'
+
+/**
+ * Wrapper keeping a secret out of serialized and logged objects
+ *
+ * The value is held in a private field and only returned by {@link reveal}.
+ * `JSON.stringify`, string conversion and `console.log` / `util.inspect` print
+ * `[REDACTED]` instead.
+ *
+ * @example
+ * ```typescript
+ * const secret = new LinePaySecret(process.env.LINE_PAY_CHANNEL_SECRET!)
+ * JSON.stringify({ secret }) // '{"secret":"[REDACTED]"}'
+ * LinePayUtils.generateSignature(secret.reveal(), path, body, nonce)
+ * ```
+ */
+export class LinePaySecret {
+  readonly #value: string
+
+  /**
+   * Creates a new LinePaySecret instance
+   *
+   * @param value - Secret value
+   */
+  constructor(value: string) {
+    this.#value = value
+  }
+
+  /**
+   * Returns the secret value
+   */
+  reveal(): string {
+    return this.#value
+  }
+
+  /**
+   * Returns `[REDACTED]`
+   */
+  toJSON(): string {
+    return MASK
+  }
+
+  /**
+   * Returns `[REDACTED]`
+   */
+  toString(): string {
+    return MASK
+  }
+
+  /**
+   * Representation used by `console.log` and `util.inspect`
+   */
+  [Symbol.for('nodejs.util.inspect.custom')](): string {
+    return `LinePaySecret ${MASK}`
+  }
+}
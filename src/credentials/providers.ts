@@ -0,0 +1,251 @@
+import { createCipheriv, createDecipheriv, randomBytes } from 'node:crypto'
+import { readFile } from 'node:fs/promises'
+import { LinePayConfigError } from '../errors/LinePayError'
+import { LinePaySecret } from './LinePaySecret'
+
+/**
+ * Default time in milliseconds a resolved channel secret is reused (5 minutes)
+ */
+export const DEFAULT_CREDENTIALS_TTL = 5 * 60 * 1000
+
+/**
+ * Returns the current channel secret
+ *
+ * Called lazily before the first request and again once the TTL elapses.
+ */
+export type LinePayCredentialProvider = () => string | Promise<string>
+
+/**
+ * Credentials Configuration
+ */
+export interface LinePayCredentialsConfig {
+  /**
+   * Provider of the channel secret
+   */
+  provider: LinePayCredentialProvider
+
+  /**
+   * Time in milliseconds a resolved secret is reused before the provider is called again
+   * @default 300000
+   */
+  ttl?: number
+}
+
+/**
+ * Creates a provider reading the channel secret from an environment variable
+ *
+ * @param name - Name of the variable
+ * @param env - Environment to read from
+ * @returns The provider
+ *
+ * @example
+ * ```typescript
+ * const client = new LinePayOnlineClient({
+ *   channelId: '1234567890',
+ *   credentials: createEnvCredentialProvider('SHOP_A_LINE_PAY_SECRET')
+ * })
+ * ```
+ */
+export function createEnvCredentialProvider(
+  name = 'LINE_PAY_CHANNEL_SECRET',
+  env: Record<string, string | undefined> = process.env
+): LinePayCredentialProvider {
+  return () => {
+    const value = env[name]
+    if (value === undefined || value.trim() === '') {
+      throw new LinePayConfigError(`Environment variable ${name} is not set`)
+    }
+    return value
+  }
+}
+
+/**
+ * Encryption key of an encrypted secret file: 32 bytes, or their base64 encoding
+ */
+export type LinePaySecretFileKey = Uint8Array | string
+
+/**
+ * Encrypted Secret File Options
+ */
+export interface LinePayEncryptedFileCredentialOptions {
+  /**
+   * Path of a file created with {@link encryptLinePaySecret}
+   */
+  path: string
+
+  /**
+   * AES-256 key the file was encrypted with
+   */
+  key: LinePaySecretFileKey
+}
+
+/**
+ * Format version prefix of encrypted secret files
+ * @internal
+ */
+const ENCRYPTED_SECRET_VERSION = 'v1'
+
+/**
+ * Converts an encryption key to bytes and checks its length
+ * @internal
+ */
+function toKeyBytes(key: LinePaySecretFileKey): Uint8Array {
+  const bytes = typeof key === 'string' ? Buffer.from(key, 'base64') : key
+  if (bytes.length !== 32) {
+    throw new LinePayConfigError('Secret file key must be 32 bytes (AES-256)')
+  }
+  return bytes
+}
+
+/**
+ * Encrypts a channel secret with AES-256-GCM for {@link createEncryptedFileCredentialProvider}
+ *
+ * @param secret - Channel secret
+ * @param key - 32-byte key, or its base64 encoding
+ * @returns File contents: `v1:<iv>:<auth tag>:<ciphertext>`, base64-encoded parts
+ *
+ * @example
+ * ```typescript
+ * await writeFile('line-pay.secret', encryptLinePaySecret(channelSecret, process.env.SECRET_KEY!))
+ * ```
+ */
+export function encryptLinePaySecret(secret: string, key: LinePaySecretFileKey): string {
+  const iv = randomBytes(12)
+  const cipher = createCipheriv('aes-256-gcm', toKeyBytes(key), iv)
+  const ciphertext = Buffer.concat([cipher.update(secret, 'utf8'), cipher.final()])
+  return [ENCRYPTED_SECRET_VERSION, iv, cipher.getAuthTag(), ciphertext]
+    .map((part) => (typeof part === 'string' ? part : part.toString('base64')))
+    .join(':')
+}
+
+/**
+ * Creates a provider reading the channel secret from a file encrypted with
+ * {@link encryptLinePaySecret}
+ *
+ * The file is read on every resolution, so replacing it rotates the secret.
+ *
+ * @param options - File path and key
+ * @returns The provider
+ */
+export function createEncryptedFileCredentialProvider(
+  options: LinePayEncryptedFileCredentialOptions
+): LinePayCredentialProvider {
+  const key = toKeyBytes(options.key)
+  return async () => {
+    const content = (await readFile(options.path, 'utf8')).trim()
+    const [version, iv, tag, ciphertext] = content.split(':')
+    if (
+      version !== ENCRYPTED_SECRET_VERSION ||
+      iv === undefined ||
+      tag === undefined ||
+      ciphertext === undefined
+    ) {
+      throw new LinePayConfigError(`Unsupported secret file format: ${options.path}`)
+    }
+    try {
+      const decipher = createDecipheriv('aes-256-gcm', key, Buffer.from(iv, 'base64'))
+      decipher.setAuthTag(Buffer.from(tag, 'base64'))
+      return Buffer.concat([
+        decipher.update(Buffer.from(ciphertext, 'base64')),
+        decipher.final(),
+      ]).toString('utf8')
+    } catch {
+      throw new LinePayConfigError(`Failed to decrypt secret file: ${options.path}`)
+    }
+  }
+}
+
+/**
+ * Channel secret of a client: either fixed or resolved from a provider and cached
+ * for a TTL
+ * @internal
+ */
+export class LinePayCredentialCache {
+  private secret?: LinePaySecret
+  private expiresAt = 0
+  private pending?: Promise<string>
+  private readonly provider?: LinePayCredentialProvider
+  private readonly ttl: number
+
+  /**
+   * Creates a cache from a fixed secret or a provider
+   *
+   * @param source - Trimmed channel secret, provider or credentials configuration
+   * @throws {LinePayConfigError} If the TTL is not a positive number
+   */
+  constructor(source: string | LinePayCredentialProvider | LinePayCredentialsConfig) {
+    if (typeof source === 'string') {
+      this.secret = new LinePaySecret(source)
+      this.expiresAt = Number.POSITIVE_INFINITY
+      this.ttl = Number.POSITIVE_INFINITY
+      return
+    }
+    const config = typeof source === 'function' ? { provider: source } : source
+    this.provider = config.provider
+    this.ttl = config.ttl ?? DEFAULT_CREDENTIALS_TTL
+    if (Number.isNaN(this.ttl) || this.ttl <= 0) {
+      throw new LinePayConfigError('credentials.ttl must be a positive number')
+    }
+  }
+
+  /**
+   * Last resolved secret, if any
+   */
+  get current(): string | undefined {
+    return this.secret?.reveal()
+  }
+
+  /**
+   * Returns the secret, calling the provider when none is cached or it has expired
+   *
+   * Concurrent calls share a single provider call.
+   *
+   * @throws {LinePayConfigError} If the provider fails or returns an empty secret
+   */
+  async resolve(): Promise<string> {
+    if (this.secret !== undefined && this.expiresAt > Date.now()) {
+      return this.secret.reveal()
+    }
+    this.pending ??= this.load().finally(() => {
+      this.pending = undefined
+    })
+    return this.pending
+  }
+
+  /**
+   * Expires the cached secret so the next request calls the provider
+   */
+  invalidate(): void {
+    if (this.provider !== undefined) {
+      this.expiresAt = 0
+    }
+  }
+
+  /**
+   * Calls the provider and caches its result
+   * @private
+   */
+  private async load(): Promise<string> {
+    const provider = this.provider
+    if (provider === undefined) {
+      throw new LinePayConfigError('channelSecret is required and cannot be empty')
+    }
+    let value: string
+    try {
+      value = (await provider()).trim()
+    } catch (error) {
+      if (error instanceof LinePayConfigError) {
+        throw error
+      }
+      throw new LinePayConfigError(
+        `Failed to resolve channelSecret: ${error instanceof Error ? error.message : String(error)}`
+      )
+    }
+    if (value === '') {
+      throw new LinePayConfigError('channelSecret is required and cannot be empty')
+    }
+    this.secret = new LinePaySecret(value)
+    this.expiresAt = Date.now() + this.ttl
+    return value
+  }
+}
@@ -1,3 +1,6 @@
+import { type LinePayRedactor, redactSensitiveData } from '../logging/redact'
+import { getReturnCodeDefinition, type LinePayReturnCodeDefinition } from './returnCodes'
+
 /**
  * LINE Pay API Error
  *
@@ -21,6 +24,21 @@
  * @see {@link https://pay.line.me/documents/online_v4.html} LINE Pay API Documentation
  */
 export class LinePayError extends Error {
+  /**
+   * Number of attempts made before this error was thrown
+   *
+   * Greater than `1` when the request was retried according to the client's retry policy.
+   */
+  attempts = 1
+
+  /**
+   * Redactor applied to `rawResponse` by {@link toJSON}
+   *
+   * Clients set it to the one built from `LinePayConfig.redaction`, so custom keys and
+   * the channel secret are masked as well.
+   */
+  redactor: LinePayRedactor = redactSensitiveData
+
   /**
    * Creates a new LinePayError instance.
    *
@@ -85,10 +103,50 @@ export class LinePayError extends Error {
     return this.returnCode.startsWith('9')
   }
 
+  /**
+   * Catalog entry for the return code.
+   *
+   * @returns The {@link LinePayReturnCodeDefinition}, or `undefined` for undocumented codes
+   * such as `PARSE_ERROR` and `HTTP_ERROR`
+   *
+   * @example
+   * ```typescript
+   * if (error.definition?.category === 'card') {
+   *   showMessage('Please use another card')
+   * }
+   * ```
+   */
+  get definition(): LinePayReturnCodeDefinition | undefined {
+    return getReturnCodeDefinition(this.returnCode)
+  }
+
+  /**
+   * Checks if the same request may succeed when sent again later.
+   *
+   * Uses the return code catalog; undocumented codes are considered retryable
+   * when they are internal errors (9xxx) or came with an HTTP 5xx status.
+   *
+   * @returns `true` if the error is transient, `false` otherwise
+   */
+  get isRetryable(): boolean {
+    return this.definition?.retryable ?? (this.isInternalError || this.httpStatus >= 500)
+  }
+
+  /**
+   * Checks if the buyer can resolve the error (e.g., by choosing another payment method).
+   *
+   * @returns `true` if the return code is marked as user-actionable in the catalog
+   */
+  get isUserActionable(): boolean {
+    return this.definition?.userActionable ?? false
+  }
+
   /**
    * Converts the error to a JSON-serializable object.
    *
-   * Useful for logging, error reporting, or API responses.
+   * Useful for logging, error reporting, or API responses. `rawResponse` is passed
+   * through {@link redactor}, so regKeys, oneTimeKeys and buyer information
+   * are masked.
    *
    * @returns A plain object containing all error properties
    *
@@ -106,11 +164,66 @@ export class LinePayError extends Error {
       returnCode: this.returnCode,
       returnMessage: this.returnMessage,
       httpStatus: this.httpStatus,
-      rawResponse: this.rawResponse,
+      rawResponse: this.redactor(this.rawResponse),
     }
   }
 }
 
+/**
+ * LINE Pay regKey Error
+ *
+ * Thrown by preapproved payment operations when LINE Pay reports that the
+ * regKey does not exist (`1190`) or has expired (`1193`). The stored regKey
+ * should be discarded and the user asked to register a payment method again.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await client.payPreapproved(regKey, body);
+ * } catch (error) {
+ *   if (error instanceof LinePayRegKeyError) {
+ *     await subscriptions.markRegKeyInvalid(error.regKey);
+ *   }
+ * }
+ * ```
+ */
+export class LinePayRegKeyError extends LinePayError {
+  /**
+   * Return codes that indicate an invalid or expired regKey
+   */
+  static readonly RETURN_CODES: readonly string[] = ['1190', '1193']
+
+  /**
+   * Creates a new LinePayRegKeyError instance.
+   *
+   * @param regKey - The regKey that was rejected
+   * @param returnCode - LINE Pay API error code ('1190' or '1193')
+   * @param returnMessage - LINE Pay API error message description
+   * @param httpStatus - HTTP status code from the response
+   * @param rawResponse - Optional raw response body for debugging purposes
+   */
+  constructor(
+    public readonly regKey: string,
+    returnCode: string,
+    returnMessage: string,
+    httpStatus: number,
+    rawResponse?: string
+  ) {
+    super(returnCode, returnMessage, httpStatus, rawResponse)
+    this.name = 'LinePayRegKeyError'
+    Object.setPrototypeOf(this, LinePayRegKeyError.prototype)
+  }
+
+  /**
+   * Checks if the regKey has expired (as opposed to not existing).
+   *
+   * @returns `true` if the return code is '1193', `false` otherwise
+   */
+  get isExpired(): boolean {
+    return this.returnCode === '1193'
+  }
+}
+
 /**
  * LINE Pay Request Timeout Error
  *
@@ -129,16 +242,26 @@ export class LinePayError extends Error {
  * }
  * ```
  */
-export class LinePayTimeoutError extends Error {
+export class LinePayTimeoutError<S = unknown> extends Error {
+  /**
+   * Number of attempts made before this error was thrown
+   *
+   * Greater than `1` when the request was retried according to the client's retry policy.
+   */
+  attempts = 1
+
   /**
    * Creates a new LinePayTimeoutError instance.
    *
    * @param timeout - The timeout duration in milliseconds that was exceeded
    * @param url - Optional URL of the request that timed out
+   * @param lastState - Last status seen before the deadline, when thrown by a
+   * `LinePayStatusPoller`
    */
   constructor(
     public readonly timeout: number,
-    public readonly url?: string
+    public readonly url?: string,
+    public readonly lastState?: S
   ) {
     super(`Request timeout after ${String(timeout)}ms`)
     this.name = 'LinePayTimeoutError'
@@ -146,11 +269,112 @@ export class LinePayTimeoutError extends Error {
   }
 }
 
+/**
+ * LINE Pay Request Abort Error
+ *
+ * Thrown when a request is cancelled through the `signal` passed in its options,
+ * e.g. because the incoming HTTP request that triggered the payment call was aborted.
+ * Unlike {@link LinePayTimeoutError}, it is never retried.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await client.refund(transactionId, {}, { signal: req.signal });
+ * } catch (error) {
+ *   if (error instanceof LinePayAbortError) {
+ *     console.log('Cancelled by the caller:', error.reason);
+ *   }
+ * }
+ * ```
+ */
+export class LinePayAbortError extends Error {
+  /**
+   * Number of attempts made before this error was thrown
+   */
+  attempts = 1
+
+  /**
+   * Creates a new LinePayAbortError instance.
+   *
+   * @param reason - The `reason` of the aborted signal
+   * @param url - Optional URL of the request that was aborted
+   */
+  constructor(
+    public readonly reason?: unknown,
+    public readonly url?: string
+  ) {
+    super(
+      reason instanceof Error && reason.name !== 'AbortError'
+        ? `Request aborted: ${reason.message}`
+        : 'Request aborted'
+    )
+    this.name = 'LinePayAbortError'
+    Object.setPrototypeOf(this, LinePayAbortError.prototype)
+  }
+}
+
+/**
+ * LINE Pay Network Error
+ *
+ * Thrown when the transport fails to send a request or to receive its response,
+ * e.g. a DNS failure or a reset connection (`fetch` rejects with a `TypeError`).
+ * The transport's error is kept in `cause`. Unlike errors thrown by middleware,
+ * it is retried according to the client's retry policy.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await client.checkPaymentStatus(transactionId);
+ * } catch (error) {
+ *   if (error instanceof LinePayNetworkError) {
+ *     console.log(`LINE Pay unreachable after ${error.attempts} attempts`, error.cause);
+ *   }
+ * }
+ * ```
+ */
+export class LinePayNetworkError extends Error {
+  /**
+   * Number of attempts made before this error was thrown
+   */
+  attempts = 1
+
+  /**
+   * Creates a new LinePayNetworkError instance.
+   *
+   * @param cause - Error thrown by the transport
+   * @param url - Optional URL of the request that failed
+   */
+  constructor(
+    cause: unknown,
+    public readonly url?: string
+  ) {
+    super(`Network error: ${cause instanceof Error ? cause.message : String(cause)}`, { cause })
+    this.name = 'LinePayNetworkError'
+    Object.setPrototypeOf(this, LinePayNetworkError.prototype)
+  }
+}
+
+/**
+ * Problem found in a LINE Pay client configuration
+ */
+export interface LinePayConfigIssue {
+  /**
+   * Configuration field (e.g., `timeout`, `retry.maxAttempts`)
+   */
+  field: string
+
+  /**
+   * Description of the problem
+   */
+  message: string
+}
+
 /**
  * LINE Pay Configuration Error
  *
  * Thrown when the LinePayClient is instantiated with invalid configuration.
  * This includes missing or empty required fields like channelId or channelSecret.
+ * When the configuration has several problems, all of them are listed in `issues`.
  *
  * @example
  * ```typescript
@@ -168,8 +392,15 @@ export class LinePayConfigError extends Error {
    * Creates a new LinePayConfigError instance.
    *
    * @param message - Description of the configuration error
+   * @param merchantKey - Merchant whose configuration failed, when resolved through a
+   * `LinePayClientRegistry`
+   * @param issues - Every problem found by {@link validateLinePayConfig}
    */
-  constructor(message: string) {
+  constructor(
+    message: string,
+    public readonly merchantKey?: string,
+    public readonly issues: readonly LinePayConfigIssue[] = []
+  ) {
     super(message)
     this.name = 'LinePayConfigError'
     Object.setPrototypeOf(this, LinePayConfigError.prototype)
@@ -191,7 +422,7 @@ export class LinePayConfigError extends Error {
  *     .send();
  * } catch (error) {
  *   if (error instanceof LinePayValidationError) {
- *     console.log(error.message); // 'Amount is required and must be non-negative'
+ *     console.log(error.message); // 'amount is required and must be a positive number'
  *     console.log(error.field);   // 'amount'
  *   }
  * }
@@ -213,3 +444,141 @@ export class LinePayValidationError extends Error {
     Object.setPrototypeOf(this, LinePayValidationError.prototype)
   }
 }
+
+/**
+ * Field of a LINE Pay response that does not match the expected schema
+ */
+export interface LinePayResponseValidationIssue {
+  /**
+   * Property path of the field (e.g., `info.payInfo[0].amount`); empty for the root value
+   */
+  path: string
+
+  /**
+   * Description of the mismatch
+   */
+  message: string
+}
+
+/**
+ * LINE Pay Response Validation Error
+ *
+ * Thrown when a successful response does not match the schema configured for the
+ * endpoint through `LinePayConfig.responseSchemas`. This usually means the API
+ * changed the shape or type of a field.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await client.confirm(transactionId, body);
+ * } catch (error) {
+ *   if (error instanceof LinePayResponseValidationError) {
+ *     console.log(error.path);        // 'info.payInfo[0].amount'
+ *     console.log(error.rawResponse); // Response body as received
+ *   }
+ * }
+ * ```
+ */
+export class LinePayResponseValidationError extends Error {
+  /**
+   * Property path of the first invalid field
+   */
+  readonly path: string
+
+  /**
+   * Redactor applied to `rawResponse` by {@link toJSON}
+   *
+   * Clients set it to the one built from `LinePayConfig.redaction`, so custom keys and
+   * the channel secret are masked as well.
+   */
+  redactor: LinePayRedactor = redactSensitiveData
+
+  /**
+   * Creates a new LinePayResponseValidationError instance.
+   *
+   * @param issues - Invalid fields, at least one
+   * @param rawResponse - Raw response body
+   * @param httpStatus - HTTP status code from the response
+   */
+  constructor(
+    public readonly issues: readonly LinePayResponseValidationIssue[],
+    public readonly rawResponse: string,
+    public readonly httpStatus: number
+  ) {
+    const [first] = issues
+    const path = first?.path ?? ''
+    super(`Invalid LINE Pay response at "${path}": ${first?.message ?? 'validation failed'}`)
+    this.name = 'LinePayResponseValidationError'
+    this.path = path
+    Object.setPrototypeOf(this, LinePayResponseValidationError.prototype)
+  }
+
+  /**
+   * Converts the error to a JSON-serializable object with a redacted `rawResponse`
+   *
+   * @returns A plain object containing all error properties
+   */
+  toJSON(): Record<string, unknown> {
+    return {
+      name: this.name,
+      message: this.message,
+      path: this.path,
+      issues: this.issues,
+      httpStatus: this.httpStatus,
+      rawResponse: this.redactor(this.rawResponse),
+    }
+  }
+}
+
+/**
+ * Reason a webhook or callback signature check failed
+ *
+ * - `MISSING_HEADER`: the nonce or signature header is absent
+ * - `CHANNEL_MISMATCH`: the `X-LINE-ChannelId` header does not match the expected channel
+ * - `INVALID_SIGNATURE`: the signature does not match the raw body
+ * - `REPLAYED_NONCE`: the nonce has already been accepted (see `NonceStore`)
+ * - `INVALID_BODY`: the signature is valid but the body is not JSON
+ * - `BODY_TOO_LARGE`: the body exceeds the adapter's `maxBodySize` and was not read
+ */
+export type LinePaySignatureErrorReason =
+  | 'MISSING_HEADER'
+  | 'CHANNEL_MISMATCH'
+  | 'INVALID_SIGNATURE'
+  | 'REPLAYED_NONCE'
+  | 'INVALID_BODY'
+  | 'BODY_TOO_LARGE'
+
+/**
+ * LINE Pay Signature Error
+ *
+ * Thrown when an incoming webhook or callback request cannot be authenticated.
+ * The request should be rejected (typically with HTTP 401) and not processed.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   const event = await verifier.verify({ rawBody, headers, path: '/webhooks/line-pay' });
+ * } catch (error) {
+ *   if (error instanceof LinePaySignatureError) {
+ *     console.log(error.reason); // 'INVALID_SIGNATURE'
+ *     return new Response(null, { status: 401 });
+ *   }
+ * }
+ * ```
+ */
+export class LinePaySignatureError extends Error {
+  /**
+   * Creates a new LinePaySignatureError instance.
+   *
+   * @param reason - Why the verification failed
+   * @param message - Description of the failure
+   */
+  constructor(
+    public readonly reason: LinePaySignatureErrorReason,
+    message: string
+  ) {
+    super(message)
+    this.name = 'LinePaySignatureError'
+    Object.setPrototypeOf(this, LinePaySignatureError.prototype)
+  }
+}
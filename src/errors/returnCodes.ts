@@ -0,0 +1,222 @@
+/**
+ * Category of a LINE Pay return code
+ *
+ * - `status`: not an error; reports the state of a payment (0xxx)
+ * - `user`: problem with the buyer's LINE Pay account
+ * - `card`: problem with the buyer's credit card
+ * - `merchant`: problem with the merchant account or configuration
+ * - `transaction`: the transaction is in a state that does not allow the operation
+ * - `preapproved`: problem with a preapproved payment regKey
+ * - `request`: malformed request sent by the merchant
+ * - `internal`: error on the LINE Pay side
+ */
+export type LinePayReturnCodeCategory =
+  | 'status'
+  | 'user'
+  | 'card'
+  | 'merchant'
+  | 'transaction'
+  | 'preapproved'
+  | 'request'
+  | 'internal'
+
+/**
+ * Metadata describing a LINE Pay return code
+ */
+export interface LinePayReturnCodeDefinition {
+  /**
+   * Return code (e.g., '1104')
+   */
+  code: string
+
+  /**
+   * Description of the return code in English
+   */
+  description: string
+
+  /**
+   * Category of the return code
+   */
+  category: LinePayReturnCodeCategory
+
+  /**
+   * Whether the same request may succeed when sent again later
+   */
+  retryable: boolean
+
+  /**
+   * Whether the buyer can resolve the problem (e.g., by choosing another payment method)
+   */
+  userActionable: boolean
+
+  /**
+   * Suggested HTTP status for a merchant API that surfaces this error to its own clients
+   */
+  httpStatus: number
+}
+
+/**
+ * Builds a catalog entry
+ * @internal
+ */
+function define(
+  code: string,
+  description: string,
+  category: LinePayReturnCodeCategory,
+  httpStatus: number,
+  flags: { retryable?: boolean; userActionable?: boolean } = {}
+): LinePayReturnCodeDefinition {
+  return {
+    code,
+    description,
+    category,
+    retryable: flags.retryable ?? false,
+    userActionable: flags.userActionable ?? false,
+    httpStatus,
+  }
+}
+
+/**
+ * Catalog of documented LINE Pay return codes
+ *
+ * @example
+ * ```typescript
+ * const definition = LINE_PAY_RETURN_CODES['1172']
+ * console.log(definition?.description) // 'A transaction with the same orderId already exists'
+ * console.log(definition?.httpStatus)  // 409
+ * ```
+ *
+ * @see {@link https://pay.line.me/documents/online_v3_en.html#error-code} LINE Pay Return Codes
+ */
+export const LINE_PAY_RETURN_CODES: Readonly<Record<string, LinePayReturnCodeDefinition>> =
+  Object.fromEntries(
+    [
+      define('0000', 'Success', 'status', 200),
+      define('0110', 'Authorization completed; the payment can be confirmed', 'status', 200),
+      define('0121', 'Payment was cancelled by the user or has expired', 'status', 200),
+      define('0122', 'Payment failed', 'status', 200),
+      define('0123', 'Payment completed', 'status', 200),
+
+      define('1101', 'The buyer is not a LINE Pay user', 'user', 402, { userActionable: true }),
+      define('1102', 'The buyer is currently unable to use LINE Pay', 'user', 402, {
+        userActionable: true,
+      }),
+      define('1104', 'Merchant not registered', 'merchant', 500),
+      define('1105', 'The merchant cannot use LINE Pay', 'merchant', 500),
+      define('1106', 'Request header information error', 'merchant', 500),
+      define('1110', 'The credit card cannot be used', 'card', 402, { userActionable: true }),
+      define('1124', 'Amount information error', 'request', 400),
+      define('1133', 'Invalid oneTimeKey', 'transaction', 400, { userActionable: true }),
+      define('1141', 'Payment account error', 'user', 402, { userActionable: true }),
+      define('1142', 'Insufficient balance', 'user', 402, { userActionable: true }),
+      define('1145', 'The payment is in progress', 'transaction', 409),
+      define('1150', 'Transaction record not found', 'transaction', 404),
+      define('1152', 'The transaction has already been processed', 'transaction', 409),
+      define('1153', 'The payment amount differs from the requested amount', 'transaction', 400),
+      define(
+        '1154',
+        'The payment method registered for preapproved payment is unavailable',
+        'preapproved',
+        402,
+        {
+          userActionable: true,
+        }
+      ),
+      define('1155', 'The transaction ID cannot be used for this operation', 'transaction', 400),
+      define('1159', 'Payment request information not found', 'transaction', 404),
+      define('1163', 'The refund period has expired', 'transaction', 409),
+      define('1164', 'The refund amount exceeds the refundable amount', 'transaction', 400),
+      define('1165', 'The transaction has already been refunded', 'transaction', 409),
+      define(
+        '1169',
+        'The buyer has not selected a payment method or entered the password',
+        'user',
+        402,
+        {
+          userActionable: true,
+        }
+      ),
+      define('1170', 'The balance of the buyer account changed', 'user', 409, {
+        userActionable: true,
+      }),
+      define('1172', 'A transaction with the same orderId already exists', 'transaction', 409),
+      define('1177', 'Too many transactions requested (maximum 100)', 'request', 400),
+      define('1178', 'The currency is not supported by the merchant', 'merchant', 400),
+      define(
+        '1179',
+        'The transaction cannot be processed in its current state',
+        'transaction',
+        409
+      ),
+      define('1180', 'The payment deadline has passed', 'transaction', 410, {
+        userActionable: true,
+      }),
+      define('1183', 'The payment amount must be greater than 0', 'request', 400),
+      define('1184', 'The payment amount exceeds the requested amount', 'request', 400),
+      define('1190', 'The regKey does not exist', 'preapproved', 404),
+      define('1193', 'The regKey has expired', 'preapproved', 410),
+      define('1194', 'The merchant cannot use preapproved payments', 'merchant', 500),
+      define('1197', 'A payment with this regKey is already in progress', 'preapproved', 409),
+      define('1198', 'The same request is still being processed', 'transaction', 409, {
+        retryable: true,
+      }),
+      define('1199', 'Internal request error', 'internal', 502, { retryable: true }),
+
+      define('1280', 'Temporary error during credit card payment', 'card', 503, {
+        retryable: true,
+        userActionable: true,
+      }),
+      define('1281', 'Credit card payment error', 'card', 402, { userActionable: true }),
+      define('1282', 'Credit card authorization error', 'card', 402, { userActionable: true }),
+      define('1283', 'Payment refused due to suspected fraud', 'card', 402),
+      define('1284', 'Credit card payments are temporarily suspended', 'card', 503, {
+        retryable: true,
+        userActionable: true,
+      }),
+      define('1285', 'Credit card information is missing', 'card', 402, { userActionable: true }),
+      define('1286', 'Credit card payment information is incorrect', 'card', 402, {
+        userActionable: true,
+      }),
+      define('1287', 'The credit card expiration date is incorrect', 'card', 402, {
+        userActionable: true,
+      }),
+      define('1288', 'The credit card has insufficient funds', 'card', 402, {
+        userActionable: true,
+      }),
+      define('1289', 'The credit card limit has been exceeded', 'card', 402, {
+        userActionable: true,
+      }),
+      define('1290', 'The single payment limit has been exceeded', 'card', 402, {
+        userActionable: true,
+      }),
+      define('1291', 'The credit card has been reported stolen', 'card', 402),
+      define('1292', 'The credit card has been suspended', 'card', 402, { userActionable: true }),
+      define('1293', 'The card verification number (CVN) is invalid', 'card', 402, {
+        userActionable: true,
+      }),
+      define('1294', 'The credit card is blacklisted', 'card', 402),
+      define('1295', 'The credit card number is incorrect', 'card', 402, { userActionable: true }),
+      define('1296', 'Invalid amount for credit card payment', 'card', 400),
+      define('1298', 'The credit card was declined', 'card', 402, { userActionable: true }),
+
+      define('2042', 'Refund failed due to insufficient merchant balance', 'merchant', 500),
+      define('2101', 'Parameter error', 'request', 400),
+      define('2102', 'JSON data format error', 'request', 400),
+
+      define('9000', 'Internal error', 'internal', 502, { retryable: true }),
+    ].map((definition) => [definition.code, definition])
+  )
+
+/**
+ * Looks up the catalog entry for a return code
+ *
+ * @param returnCode - LINE Pay return code
+ * @returns The definition, or `undefined` for undocumented codes
+ */
+export function getReturnCodeDefinition(
+  returnCode: string
+): LinePayReturnCodeDefinition | undefined {
+  return Object.hasOwn(LINE_PAY_RETURN_CODES, returnCode)
+    ? LINE_PAY_RETURN_CODES[returnCode]
+    : undefined
+}
@@ -0,0 +1,118 @@
+/**
+ * How integers beyond `Number.MAX_SAFE_INTEGER` in JSON responses are represented
+ *
+ * - `string`: as decimal strings, matching the `string` typing of IDs such as `transactionId`
+ * - `bigint`: as `bigint` values
+ * - `number`: as JSON.parse returns them (rounded; not recommended)
+ */
+export type LinePayBigNumberMode = 'string' | 'bigint' | 'number'
+
+/**
+ * Prefix marking unsafe integers between the pre-parse scan and the reviver
+ * @internal
+ */
+const BIG_NUMBER_MARKER = '\u0000line-pay-big-number:'
+
+/**
+ * Parses JSON without losing the precision of large integers
+ *
+ * Integers that are not safe integers (e.g., 19-digit transaction IDs) are returned
+ * as strings or bigints according to `mode`; all other values are parsed as usual.
+ *
+ * @param text - JSON text
+ * @param mode - Representation of unsafe integers
+ * @returns The parsed value
+ * @throws {SyntaxError} If the text is not valid JSON
+ *
+ * @example
+ * ```typescript
+ * parseLinePayJson('{"transactionId":2024123112345678901}')
+ * // { transactionId: '2024123112345678901' }
+ * ```
+ */
+export function parseLinePayJson(text: string, mode: LinePayBigNumberMode = 'string'): unknown {
+  if (mode === 'number') {
+    return JSON.parse(text)
+  }
+
+  let marked = ''
+  let copiedUntil = 0
+  let inString = false
+  for (let index = 0; index < text.length; index++) {
+    const char = text[index]
+    if (inString) {
+      if (char === '\\') {
+        index++
+      } else if (char === '"') {
+        inString = false
+      }
+      continue
+    }
+    if (char === '"') {
+      inString = true
+      continue
+    }
+    if (char !== '-' && (char === undefined || char < '0' || char > '9')) {
+      continue
+    }
+
+    let end = index + 1
+    while (end < text.length && /[\d.eE+-]/.test(text[end] ?? '')) {
+      end++
+    }
+    const token = text.slice(index, end)
+    if (/^-?\d+$/.test(token) && !Number.isSafeInteger(Number(token))) {
+      marked += text.slice(copiedUntil, index) + JSON.stringify(`${BIG_NUMBER_MARKER}${token}`)
+      copiedUntil = end
+    }
+    index = end - 1
+  }
+
+  if (copiedUntil === 0) {
+    return JSON.parse(text)
+  }
+  marked += text.slice(copiedUntil)
+  return JSON.parse(marked, (_key, value: unknown) => {
+    if (typeof value === 'string' && value.startsWith(BIG_NUMBER_MARKER)) {
+      const digits = value.slice(BIG_NUMBER_MARKER.length)
+      return mode === 'bigint' ? BigInt(digits) : digits
+    }
+    return value
+  })
+}
+
+/**
+ * Serializes a value to JSON, writing `bigint` values as JSON numbers
+ *
+ * @param value - Value to serialize
+ * @returns The JSON text
+ *
+ * @example
+ * ```typescript
+ * stringifyLinePayJson({ transactionId: 2024123112345678901n })
+ * // '{"transactionId":2024123112345678901}'
+ * ```
+ */
+export function stringifyLinePayJson(value: unknown): string {
+  let hasBigInt = false
+  const text = JSON.stringify(value, (_key, entry: unknown) => {
+    if (typeof entry === 'bigint') {
+      hasBigInt = true
+      return `${BIG_NUMBER_MARKER}${entry.toString()}`
+    }
+    return entry
+  })
+  if (!hasBigInt) {
+    return text
+  }
+  const marker = JSON.stringify(BIG_NUMBER_MARKER).slice(1, -1)
+  return text.replace(new RegExp(`"${escapeRegExp(marker)}(-?\\d+)"`, 'g'), '$1')
+}
+
+/**
+ * Escapes a string for use in a regular expression
+ * @internal
+ */
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
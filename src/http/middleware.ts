@@ -0,0 +1,181 @@
+import type { LinePayBaseResponse } from '../LinePayBaseClient'
+import type { LinePayQueryParams } from '../LinePayUtils'
+import type {
+  LinePayTransport,
+  LinePayTransportRequest,
+  LinePayTransportResponse,
+} from './transport'
+
+/**
+ * Timing information for a single request attempt
+ *
+ * All values are epoch milliseconds except `duration`.
+ */
+export interface LinePayRequestTimings {
+  /**
+   * When the attempt started
+   */
+  start: number
+
+  /**
+   * When the attempt finished (set before `afterResponse` / `onError`)
+   */
+  end?: number
+
+  /**
+   * Elapsed time of the attempt in milliseconds
+   */
+  duration?: number
+}
+
+/**
+ * Context shared by all middleware hooks for a single request attempt
+ *
+ * A new context is created for every attempt, so retried requests produce
+ * one context per attempt with an increasing `attempt` number.
+ */
+export interface LinePayRequestContext {
+  /**
+   * HTTP method
+   */
+  readonly method: 'GET' | 'POST'
+
+  /**
+   * API endpoint path (e.g., '/v3/payments/request')
+   */
+  readonly path: string
+
+  /**
+   * Query parameters
+   */
+  readonly params?: LinePayQueryParams
+
+  /**
+   * Absolute request URL including the query string
+   */
+  readonly url: string
+
+  /**
+   * Nonce used to sign this attempt
+   */
+  readonly nonce: string
+
+  /**
+   * Attempt number (1-based)
+   */
+  readonly attempt: number
+
+  /**
+   * Caller-defined request ID from `LinePayRequestOptions.requestId`
+   */
+  readonly requestId?: string
+
+  /**
+   * Request body
+   *
+   * May be replaced in `beforeSign`; changes made later are not sent.
+   */
+  body: unknown
+
+  /**
+   * Request headers
+   *
+   * Before signing this only holds additional headers; after signing it also
+   * contains the LINE Pay authentication headers.
+   */
+  headers: Record<string, string>
+
+  /**
+   * Timing information for this attempt
+   */
+  timings: LinePayRequestTimings
+
+  /**
+   * HTTP status code (set once a response is received)
+   */
+  httpStatus?: number
+
+  /**
+   * Parsed LINE Pay response (set once a response is parsed)
+   */
+  response?: LinePayBaseResponse
+
+  /**
+   * Error thrown by this attempt (set before `onError`)
+   */
+  error?: unknown
+}
+
+/**
+ * LINE Pay Request Middleware
+ *
+ * Hooks called around every request sent by {@link LinePayBaseClient.sendRequest}.
+ * All hooks are optional and may be asynchronous. Middleware runs in registration order,
+ * and an error thrown by a hook aborts the attempt.
+ *
+ * - `beforeSign`: before the signature is generated; may change `body` and `headers`
+ * - `afterSign`: after the authentication headers are set, right before the request is sent
+ * - `aroundSend`: wraps the transport call; may observe the request and response, or answer
+ *   without calling `next` to short-circuit the network (e.g., to replay recorded traffic)
+ * - `afterResponse`: after a successful response is parsed
+ * - `onError`: after an attempt fails (called once per failed attempt)
+ *
+ * @example
+ * ```typescript
+ * const tracing: LinePayMiddleware = {
+ *   beforeSign(ctx) {
+ *     ctx.headers['X-Request-Id'] = randomUUID()
+ *   },
+ *   afterResponse(ctx) {
+ *     metrics.timing('linepay.request', ctx.timings.duration ?? 0, { path: ctx.path })
+ *   },
+ *   onError(ctx) {
+ *     logger.warn({ path: ctx.path, attempt: ctx.attempt, error: ctx.error })
+ *   }
+ * }
+ *
+ * client.use(tracing)
+ * ```
+ */
+export interface LinePayMiddleware {
+  beforeSign?(context: LinePayRequestContext): void | Promise<void>
+  afterSign?(context: LinePayRequestContext): void | Promise<void>
+  aroundSend?(
+    request: LinePayTransportRequest,
+    context: LinePayRequestContext,
+    next: (request: LinePayTransportRequest) => Promise<LinePayTransportResponse>
+  ): Promise<LinePayTransportResponse>
+  afterResponse?(context: LinePayRequestContext): void | Promise<void>
+  onError?(context: LinePayRequestContext): void | Promise<void>
+}
+
+/**
+ * Runs a hook of every middleware in order
+ * @internal
+ */
+export async function runMiddlewareHook(
+  middleware: readonly LinePayMiddleware[],
+  hook: Exclude<keyof LinePayMiddleware, 'aroundSend'>,
+  context: LinePayRequestContext
+): Promise<void> {
+  for (const entry of middleware) {
+    await entry[hook]?.(context)
+  }
+}
+
+/**
+ * Wraps a transport with the `aroundSend` hooks, the first middleware being the outermost
+ * @internal
+ */
+export function wrapTransport(
+  middleware: readonly LinePayMiddleware[],
+  context: LinePayRequestContext,
+  transport: LinePayTransport
+): LinePayTransport {
+  return middleware.reduceRight<LinePayTransport>((next, entry) => {
+    const { aroundSend } = entry
+    return aroundSend === undefined
+      ? next
+      : (request) => aroundSend.call(entry, request, context, next)
+  }, transport)
+}
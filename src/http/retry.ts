@@ -0,0 +1,122 @@
+import { DEFAULT_RETRY_CONFIG } from '../config/env'
+import type { LinePayRetryConfig } from '../config/types'
+import {
+  LinePayConfigError,
+  LinePayError,
+  LinePayNetworkError,
+  LinePayTimeoutError,
+} from '../errors/LinePayError'
+
+/**
+ * Retry policy with every option resolved to a concrete value
+ * @internal
+ */
+export type ResolvedRetryPolicy = Required<LinePayRetryConfig>
+
+/**
+ * Single-attempt policy used when no retry configuration is given
+ * @internal
+ */
+export const NO_RETRY_POLICY: ResolvedRetryPolicy = {
+  ...DEFAULT_RETRY_CONFIG,
+  maxAttempts: 1,
+}
+
+/**
+ * Merges a retry configuration with the defaults and validates the result
+ *
+ * @param config - Retry configuration from `LinePayConfig.retry`
+ * @returns Fully resolved retry policy
+ * @throws {LinePayConfigError} If a numeric option is out of range
+ * @internal
+ */
+export function resolveRetryPolicy(config?: LinePayRetryConfig): ResolvedRetryPolicy {
+  if (config === undefined) {
+    return NO_RETRY_POLICY
+  }
+
+  const policy: ResolvedRetryPolicy = {
+    maxAttempts: config.maxAttempts ?? DEFAULT_RETRY_CONFIG.maxAttempts,
+    baseDelay: config.baseDelay ?? DEFAULT_RETRY_CONFIG.baseDelay,
+    maxDelay: config.maxDelay ?? DEFAULT_RETRY_CONFIG.maxDelay,
+    jitter: config.jitter ?? DEFAULT_RETRY_CONFIG.jitter,
+    retryableReturnCodes: config.retryableReturnCodes ?? DEFAULT_RETRY_CONFIG.retryableReturnCodes,
+    retryableStatuses: config.retryableStatuses ?? DEFAULT_RETRY_CONFIG.retryableStatuses,
+  }
+
+  if (!Number.isInteger(policy.maxAttempts) || policy.maxAttempts < 1) {
+    throw new LinePayConfigError('retry.maxAttempts must be a positive integer')
+  }
+  if (!isNonNegative(policy.baseDelay) || !isNonNegative(policy.maxDelay)) {
+    throw new LinePayConfigError('retry delays must be non-negative finite numbers')
+  }
+
+  return policy
+}
+
+/**
+ * Checks whether a value is a finite number greater than or equal to zero
+ * @internal
+ */
+function isNonNegative(value: unknown): boolean {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0
+}
+
+/**
+ * Computes the delay before the next attempt
+ *
+ * Uses exponential backoff (`baseDelay * 2^(attempt - 1)`) capped at `maxDelay`,
+ * with optional full jitter.
+ *
+ * @param policy - Resolved retry policy
+ * @param attempt - The attempt that just failed (1-based)
+ * @returns Delay in milliseconds
+ * @internal
+ */
+export function computeRetryDelay(policy: ResolvedRetryPolicy, attempt: number): number {
+  const exponential = Math.min(policy.maxDelay, policy.baseDelay * 2 ** (attempt - 1))
+  return policy.jitter ? Math.floor(Math.random() * exponential) : exponential
+}
+
+/**
+ * Determines whether an error from a single attempt is transient
+ *
+ * - {@link LinePayTimeoutError}, {@link LinePayNetworkError} → retryable
+ * - {@link LinePayError} → retryable when its return code or HTTP status is listed in the policy
+ * - Any other error (abort, response validation, errors thrown by middleware) → not retryable
+ *
+ * @param policy - Resolved retry policy
+ * @param error - Error thrown by the attempt
+ * @returns `true` if the request may be attempted again
+ * @internal
+ */
+export function isRetryableError(policy: ResolvedRetryPolicy, error: unknown): boolean {
+  if (error instanceof LinePayTimeoutError || error instanceof LinePayNetworkError) {
+    return true
+  }
+  if (error instanceof LinePayError) {
+    return (
+      policy.retryableReturnCodes.includes(error.returnCode) ||
+      policy.retryableStatuses.includes(error.httpStatus)
+    )
+  }
+  return false
+}
+
+/**
+ * Waits for the given number of milliseconds, or until the signal is aborted
+ *
+ * Resolves early instead of rejecting on abort, so callers check the signal afterwards.
+ * @internal
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const done = () => {
+      clearTimeout(timer)
+      signal?.removeEventListener('abort', done)
+      resolve()
+    }
+    const timer = setTimeout(done, ms)
+    signal?.addEventListener('abort', done, { once: true })
+  })
+}
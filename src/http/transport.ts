@@ -0,0 +1,122 @@
+/**
+ * HTTP request passed to a {@link LinePayTransport}
+ *
+ * The request is fully prepared by the client: the URL includes the query string,
+ * the authentication headers are set and the body is already serialized.
+ */
+export interface LinePayTransportRequest {
+  /**
+   * HTTP method
+   */
+  method: 'GET' | 'POST'
+
+  /**
+   * Absolute request URL including the query string
+   */
+  url: string
+
+  /**
+   * Request headers, including the LINE Pay authentication headers
+   */
+  headers: Record<string, string>
+
+  /**
+   * Serialized request body (only present for POST requests)
+   */
+  body?: string
+
+  /**
+   * Abort signal that fires when the request exceeds the timeout or the caller's
+   * `LinePayRequestOptions.signal` is aborted
+   */
+  signal: AbortSignal
+}
+
+/**
+ * HTTP response returned by a {@link LinePayTransport}
+ */
+export interface LinePayTransportResponse {
+  /**
+   * HTTP status code
+   */
+  status: number
+
+  /**
+   * HTTP status text (used as a fallback error message)
+   */
+  statusText?: string
+
+  /**
+   * Response headers with lower-case names
+   */
+  headers: Record<string, string>
+
+  /**
+   * Raw response body
+   */
+  text: string
+}
+
+/**
+ * HTTP transport used by {@link LinePayBaseClient} to send requests
+ *
+ * Implementations must honour `request.signal` so that timeouts and cancellations can
+ * abort in-flight requests. Rejections caused by the signal are reported as
+ * `LinePayTimeoutError` or, when the caller aborted, `LinePayAbortError` by the client;
+ * any other rejection is wrapped in a retryable `LinePayNetworkError`.
+ *
+ * @example
+ * ```typescript
+ * // In-memory transport for tests
+ * const transport: LinePayTransport = async (request) => ({
+ *   status: 200,
+ *   headers: { 'content-type': 'application/json' },
+ *   text: JSON.stringify({ returnCode: '0000', returnMessage: 'Success', info: {} })
+ * })
+ *
+ * const client = new MyLinePayClient({ channelId, channelSecret, transport })
+ * ```
+ */
+export type LinePayTransport = (
+  request: LinePayTransportRequest
+) => Promise<LinePayTransportResponse>
+
+/**
+ * Creates a transport backed by a WHATWG `fetch` implementation
+ *
+ * The global `fetch` is looked up on every request when no implementation is given,
+ * so it can still be replaced at runtime.
+ *
+ * @param fetchImpl - Optional `fetch` implementation (e.g. undici's `fetch` bound to a proxy agent)
+ * @returns Transport that sends requests with the given `fetch`
+ *
+ * @example
+ * ```typescript
+ * import { fetch, ProxyAgent } from 'undici'
+ *
+ * const dispatcher = new ProxyAgent('http://proxy.internal:8080')
+ * const transport = createFetchTransport((url, init) => fetch(url, { ...init, dispatcher }))
+ * ```
+ */
+export function createFetchTransport(fetchImpl?: typeof fetch): LinePayTransport {
+  return async (request) => {
+    const response = await (fetchImpl ?? fetch)(request.url, {
+      method: request.method,
+      headers: request.headers,
+      body: request.body,
+      signal: request.signal,
+    })
+
+    const headers: Record<string, string> = {}
+    response.headers.forEach((value, name) => {
+      headers[name.toLowerCase()] = value
+    })
+
+    return {
+      status: response.status,
+      statusText: response.statusText,
+      headers,
+      text: await response.text(),
+    }
+  }
+}
@@ -0,0 +1,272 @@
+import type { LinePayBaseResponse } from '../LinePayBaseClient'
+
+/**
+ * Default time in milliseconds an idempotency record is kept (24 hours)
+ */
+export const DEFAULT_IDEMPOTENCY_TTL = 24 * 60 * 60 * 1000
+
+/**
+ * Default time in milliseconds a pending record is kept and waited on (1 minute)
+ */
+export const DEFAULT_IDEMPOTENCY_PENDING_TIMEOUT = 60 * 1000
+
+/**
+ * Operations protected by the idempotency layer
+ */
+export type LinePayIdempotentOperation = 'confirm' | 'capture' | 'refund'
+
+/**
+ * Return codes meaning the operation has already been applied to the transaction
+ *
+ * With idempotency enabled, these codes are returned as a
+ * {@link LinePayAlreadyProcessedResponse} instead of throwing {@link LinePayError}.
+ * `1198` (the same request is still being processed) is not one of them: the outcome is
+ * not known yet, so it is thrown as a retryable {@link LinePayError}.
+ */
+export const LINE_PAY_ALREADY_PROCESSED_RETURN_CODES: Readonly<
+  Record<LinePayIdempotentOperation, readonly string[]>
+> = {
+  confirm: ['1172'],
+  capture: ['1152'],
+  refund: ['1165'],
+}
+
+/**
+ * Successful result for an operation that LINE Pay reports as already applied
+ *
+ * LINE Pay does not return the original `info` in this case; keep a persistent
+ * {@link LinePayIdempotencyStore} to get the original response back instead.
+ *
+ * @example
+ * ```typescript
+ * const response = await client.confirm(transactionId, body)
+ * if ('alreadyProcessed' in response) {
+ *   return redirect('/orders/complete')
+ * }
+ * console.log(response.info.payInfo)
+ * ```
+ */
+export interface LinePayAlreadyProcessedResponse extends LinePayBaseResponse<undefined> {
+  /**
+   * Always `true`; discriminates this result from a regular response
+   */
+  alreadyProcessed: true
+
+  /**
+   * Operation that was already applied
+   */
+  operation: LinePayIdempotentOperation
+}
+
+/**
+ * Idempotency record kept for an operation
+ *
+ * - `pending`: the request has been sent and no result is known yet
+ * - `completed`: the request succeeded; `response` is returned to duplicate calls
+ */
+export type LinePayIdempotencyRecord =
+  | { status: 'pending'; startedAt: number }
+  | {
+      status: 'completed'
+      completedAt: number
+      response: LinePayBaseResponse | LinePayAlreadyProcessedResponse
+    }
+
+/**
+ * Store of idempotency records keyed by channel, operation and transaction or order ID
+ *
+ * Records must be serializable as JSON so they can be kept in an external store.
+ *
+ * @example
+ * ```typescript
+ * const redisIdempotencyStore: LinePayIdempotencyStore = {
+ *   async get(key) {
+ *     const value = await redis.get(`line-pay:idempotency:${key}`)
+ *     return value === null ? undefined : JSON.parse(value)
+ *   },
+ *   async set(key, record, ttl) {
+ *     await redis.set(`line-pay:idempotency:${key}`, JSON.stringify(record), 'PX', ttl)
+ *   },
+ *   async setIfAbsent(key, record, ttl) {
+ *     const result = await redis.set(
+ *       `line-pay:idempotency:${key}`,
+ *       JSON.stringify(record),
+ *       'PX',
+ *       ttl,
+ *       'NX'
+ *     )
+ *     return result === 'OK'
+ *   },
+ *   async delete(key) {
+ *     await redis.del(`line-pay:idempotency:${key}`)
+ *   }
+ * }
+ * ```
+ */
+export interface LinePayIdempotencyStore {
+  /**
+   * Returns the record for a key, or `undefined` if there is none
+   */
+  get(
+    key: string
+  ): LinePayIdempotencyRecord | undefined | Promise<LinePayIdempotencyRecord | undefined>
+
+  /**
+   * Stores a record, replacing any previous one
+   *
+   * @param key - Idempotency key
+   * @param record - Record to store
+   * @param ttl - Time in milliseconds the record must be kept
+   */
+  set(key: string, record: LinePayIdempotencyRecord, ttl: number): void | Promise<void>
+
+  /**
+   * Stores a record only if there is none for the key, atomically
+   *
+   * Used to claim a key before sending a request, so that only one client sharing
+   * the store sends it.
+   *
+   * @param key - Idempotency key
+   * @param record - Record to store
+   * @param ttl - Time in milliseconds the record must be kept
+   * @returns `true` if the record was stored, `false` if the key already had one
+   */
+  setIfAbsent(
+    key: string,
+    record: LinePayIdempotencyRecord,
+    ttl: number
+  ): boolean | Promise<boolean>
+
+  /**
+   * Removes the record for a key (used when a request fails so it can be retried)
+   */
+  delete(key: string): void | Promise<void>
+}
+
+/**
+ * Idempotency Configuration
+ */
+export interface LinePayIdempotencyConfig {
+  /**
+   * Store for in-flight and completed operations
+   */
+  store: LinePayIdempotencyStore
+
+  /**
+   * Time in milliseconds a record is kept
+   * @default 86400000
+   */
+  ttl?: number
+
+  /**
+   * Time in milliseconds a pending record is kept, and how long a call waits for another
+   * client to complete the same operation before throwing {@link LinePayTimeoutError}
+   *
+   * Should be longer than a request including its retries, so that a slow request is
+   * not sent twice; a record left by a crashed process expires after this time.
+   * @default 60000
+   */
+  pendingTimeout?: number
+}
+
+/**
+ * In-Memory Idempotency Store Options
+ */
+export interface InMemoryIdempotencyStoreOptions {
+  /**
+   * Clock used to expire records
+   * @default Date.now
+   */
+  now?: () => number
+}
+
+/**
+ * In-memory {@link LinePayIdempotencyStore} with per-record expiry
+ *
+ * Suitable for a single process. Use a shared store when several instances
+ * may receive the same confirm redirect.
+ *
+ * @example
+ * ```typescript
+ * const client = new LinePayOnlineClient({
+ *   channelId,
+ *   channelSecret,
+ *   idempotency: { store: new InMemoryIdempotencyStore() }
+ * })
+ * ```
+ */
+export class InMemoryIdempotencyStore implements LinePayIdempotencyStore {
+  private readonly records = new Map<
+    string,
+    { record: LinePayIdempotencyRecord; expiresAt: number }
+  >()
+  private readonly now: () => number
+  private nextSweep = 0
+
+  /**
+   * Creates a new InMemoryIdempotencyStore instance
+   *
+   * @param options - Store options
+   */
+  constructor(options: InMemoryIdempotencyStoreOptions = {}) {
+    this.now = options.now ?? Date.now
+  }
+
+  /**
+   * Returns the record for a key, or `undefined` if there is none or it has expired
+   */
+  get(key: string): LinePayIdempotencyRecord | undefined {
+    const entry = this.records.get(key)
+    if (entry === undefined) {
+      return undefined
+    }
+    if (entry.expiresAt <= this.now()) {
+      this.records.delete(key)
+      return undefined
+    }
+    return entry.record
+  }
+
+  /**
+   * Stores a record, replacing any previous one
+   */
+  set(key: string, record: LinePayIdempotencyRecord, ttl: number): void {
+    const now = this.now()
+    this.sweep(now)
+    this.records.set(key, { record, expiresAt: now + ttl })
+  }
+
+  /**
+   * Stores a record only if there is none for the key or it has expired
+   */
+  setIfAbsent(key: string, record: LinePayIdempotencyRecord, ttl: number): boolean {
+    if (this.get(key) !== undefined) {
+      return false
+    }
+    this.set(key, record, ttl)
+    return true
+  }
+
+  /**
+   * Removes the record for a key
+   */
+  delete(key: string): void {
+    this.records.delete(key)
+  }
+
+  /**
+   * Removes expired records, at most once per minute
+   * @private
+   */
+  private sweep(now: number): void {
+    if (now < this.nextSweep) {
+      return
+    }
+    for (const [key, entry] of this.records) {
+      if (entry.expiresAt <= now) {
+        this.records.delete(key)
+      }
+    }
+    this.nextSweep = now + 60 * 1000
+  }
+}
@@ -1,5 +1,34 @@
 export * from './config/env'
+export * from './config/loadFromEnv'
 export * from './config/types'
+export * from './config/validateConfig'
+export * from './credentials/LinePaySecret'
+export * from './credentials/providers'
 export * from './errors/LinePayError'
+export * from './errors/returnCodes'
+export * from './http/json'
+export * from './http/middleware'
+export * from './http/transport'
+export * from './idempotency/IdempotencyStore'
 export * from './LinePayBaseClient'
+export * from './LinePayCurrency'
 export * from './LinePayUtils'
+export * from './logging/redact'
+export * from './logging/types'
+export * from './offline/LinePayOfflineClient'
+export * from './offline/types'
+export * from './online/LinePayConfirmHandler'
+export * from './online/LinePayOnlineClient'
+export * from './online/PaymentRequestBuilder'
+export * from './online/types'
+export * from './online/validatePaymentRequest'
+export * from './polling/LinePayStatusPoller'
+export * from './preapproved/LinePayPreapprovedClient'
+export * from './preapproved/types'
+export * from './registry/LinePayClientRegistry'
+export * from './telemetry/instrumentation'
+export * from './validation/schema'
+export * from './webhook/adapters'
+export * from './webhook/LinePayWebhookVerifier'
+export * from './webhook/NonceStore'
+export * from './webhook/types'
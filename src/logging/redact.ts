@@ -0,0 +1,112 @@
+import { parseLinePayJson } from '../http/json'
+import type { LinePayRedactionConfig } from './types'
+
+/**
+ * Default replacement for masked values
+ */
+export const REDACTED = '[REDACTED]'
+
+/**
+ * Object keys (case-insensitive) masked by default
+ *
+ * Covers the request signature and its nonce, the channel secret, regKeys, oneTimeKeys and
+ * the buyer information returned with shipping details.
+ */
+export const DEFAULT_REDACT_KEYS: readonly string[] = [
+  'X-LINE-Authorization',
+  'X-LINE-Authorization-Nonce',
+  'channelSecret',
+  'regKey',
+  'oneTimeKey',
+  'address',
+  'recipient',
+  'email',
+  'phoneNo',
+]
+
+/**
+ * Function returning a redacted copy of a value
+ */
+export type LinePayRedactor = (value: unknown) => unknown
+
+/**
+ * regKeys embedded in preapproved payment paths
+ * @internal
+ */
+const REG_KEY_PATH_PATTERN = /(\/preapprovedPay\/)[^/?#]+/g
+
+/**
+ * Creates a redactor
+ *
+ * The redactor returns a deep copy of the value where:
+ * - values of sensitive keys are replaced with the mask
+ * - occurrences of the given secret values are replaced with the mask
+ * - regKeys in preapproved payment paths are replaced with the mask
+ * - strings containing a JSON object or array (e.g., a raw response body) are redacted
+ *   as JSON and serialized again
+ *
+ * @param config - Redaction configuration
+ * @param secrets - Literal values to mask wherever they appear (e.g., the channel secret),
+ * or a function returning the current ones
+ * @returns The redactor
+ *
+ * @example
+ * ```typescript
+ * const redact = createRedactor({ keys: ['cardNumber'] }, [channelSecret])
+ * logger.info(redact({ headers, body }))
+ * ```
+ */
+export function createRedactor(
+  config: LinePayRedactionConfig = {},
+  secrets: readonly string[] | (() => readonly string[]) = []
+): LinePayRedactor {
+  const mask = config.mask ?? REDACTED
+  const keys = new Set(
+    [...DEFAULT_REDACT_KEYS, ...(config.keys ?? [])].map((key) => key.toLowerCase())
+  )
+  const getSecrets = typeof secrets === 'function' ? secrets : () => secrets
+
+  const redactString = (text: string): string => {
+    const trimmed = text.trim()
+    if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
+      try {
+        // Large integers (e.g., transaction IDs) are kept as strings rather than rounded
+        return JSON.stringify(redact(parseLinePayJson(trimmed)))
+      } catch {
+        // Not JSON; redact as plain text
+      }
+    }
+    return getSecrets()
+      .filter((secret) => secret !== '')
+      .reduce((result, secret) => result.split(secret).join(mask), text)
+      .replace(REG_KEY_PATH_PATTERN, `$1${mask}`)
+  }
+
+  const redact = (value: unknown): unknown => {
+    if (typeof value === 'string') {
+      return redactString(value)
+    }
+    if (Array.isArray(value)) {
+      return value.map(redact)
+    }
+    if (value !== null && typeof value === 'object') {
+      return Object.fromEntries(
+        Object.entries(value).map(([key, entry]) => [
+          key,
+          keys.has(key.toLowerCase()) ? mask : redact(entry),
+        ])
+      )
+    }
+    return value
+  }
+
+  return redact
+}
+
+/**
+ * Redacts a value with the default configuration
+ *
+ * @param value - Value to redact
+ * @returns A redacted copy of the value
+ */
+export const redactSensitiveData: LinePayRedactor = createRedactor()
@@ -0,0 +1,103 @@
+/**
+ * Severity of a log entry
+ */
+export type LinePayLogLevel = 'debug' | 'info' | 'warn' | 'error'
+
+/**
+ * Events emitted by the client
+ *
+ * - `request.start` (debug): a signed attempt is about to be sent
+ * - `request.response` (info): an attempt succeeded
+ * - `request.retry` (warn): an attempt failed and will be retried after `delayMs`;
+ *   `durationMs` is the time spent since the first attempt
+ * - `request.error` (error): the request failed and the error is thrown to the caller
+ * - `idempotency.error` (error): the request succeeded but its result could not be saved
+ *   to the idempotency store; the result is still returned
+ * - `config.warning` (warn): the client configuration looks suspicious (see `field`)
+ */
+export type LinePayLogEvent =
+  | 'request.start'
+  | 'request.response'
+  | 'request.retry'
+  | 'request.error'
+  | 'idempotency.error'
+  | 'config.warning'
+
+/**
+ * Structured log entry
+ *
+ * Entries are redacted before they reach the logger.
+ */
+export interface LinePayLogEntry {
+  /**
+   * Human-readable summary
+   */
+  message: string
+
+  /**
+   * Event type
+   */
+  event: LinePayLogEvent
+
+  /**
+   * HTTP method; set on `request.*` events
+   */
+  method?: 'GET' | 'POST'
+
+  /**
+   * API endpoint path; set on `request.*` events
+   */
+  path?: string
+
+  /**
+   * Attempt number, starting at 1; set on `request.*` events
+   */
+  attempt?: number
+
+  /**
+   * Additional event fields (headers, body, httpStatus, returnCode, durationMs, delayMs, error,
+   * field)
+   */
+  [field: string]: unknown
+}
+
+/**
+ * Structured logger
+ *
+ * Each method receives a single object, which pino and winston loggers accept as is.
+ *
+ * @example
+ * ```typescript
+ * import pino from 'pino'
+ *
+ * const client = new LinePayOnlineClient({
+ *   channelId,
+ *   channelSecret,
+ *   logger: pino({ level: 'debug' })
+ * })
+ * ```
+ */
+export interface LinePayLogger {
+  debug(entry: LinePayLogEntry): void
+  info(entry: LinePayLogEntry): void
+  warn(entry: LinePayLogEntry): void
+  error(entry: LinePayLogEntry): void
+}
+
+/**
+ * Redaction Configuration
+ */
+export interface LinePayRedactionConfig {
+  /**
+   * Additional object keys (case-insensitive) whose values are masked
+   *
+   * Added to {@link DEFAULT_REDACT_KEYS}.
+   */
+  keys?: string[]
+
+  /**
+   * Replacement for masked values
+   * @default '[REDACTED]'
+   */
+  mask?: string
+}
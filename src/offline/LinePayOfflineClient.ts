@@ -0,0 +1,271 @@
+import { LinePayConfigError, LinePayValidationError } from '../errors/LinePayError'
+import type { LinePayAlreadyProcessedResponse } from '../idempotency/IdempotencyStore'
+import { LinePayBaseClient, type LinePayRequestOptions } from '../LinePayBaseClient'
+import { LinePayCurrencyUtils } from '../LinePayCurrency'
+import { LinePayUtils } from '../LinePayUtils'
+import type {
+  AuthorizationDetailsParams,
+  AuthorizationDetailsResponse,
+  LinePayOfflineConfig,
+  OfflineCaptureRequestBody,
+  OfflineCaptureResponse,
+  OfflinePaymentStatusResponse,
+  OfflineRefundRequestBody,
+  OfflineRefundResponse,
+  OfflineVoidResponse,
+  OneTimeKeyPaymentBody,
+  OneTimeKeyPaymentResponse,
+} from './types'
+
+/**
+ * LINE Pay Offline Client
+ *
+ * Concrete client for the LINE Pay Offline (POS) API. Payments are made with the
+ * one-time key shown in the user's LINE Pay app, and follow-up operations are
+ * addressed by the merchant order ID.
+ *
+ * The device profile is configured once and sent with every request.
+ *
+ * @example
+ * ```typescript
+ * import { LinePayOfflineClient } from 'line-pay-core-v4'
+ *
+ * const client = new LinePayOfflineClient({
+ *   channelId: process.env.LINE_PAY_CHANNEL_ID!,
+ *   channelSecret: process.env.LINE_PAY_CHANNEL_SECRET!,
+ *   merchantDeviceProfileId: 'POS-001',
+ *   env: 'sandbox'
+ * })
+ *
+ * await client.payWithOneTimeKey({
+ *   productName: 'Coffee',
+ *   amount: 100,
+ *   currency: 'TWD',
+ *   orderId: 'ORDER-001',
+ *   oneTimeKey: scannedKey
+ * })
+ * ```
+ */
+export class LinePayOfflineClient extends LinePayBaseClient {
+  /**
+   * Device headers sent with every request
+   * @protected
+   */
+  protected readonly deviceHeaders: Record<string, string>
+
+  /**
+   * Creates a new LinePayOfflineClient instance
+   *
+   * @param config - LINE Pay Offline configuration object
+   * @throws {LinePayConfigError} If merchantDeviceProfileId is empty or the configuration is invalid
+   */
+  constructor(config: LinePayOfflineConfig) {
+    super(config)
+
+    const merchantDeviceProfileId = config.merchantDeviceProfileId.trim()
+    if (merchantDeviceProfileId === '') {
+      throw new LinePayConfigError('merchantDeviceProfileId is required and cannot be empty')
+    }
+
+    this.deviceHeaders = {
+      'X-LINE-MerchantDeviceProfileId': merchantDeviceProfileId,
+      'X-LINE-MerchantDeviceType': config.merchantDeviceType ?? 'POS',
+    }
+  }
+
+  /**
+   * Pays with the one-time key read from the user's barcode or QR code
+   *
+   * @param body - Payment body including the one-time key
+   * @param options - Optional per-request options
+   * @returns Response containing the transaction ID and payment methods
+   * @throws {LinePayValidationError} If oneTimeKey or orderId is empty
+   * @throws {LinePayValidationError} If the amount is not representable in the currency
+   * @throws {LinePayError} If the API returns an error
+   */
+  async payWithOneTimeKey(
+    body: OneTimeKeyPaymentBody,
+    options?: LinePayRequestOptions
+  ): Promise<OneTimeKeyPaymentResponse> {
+    if (body.oneTimeKey.trim() === '') {
+      throw new LinePayValidationError('oneTimeKey is required and cannot be empty', 'oneTimeKey')
+    }
+    validateOrderId(body.orderId)
+    LinePayCurrencyUtils.validateAmount(body.amount, body.currency)
+
+    return this.sendRequest<OneTimeKeyPaymentResponse>(
+      'POST',
+      '/v4/payments/oneTimeKeys/pay',
+      body,
+      undefined,
+      this.deviceHeaders,
+      options
+    )
+  }
+
+  /**
+   * Retrieves the status of a payment
+   *
+   * Use this to resolve the outcome of a payment whose Pay call timed out.
+   *
+   * @param orderId - Merchant order ID
+   * @param options - Optional per-request options
+   * @returns Response containing the payment status
+   * @throws {LinePayValidationError} If orderId is empty
+   * @throws {LinePayError} If the API returns an error
+   */
+  async getPaymentStatus(
+    orderId: string,
+    options?: LinePayRequestOptions
+  ): Promise<OfflinePaymentStatusResponse> {
+    validateOrderId(orderId)
+    return this.sendRequest<OfflinePaymentStatusResponse>(
+      'GET',
+      `/v4/payments/orders/${encodeURIComponent(orderId)}/check`,
+      undefined,
+      undefined,
+      this.deviceHeaders,
+      options
+    )
+  }
+
+  /**
+   * Captures an authorized payment
+   *
+   * @param orderId - Merchant order ID
+   * @param body - Amount and currency to capture
+   * @param options - Optional per-request options
+   * @returns Response containing the capture result, or a {@link LinePayAlreadyProcessedResponse}
+   * when idempotency is enabled and the payment was already captured
+   * @throws {LinePayValidationError} If orderId is empty
+   * @throws {LinePayValidationError} If the amount is not representable in the currency
+   * @throws {LinePayError} If the API returns an error
+   */
+  async capture(
+    orderId: string,
+    body: OfflineCaptureRequestBody,
+    options?: LinePayRequestOptions
+  ): Promise<OfflineCaptureResponse | LinePayAlreadyProcessedResponse> {
+    validateOrderId(orderId)
+    LinePayCurrencyUtils.validateAmount(body.amount, body.currency)
+    return this.sendIdempotentRequest<OfflineCaptureResponse>(
+      'capture',
+      orderId,
+      'POST',
+      `/v4/payments/orders/${encodeURIComponent(orderId)}/capture`,
+      body,
+      undefined,
+      this.deviceHeaders,
+      options
+    )
+  }
+
+  /**
+   * Voids an authorized payment that has not been captured
+   *
+   * @param orderId - Merchant order ID
+   * @param options - Optional per-request options
+   * @returns Response without `info`
+   * @throws {LinePayValidationError} If orderId is empty
+   * @throws {LinePayError} If the API returns an error
+   */
+  async void(orderId: string, options?: LinePayRequestOptions): Promise<OfflineVoidResponse> {
+    validateOrderId(orderId)
+    return this.sendRequest<OfflineVoidResponse>(
+      'POST',
+      `/v4/payments/orders/${encodeURIComponent(orderId)}/void`,
+      {},
+      undefined,
+      this.deviceHeaders,
+      options
+    )
+  }
+
+  /**
+   * Refunds a captured payment, fully or partially
+   *
+   * With idempotency enabled, full refunds are keyed by the order ID. Partial refunds
+   * are only deduplicated when `options.idempotencyKey` is set, since two partial refunds
+   * of the same amount may both be intended.
+   *
+   * @param orderId - Merchant order ID
+   * @param body - Optional refund amount (full refund when omitted)
+   * @param options - Optional per-request options
+   * @returns Response containing the refund transaction ID, or a
+   * {@link LinePayAlreadyProcessedResponse} when idempotency is enabled and the payment
+   * was already refunded
+   * @throws {LinePayValidationError} If orderId is empty
+   * @throws {LinePayError} If the API returns an error
+   */
+  async refund(
+    orderId: string,
+    body: OfflineRefundRequestBody = {},
+    options?: LinePayRequestOptions
+  ): Promise<OfflineRefundResponse | LinePayAlreadyProcessedResponse> {
+    validateOrderId(orderId)
+    return this.sendIdempotentRequest<OfflineRefundResponse>(
+      'refund',
+      body.refundAmount === undefined ? orderId : undefined,
+      'POST',
+      `/v4/payments/orders/${encodeURIComponent(orderId)}/refund`,
+      body,
+      undefined,
+      this.deviceHeaders,
+      options
+    )
+  }
+
+  /**
+   * Retrieves the details of authorized payments
+   *
+   * @param params - Transaction IDs and/or order IDs to look up
+   * @param options - Optional per-request options
+   * @returns Response containing the matching authorizations
+   * @throws {LinePayValidationError} If no ID is given or a transactionId is not a 19-digit number
+   * @throws {LinePayError} If the API returns an error
+   */
+  async getAuthorizationDetails(
+    params: AuthorizationDetailsParams,
+    options?: LinePayRequestOptions
+  ): Promise<AuthorizationDetailsResponse> {
+    const transactionIds = params.transactionId ?? []
+    const orderIds = params.orderId ?? []
+
+    if (transactionIds.length === 0 && orderIds.length === 0) {
+      throw new LinePayValidationError(
+        'At least one transactionId or orderId is required',
+        'transactionId'
+      )
+    }
+    for (const transactionId of transactionIds) {
+      LinePayUtils.validateTransactionId(transactionId)
+    }
+
+    const query: Record<string, string> = {}
+    if (transactionIds.length > 0) {
+      query.transactionId = transactionIds.join(',')
+    }
+    if (orderIds.length > 0) {
+      query.orderId = orderIds.join(',')
+    }
+
+    return this.sendRequest<AuthorizationDetailsResponse>(
+      'GET',
+      '/v4/payments/authorizations',
+      undefined,
+      query,
+      this.deviceHeaders,
+      options
+    )
+  }
+}
+
+/**
+ * Throws if the order ID is empty
+ * @internal
+ */
+function validateOrderId(orderId: string): void {
+  if (orderId.trim() === '') {
+    throw new LinePayValidationError('orderId is required and cannot be empty', 'orderId')
+  }
+}
@@ -0,0 +1,182 @@
+import type { LinePayConfig } from '../config/types'
+import type { LinePaySuccessResponse } from '../LinePayBaseClient'
+import type { LinePayCurrency } from '../LinePayCurrency'
+import type {
+  CaptureRequestBody,
+  LinePayPayInfo,
+  RefundInfo,
+  RefundRequestBody,
+} from '../online/types'
+
+/**
+ * LINE Pay Offline Client Configuration
+ *
+ * The device profile is sent with every request as the
+ * `X-LINE-MerchantDeviceProfileId` and `X-LINE-MerchantDeviceType` headers.
+ */
+export type LinePayOfflineConfig = LinePayConfig & {
+  /**
+   * Device profile ID of the POS terminal registered in the Merchant Center
+   */
+  merchantDeviceProfileId: string
+
+  /**
+   * Device type of the terminal
+   * @default 'POS'
+   */
+  merchantDeviceType?: string
+}
+
+/**
+ * Body of the Pay (oneTimeKey) API
+ */
+export interface OneTimeKeyPaymentBody {
+  /**
+   * Product name shown to the user
+   */
+  productName: string
+
+  /**
+   * Payment amount
+   */
+  amount: number
+
+  /**
+   * Currency code (ISO 4217)
+   */
+  currency: LinePayCurrency
+
+  /**
+   * Merchant order ID
+   */
+  orderId: string
+
+  /**
+   * One-time key read from the user's LINE Pay barcode or QR code
+   */
+  oneTimeKey: string
+
+  /**
+   * Whether to capture immediately (`false` only authorizes)
+   * @default true
+   */
+  capture?: boolean
+
+  /**
+   * Additional merchant information
+   */
+  extras?: {
+    branchName?: string
+    branchId?: string
+  }
+}
+
+/**
+ * `info` of the Pay (oneTimeKey) API response
+ */
+export interface OneTimeKeyPaymentInfo {
+  transactionId: string
+  orderId: string
+  transactionDate: string
+  payInfo: LinePayPayInfo[]
+
+  /**
+   * Authorization expiry (only when `capture` was `false`)
+   */
+  authorizationExpireDate?: string
+}
+
+/**
+ * Status of an offline payment
+ * - `COMPLETE`: payment completed
+ * - `FAIL`: payment failed
+ * - `REFUND`: payment refunded
+ */
+export type OfflinePaymentStatus = 'COMPLETE' | 'FAIL' | 'REFUND'
+
+/**
+ * `info` of the Payment Status API response
+ */
+export interface OfflinePaymentStatusInfo {
+  status: OfflinePaymentStatus
+}
+
+/**
+ * `info` of the offline Capture API response
+ */
+export interface OfflineCaptureInfo {
+  transactionId: string
+  orderId: string
+  transactionDate: string
+  payInfo: LinePayPayInfo[]
+}
+
+/**
+ * Query parameters of the Authorization Details API
+ *
+ * At least one transaction ID or order ID is required.
+ */
+export interface AuthorizationDetailsParams {
+  transactionId?: string[]
+  orderId?: string[]
+}
+
+/**
+ * Single authorization returned by the Authorization Details API
+ */
+export interface AuthorizationDetail {
+  transactionId: string
+  transactionDate: string
+  transactionType: string
+  orderId: string
+  productName: string
+  currency: string
+  payInfo: LinePayPayInfo[]
+
+  /**
+   * Authorization status
+   */
+  payStatus: 'AUTHORIZATION' | 'VOIDED_AUTHORIZATION' | 'EXPIRED_AUTHORIZATION'
+
+  authorizationExpireDate: string
+}
+
+/**
+ * Body of the offline Capture API
+ */
+export type OfflineCaptureRequestBody = CaptureRequestBody
+
+/**
+ * Body of the offline Refund API
+ */
+export type OfflineRefundRequestBody = RefundRequestBody
+
+/**
+ * Response of the Pay (oneTimeKey) API
+ */
+export type OneTimeKeyPaymentResponse = LinePaySuccessResponse<OneTimeKeyPaymentInfo>
+
+/**
+ * Response of the Payment Status API
+ */
+export type OfflinePaymentStatusResponse = LinePaySuccessResponse<OfflinePaymentStatusInfo>
+
+/**
+ * Response of the offline Capture API
+ */
+export type OfflineCaptureResponse = LinePaySuccessResponse<OfflineCaptureInfo>
+
+/**
+ * Response of the offline Void API (no `info` is returned)
+ */
+export type OfflineVoidResponse = LinePaySuccessResponse<undefined>
+
+/**
+ * Response of the offline Refund API
+ */
+export type OfflineRefundResponse = LinePaySuccessResponse<RefundInfo>
+
+/**
+ * Response of the Authorization Details API
+ */
+export type AuthorizationDetailsResponse = LinePaySuccessResponse<AuthorizationDetail[]>
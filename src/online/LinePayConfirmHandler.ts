@@ -0,0 +1,176 @@
+import { LinePayError, LinePayValidationError } from '../errors/LinePayError'
+import { LINE_PAY_ALREADY_PROCESSED_RETURN_CODES } from '../idempotency/IdempotencyStore'
+import { LinePayUtils } from '../LinePayUtils'
+import type { LinePayOnlineClient } from './LinePayOnlineClient'
+import type {
+  ConfirmRedirectResult,
+  ExpectedPayment,
+  ExpectedPaymentResolver,
+  LinePayCallbackQuery,
+  LinePayConfirmHandlerConfig,
+} from './types'
+
+/**
+ * Return code LINE Pay uses when the confirmed amount differs from the requested one
+ */
+const AMOUNT_MISMATCH_RETURN_CODE = '1153'
+
+/**
+ * LINE Pay Confirm Redirect Handler
+ *
+ * Implements the merchant side of the confirm and cancel redirects:
+ * 1. Parses and validates the callback query with {@link LinePayUtils.parseConfirmQuery}
+ * 2. Resolves the expected amount and currency of the order
+ * 3. Calls {@link LinePayOnlineClient.confirm}
+ * 4. Maps the outcome to a {@link ConfirmRedirectResult}
+ *
+ * Errors are never thrown; they are reported as a `failed` result.
+ *
+ * @example
+ * ```typescript
+ * const confirmHandler = new LinePayConfirmHandler(client, {
+ *   resolvePayment: async (orderId) => {
+ *     const order = await orders.find(orderId)
+ *     return order && { amount: order.total, currency: 'TWD' }
+ *   }
+ * })
+ *
+ * app.get('/line-pay/confirm', async (req, res) => {
+ *   const result = await confirmHandler.handle(req.query)
+ *   switch (result.status) {
+ *     case 'confirmed':
+ *     case 'already_confirmed':
+ *       return res.redirect('/orders/complete')
+ *     case 'amount_mismatch':
+ *     case 'failed':
+ *       return res.redirect('/orders/failed')
+ *   }
+ * })
+ *
+ * app.get('/line-pay/cancel', (req, res) => {
+ *   confirmHandler.handleCancel(req.query)
+ *   res.redirect('/cart')
+ * })
+ * ```
+ */
+export class LinePayConfirmHandler {
+  private readonly resolvePayment: ExpectedPaymentResolver
+
+  /**
+   * Creates a new LinePayConfirmHandler instance
+   *
+   * @param client - Client used to confirm payments
+   * @param config - Handler configuration
+   */
+  constructor(
+    private readonly client: LinePayOnlineClient,
+    config: LinePayConfirmHandlerConfig
+  ) {
+    this.resolvePayment = config.resolvePayment
+  }
+
+  /**
+   * Handles a request to the confirm URL
+   *
+   * @param query - Query parameters of the confirm URL
+   * @returns The outcome of the confirmation
+   */
+  async handle(query: LinePayCallbackQuery): Promise<ConfirmRedirectResult> {
+    let parsed: { transactionId: string; orderId?: string }
+    try {
+      parsed = LinePayUtils.parseConfirmQuery(query)
+    } catch (error) {
+      return { status: 'failed', ...parseCallbackQuery(query), error: toError(error) }
+    }
+    const { transactionId, orderId } = parsed
+
+    let expected: ExpectedPayment | undefined
+    try {
+      expected = await this.resolvePayment(orderId, transactionId)
+    } catch (error) {
+      return { status: 'failed', transactionId, orderId, error: toError(error) }
+    }
+    if (expected === undefined) {
+      return {
+        status: 'failed',
+        transactionId,
+        orderId,
+        error: new LinePayValidationError(
+          `No expected payment found for order "${orderId ?? ''}"`,
+          'orderId'
+        ),
+      }
+    }
+
+    try {
+      const response = await this.client.confirm(transactionId, expected)
+      if ('alreadyProcessed' in response) {
+        return {
+          status: 'already_confirmed',
+          transactionId,
+          orderId,
+          returnCode: response.returnCode,
+        }
+      }
+      return {
+        status: 'confirmed',
+        transactionId,
+        orderId: orderId ?? response.info.orderId,
+        response,
+      }
+    } catch (error) {
+      if (error instanceof LinePayError) {
+        if (error.returnCode === AMOUNT_MISMATCH_RETURN_CODE) {
+          return { status: 'amount_mismatch', transactionId, orderId, expected, error }
+        }
+        if (LINE_PAY_ALREADY_PROCESSED_RETURN_CODES.confirm.includes(error.returnCode)) {
+          return {
+            status: 'already_confirmed',
+            transactionId,
+            orderId,
+            returnCode: error.returnCode,
+          }
+        }
+      }
+      return { status: 'failed', transactionId, orderId, error: toError(error) }
+    }
+  }
+
+  /**
+   * Handles a request to the cancel URL
+   *
+   * The IDs are returned only when present in the query; they are not validated.
+   *
+   * @param query - Query parameters of the cancel URL
+   * @returns A `cancelled` result
+   */
+  handleCancel(query: LinePayCallbackQuery): ConfirmRedirectResult {
+    return { status: 'cancelled', ...parseCallbackQuery(query) }
+  }
+}
+
+/**
+ * Extracts the IDs of a callback query without validating them
+ * @internal
+ */
+function parseCallbackQuery(query: LinePayCallbackQuery): {
+  transactionId?: string
+  orderId?: string
+} {
+  const result: { transactionId?: string; orderId?: string } = {}
+  for (const key of ['transactionId', 'orderId'] as const) {
+    const value = Array.isArray(query[key]) ? query[key][0] : query[key]
+    if (value !== undefined && value !== '') {
+      result[key] = value
+    }
+  }
+  return result
+}
+
+/**
+ * Wraps a thrown value in an Error
+ * @internal
+ */
+function toError(error: unknown): Error {
+  return error instanceof Error ? error : new Error(String(error))
+}
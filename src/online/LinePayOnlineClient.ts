@@ -0,0 +1,339 @@
+import { LinePayValidationError } from '../errors/LinePayError'
+import type { LinePayAlreadyProcessedResponse } from '../idempotency/IdempotencyStore'
+import { LinePayBaseClient, type LinePayRequestOptions } from '../LinePayBaseClient'
+import { LinePayCurrencyUtils } from '../LinePayCurrency'
+import { type LinePayQueryParams, LinePayUtils } from '../LinePayUtils'
+import { PaymentRequestBuilder } from './PaymentRequestBuilder'
+import {
+  type CaptureRequestBody,
+  type CaptureResponse,
+  type CheckPaymentStatusResponse,
+  type ConfirmRequestBody,
+  type ConfirmResponse,
+  type LinePayOnlineConfig,
+  PAYMENT_STATUS_RETURN_CODES,
+  type PaymentDetailsParams,
+  type PaymentDetailsResponse,
+  type PaymentRequestBody,
+  type PaymentRequestResponse,
+  type RefundRequestBody,
+  type RefundResponse,
+  type VoidResponse,
+} from './types'
+
+/**
+ * LINE Pay Online Client
+ *
+ * Concrete client for the LINE Pay Online API, covering the full payment lifecycle:
+ * request → (user approval) → confirm → capture / void / refund.
+ *
+ * Transaction IDs are validated with {@link LinePayUtils.validateTransactionId}
+ * before any request is sent.
+ *
+ * @example
+ * ```typescript
+ * import { LinePayOnlineClient } from 'line-pay-core-v4'
+ *
+ * const client = new LinePayOnlineClient({
+ *   channelId: process.env.LINE_PAY_CHANNEL_ID!,
+ *   channelSecret: process.env.LINE_PAY_CHANNEL_SECRET!,
+ *   env: 'sandbox'
+ * })
+ *
+ * const { info } = await client.requestPayment({
+ *   amount: 100,
+ *   currency: 'TWD',
+ *   orderId: 'ORDER-001',
+ *   packages: [{ id: 'pkg-1', amount: 100, products: [{ name: 'Coffee', quantity: 1, price: 100 }] }],
+ *   redirectUrls: { confirmUrl: 'https://example.com/confirm', cancelUrl: 'https://example.com/cancel' }
+ * })
+ *
+ * // Redirect the user to info.paymentUrl.web, then on the confirm callback:
+ * await client.confirm(info.transactionId, { amount: 100, currency: 'TWD' })
+ * ```
+ *
+ * @see {@link https://pay.line.me/documents/online_v3_en.html} LINE Pay Online API Documentation
+ */
+export class LinePayOnlineClient extends LinePayBaseClient {
+  /**
+   * Online API version used in endpoint paths
+   * @protected
+   */
+  protected readonly apiVersion: 'v3' | 'v4'
+
+  /**
+   * Creates a new LinePayOnlineClient instance
+   *
+   * @param config - LINE Pay Online configuration object
+   * @throws {LinePayConfigError} If the configuration is invalid
+   */
+  constructor(config: LinePayOnlineConfig) {
+    super(config)
+    this.apiVersion = config.apiVersion ?? 'v3'
+  }
+
+  /**
+   * Creates a fluent builder for a payment request bound to this client
+   *
+   * The body is validated locally before it is sent.
+   *
+   * @returns A new {@link PaymentRequestBuilder}
+   *
+   * @example
+   * ```typescript
+   * const { info } = await client
+   *   .payment()
+   *   .setAmount(100)
+   *   .setCurrency('TWD')
+   *   .setOrderId('ORDER-001')
+   *   .addPackage({ id: 'pkg-1', amount: 100, products: [{ name: 'Coffee', quantity: 1, price: 100 }] })
+   *   .setRedirectUrls('https://example.com/confirm', 'https://example.com/cancel')
+   *   .send()
+   * ```
+   */
+  payment(): PaymentRequestBuilder {
+    return new PaymentRequestBuilder(this)
+  }
+
+  /**
+   * Requests a payment and returns the URL the user must be redirected to
+   *
+   * @param body - Payment request body
+   * @param options - Optional per-request options
+   * @returns Response containing the payment URL and transaction ID
+   * @throws {LinePayValidationError} If the amount is not representable in the currency
+   * @throws {LinePayError} If the API returns an error
+   */
+  async requestPayment(
+    body: PaymentRequestBody,
+    options?: LinePayRequestOptions
+  ): Promise<PaymentRequestResponse> {
+    LinePayCurrencyUtils.validateAmount(body.amount, body.currency)
+    return this.sendRequest<PaymentRequestResponse>(
+      'POST',
+      this.path('/payments/request'),
+      body,
+      undefined,
+      undefined,
+      options
+    )
+  }
+
+  /**
+   * Confirms a payment after the user approved it
+   *
+   * @param transactionId - Transaction ID returned by {@link requestPayment}
+   * @param body - Amount and currency (must match the request)
+   * @param options - Optional per-request options
+   * @returns Response containing the payment result, or a {@link LinePayAlreadyProcessedResponse}
+   * when idempotency is enabled and the payment was already confirmed
+   * @throws {LinePayValidationError} If transactionId is not a 19-digit number
+   * @throws {LinePayValidationError} If the amount is not representable in the currency
+   * @throws {LinePayError} If the API returns an error
+   */
+  async confirm(
+    transactionId: string,
+    body: ConfirmRequestBody,
+    options?: LinePayRequestOptions
+  ): Promise<ConfirmResponse | LinePayAlreadyProcessedResponse> {
+    LinePayUtils.validateTransactionId(transactionId)
+    LinePayCurrencyUtils.validateAmount(body.amount, body.currency)
+    return this.sendIdempotentRequest<ConfirmResponse>(
+      'confirm',
+      transactionId,
+      'POST',
+      this.path(`/payments/${transactionId}/confirm`),
+      body,
+      undefined,
+      undefined,
+      options
+    )
+  }
+
+  /**
+   * Captures an authorized payment (when requested with `options.payment.capture: false`)
+   *
+   * @param transactionId - Transaction ID of the authorized payment
+   * @param body - Amount and currency to capture
+   * @param options - Optional per-request options
+   * @returns Response containing the capture result, or a {@link LinePayAlreadyProcessedResponse}
+   * when idempotency is enabled and the payment was already captured
+   * @throws {LinePayValidationError} If transactionId is not a 19-digit number
+   * @throws {LinePayValidationError} If the amount is not representable in the currency
+   * @throws {LinePayError} If the API returns an error
+   */
+  async capture(
+    transactionId: string,
+    body: CaptureRequestBody,
+    options?: LinePayRequestOptions
+  ): Promise<CaptureResponse | LinePayAlreadyProcessedResponse> {
+    LinePayUtils.validateTransactionId(transactionId)
+    LinePayCurrencyUtils.validateAmount(body.amount, body.currency)
+    return this.sendIdempotentRequest<CaptureResponse>(
+      'capture',
+      transactionId,
+      'POST',
+      this.path(`/payments/authorizations/${transactionId}/capture`),
+      body,
+      undefined,
+      undefined,
+      options
+    )
+  }
+
+  /**
+   * Voids an authorized payment that has not been captured
+   *
+   * @param transactionId - Transaction ID of the authorized payment
+   * @param options - Optional per-request options
+   * @returns Response without `info`
+   * @throws {LinePayValidationError} If transactionId is not a 19-digit number
+   * @throws {LinePayError} If the API returns an error
+   */
+  async void(transactionId: string, options?: LinePayRequestOptions): Promise<VoidResponse> {
+    LinePayUtils.validateTransactionId(transactionId)
+    return this.sendRequest<VoidResponse>(
+      'POST',
+      this.path(`/payments/authorizations/${transactionId}/void`),
+      {},
+      undefined,
+      undefined,
+      options
+    )
+  }
+
+  /**
+   * Refunds a captured payment, fully or partially
+   *
+   * With idempotency enabled, full refunds are keyed by the transaction ID. Partial refunds
+   * are only deduplicated when `options.idempotencyKey` is set, since two partial refunds
+   * of the same amount may both be intended.
+   *
+   * @param transactionId - Transaction ID of the captured payment
+   * @param body - Optional refund amount (full refund when omitted)
+   * @param options - Optional per-request options
+   * @returns Response containing the refund transaction ID, or a
+   * {@link LinePayAlreadyProcessedResponse} when idempotency is enabled and the payment
+   * was already refunded
+   * @throws {LinePayValidationError} If transactionId is not a 19-digit number
+   * @throws {LinePayError} If the API returns an error
+   */
+  async refund(
+    transactionId: string,
+    body: RefundRequestBody = {},
+    options?: LinePayRequestOptions
+  ): Promise<RefundResponse | LinePayAlreadyProcessedResponse> {
+    LinePayUtils.validateTransactionId(transactionId)
+    return this.sendIdempotentRequest<RefundResponse>(
+      'refund',
+      body.refundAmount === undefined ? transactionId : undefined,
+      'POST',
+      this.path(`/payments/${transactionId}/refund`),
+      body,
+      undefined,
+      undefined,
+      options
+    )
+  }
+
+  /**
+   * Retrieves the details of one or more transactions
+   *
+   * @param params - Transaction IDs and/or order IDs to look up
+   * @param options - Optional per-request options
+   * @returns Response containing the matching transactions
+   * @throws {LinePayValidationError} If no ID is given or a transactionId is not a 19-digit number
+   * @throws {LinePayError} If the API returns an error
+   *
+   * @example
+   * ```typescript
+   * const { info } = await client.getPaymentDetails({ orderId: ['ORDER-001'] })
+   * ```
+   */
+  async getPaymentDetails(
+    params: PaymentDetailsParams,
+    options?: LinePayRequestOptions
+  ): Promise<PaymentDetailsResponse> {
+    const transactionIds = params.transactionId ?? []
+    const orderIds = params.orderId ?? []
+
+    if (transactionIds.length === 0 && orderIds.length === 0) {
+      throw new LinePayValidationError(
+        'At least one transactionId or orderId is required',
+        'transactionId'
+      )
+    }
+    for (const transactionId of transactionIds) {
+      LinePayUtils.validateTransactionId(transactionId)
+    }
+
+    const query: LinePayQueryParams = {}
+    if (transactionIds.length > 0) {
+      query.transactionId = transactionIds
+    }
+    if (orderIds.length > 0) {
+      query.orderId = orderIds
+    }
+    if (params.fields !== undefined) {
+      query.fields = params.fields
+    }
+
+    return this.sendRequest<PaymentDetailsResponse>(
+      'GET',
+      this.path('/payments'),
+      undefined,
+      query,
+      undefined,
+      options
+    )
+  }
+
+  /**
+   * Checks the status of a payment request
+   *
+   * The status is reported through `returnCode`, see {@link PaymentStatusReturnCode}.
+   * Status codes are returned as-is instead of being thrown as {@link LinePayError}.
+   *
+   * @param transactionId - Transaction ID returned by {@link requestPayment}
+   * @param options - Optional per-request options
+   * @returns Response whose `returnCode` describes the payment status
+   * @throws {LinePayValidationError} If transactionId is not a 19-digit number
+   * @throws {LinePayError} If the API returns an error
+   *
+   * @example
+   * ```typescript
+   * const { returnCode } = await client.checkPaymentStatus(transactionId)
+   * if (returnCode === '0110') {
+   *   await client.confirm(transactionId, { amount: 100, currency: 'TWD' })
+   * }
+   * ```
+   */
+  async checkPaymentStatus(
+    transactionId: string,
+    options?: LinePayRequestOptions
+  ): Promise<CheckPaymentStatusResponse> {
+    LinePayUtils.validateTransactionId(transactionId)
+    return this.sendRequest<CheckPaymentStatusResponse>(
+      'GET',
+      this.path(`/payments/requests/${transactionId}/check`),
+      undefined,
+      undefined,
+      undefined,
+      {
+        ...options,
+        successReturnCodes: [
+          ...PAYMENT_STATUS_RETURN_CODES,
+          ...(options?.successReturnCodes ?? []),
+        ],
+      }
+    )
+  }
+
+  /**
+   * Prefixes an endpoint with the configured API version
+   * @protected
+   */
+  protected path(endpoint: string): string {
+    return `/${this.apiVersion}${endpoint}`
+  }
+}
@@ -0,0 +1,224 @@
+import { LinePayConfigError } from '../errors/LinePayError'
+import type { LinePayRequestOptions } from '../LinePayBaseClient'
+import type { LinePayCurrency } from '../LinePayCurrency'
+import type { LinePayOnlineClient } from './LinePayOnlineClient'
+import type {
+  LinePayDisplayLocale,
+  LinePayPackage,
+  LinePayPaymentOptions,
+  LinePayPayType,
+  LinePayRedirectUrls,
+  PaymentRequestBody,
+  PaymentRequestResponse,
+} from './types'
+import { validatePaymentRequest } from './validatePaymentRequest'
+
+/**
+ * Fluent builder for Request API bodies
+ *
+ * Collects the payment fields step by step and validates the result with
+ * {@link validatePaymentRequest} before it is built or sent, so invalid requests
+ * fail locally with a {@link LinePayValidationError} pointing at the offending field.
+ *
+ * Obtain a builder bound to a client with `client.payment()`, or create an unbound
+ * builder with `new PaymentRequestBuilder()` and call {@link build}.
+ *
+ * @example
+ * ```typescript
+ * const response = await client
+ *   .payment()
+ *   .setAmount(250)
+ *   .setCurrency('TWD')
+ *   .setOrderId('ORDER-001')
+ *   .addPackage({
+ *     id: 'pkg-1',
+ *     amount: 250,
+ *     products: [
+ *       { name: 'Coffee', quantity: 2, price: 100 },
+ *       { name: 'Cookie', quantity: 1, price: 50 }
+ *     ]
+ *   })
+ *   .setRedirectUrls('https://example.com/confirm', 'https://example.com/cancel')
+ *   .setDisplayLocale('zh_TW')
+ *   .send()
+ * ```
+ */
+export class PaymentRequestBuilder {
+  private amount?: number
+  private currency?: LinePayCurrency
+  private orderId?: string
+  private readonly packages: LinePayPackage[] = []
+  private redirectUrls?: LinePayRedirectUrls
+  private options: LinePayPaymentOptions = {}
+
+  /**
+   * Creates a new PaymentRequestBuilder instance
+   *
+   * @param client - Optional client used by {@link send}
+   */
+  constructor(private readonly client?: LinePayOnlineClient) {}
+
+  /**
+   * Sets the total payment amount
+   *
+   * @param amount - Total amount (must equal the sum of package amounts)
+   * @returns The builder for chaining
+   */
+  setAmount(amount: number): this {
+    this.amount = amount
+    return this
+  }
+
+  /**
+   * Sets the currency
+   *
+   * @param currency - Currency code (e.g., 'TWD', 'JPY', 'THB', 'USD')
+   * @returns The builder for chaining
+   */
+  setCurrency(currency: LinePayCurrency): this {
+    this.currency = currency
+    return this
+  }
+
+  /**
+   * Sets the merchant order ID
+   *
+   * @param orderId - Unique merchant order ID
+   * @returns The builder for chaining
+   */
+  setOrderId(orderId: string): this {
+    this.orderId = orderId
+    return this
+  }
+
+  /**
+   * Adds a package to the order
+   *
+   * @param pkg - Package with its products
+   * @returns The builder for chaining
+   */
+  addPackage(pkg: LinePayPackage): this {
+    this.packages.push(pkg)
+    return this
+  }
+
+  /**
+   * Sets the URLs the user is redirected to after approving or cancelling
+   *
+   * @param confirmUrl - URL called after the user approves the payment
+   * @param cancelUrl - URL called after the user cancels the payment
+   * @param extra - Optional additional redirect settings
+   * @returns The builder for chaining
+   */
+  setRedirectUrls(
+    confirmUrl: string,
+    cancelUrl: string,
+    extra: Omit<LinePayRedirectUrls, 'confirmUrl' | 'cancelUrl'> = {}
+  ): this {
+    this.redirectUrls = { ...extra, confirmUrl, cancelUrl }
+    return this
+  }
+
+  /**
+   * Sets whether the payment is captured automatically on confirm
+   *
+   * @param capture - `false` to only authorize the payment
+   * @returns The builder for chaining
+   */
+  setCapture(capture: boolean): this {
+    this.options = { ...this.options, payment: { ...this.options.payment, capture } }
+    return this
+  }
+
+  /**
+   * Sets the payment type
+   *
+   * @param payType - 'NORMAL' or 'PREAPPROVED'
+   * @returns The builder for chaining
+   */
+  setPayType(payType: LinePayPayType): this {
+    this.options = { ...this.options, payment: { ...this.options.payment, payType } }
+    return this
+  }
+
+  /**
+   * Sets the locale of the payment screen
+   *
+   * @param locale - Display locale
+   * @returns The builder for chaining
+   */
+  setDisplayLocale(locale: LinePayDisplayLocale): this {
+    this.options = { ...this.options, display: { ...this.options.display, locale } }
+    return this
+  }
+
+  /**
+   * Merges additional request options
+   *
+   * @param options - Options merged over the ones already set
+   * @returns The builder for chaining
+   */
+  setOptions(options: LinePayPaymentOptions): this {
+    this.options = {
+      payment: { ...this.options.payment, ...options.payment },
+      account: { ...this.options.account, ...options.account },
+      display: { ...this.options.display, ...options.display },
+      extra: { ...this.options.extra, ...options.extra },
+    }
+    return this
+  }
+
+  /**
+   * Validates and returns the request body
+   *
+   * @returns The validated request body
+   * @throws {LinePayValidationError} If any field breaks a LINE Pay rule
+   */
+  build(): PaymentRequestBody {
+    const body: PaymentRequestBody = {
+      amount: this.amount as number,
+      currency: this.currency as LinePayCurrency,
+      orderId: this.orderId as string,
+      packages: [...this.packages],
+      redirectUrls: this.redirectUrls as LinePayRedirectUrls,
+    }
+
+    const options = this.compactOptions()
+    if (options !== undefined) {
+      body.options = options
+    }
+
+    validatePaymentRequest(body)
+    return body
+  }
+
+  /**
+   * Validates the request body and sends it with the bound client
+   *
+   * @param options - Optional per-request options
+   * @returns Response containing the payment URL and transaction ID
+   * @throws {LinePayValidationError} If any field breaks a LINE Pay rule
+   * @throws {LinePayConfigError} If the builder is not bound to a client
+   * @throws {LinePayError} If the API returns an error
+   */
+  async send(options?: LinePayRequestOptions): Promise<PaymentRequestResponse> {
+    const body = this.build()
+    if (this.client === undefined) {
+      throw new LinePayConfigError(
+        'PaymentRequestBuilder has no client; create it with client.payment() to send'
+      )
+    }
+    return this.client.requestPayment(body, options)
+  }
+
+  /**
+   * Drops empty option groups so they are not sent
+   * @private
+   */
+  private compactOptions(): LinePayPaymentOptions | undefined {
+    const entries = Object.entries(this.options).filter(
+      ([, value]) => value !== undefined && Object.keys(value).length > 0
+    )
+    return entries.length > 0 ? (Object.fromEntries(entries) as LinePayPaymentOptions) : undefined
+  }
+}
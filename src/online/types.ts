@@ -0,0 +1,534 @@
+import type { LinePayConfig } from '../config/types'
+import type { LinePayError } from '../errors/LinePayError'
+import type { LinePayBaseResponse, LinePaySuccessResponse } from '../LinePayBaseClient'
+import type { LinePayCurrency } from '../LinePayCurrency'
+
+/**
+ * LINE Pay Online Client Configuration
+ */
+export type LinePayOnlineConfig = LinePayConfig & {
+  /**
+   * Online API version used in endpoint paths
+   * @default 'v3'
+   */
+  apiVersion?: 'v3' | 'v4'
+}
+
+/**
+ * Product in a payment package
+ */
+export interface LinePayProduct {
+  /**
+   * Merchant product ID
+   */
+  id?: string
+
+  /**
+   * Product name
+   */
+  name: string
+
+  /**
+   * Product image URL shown on the payment screen
+   */
+  imageUrl?: string
+
+  /**
+   * Quantity
+   */
+  quantity: number
+
+  /**
+   * Unit price
+   */
+  price: number
+
+  /**
+   * Original unit price before discount
+   */
+  originalPrice?: number
+}
+
+/**
+ * Package (group of products) in a payment request
+ */
+export interface LinePayPackage {
+  /**
+   * Merchant package ID
+   */
+  id: string
+
+  /**
+   * Package amount (sum of `quantity × price` of all products)
+   */
+  amount: number
+
+  /**
+   * Fee charged to the user for this package
+   */
+  userFee?: number
+
+  /**
+   * Package name (shop name)
+   */
+  name?: string
+
+  /**
+   * Products in the package
+   */
+  products: LinePayProduct[]
+}
+
+/**
+ * Redirect URLs used after the user approves or cancels the payment
+ */
+export interface LinePayRedirectUrls {
+  /**
+   * Android package name for app-to-app payments
+   */
+  appPackageName?: string
+
+  /**
+   * URL the user is redirected to after approving the payment
+   */
+  confirmUrl: string
+
+  /**
+   * How the confirm URL is called
+   * @default 'CLIENT'
+   */
+  confirmUrlType?: 'CLIENT' | 'SERVER' | 'NONE'
+
+  /**
+   * URL the user is redirected to after cancelling the payment
+   */
+  cancelUrl: string
+}
+
+/**
+ * Payment type
+ * - `NORMAL`: single payment
+ * - `PREAPPROVED`: registers a regKey for recurring payments
+ */
+export type LinePayPayType = 'NORMAL' | 'PREAPPROVED'
+
+/**
+ * Locale of the LINE Pay payment screen
+ */
+export type LinePayDisplayLocale = 'en' | 'ja' | 'th' | 'zh_TW' | 'zh_CN'
+
+/**
+ * Additional options of a payment request
+ */
+export interface LinePayPaymentOptions {
+  payment?: {
+    /**
+     * Whether to capture automatically on confirm (`false` only authorizes)
+     * @default true
+     */
+    capture?: boolean
+
+    /**
+     * Payment type
+     * @default 'NORMAL'
+     */
+    payType?: LinePayPayType
+  }
+  account?: {
+    /**
+     * Whether to show the account confirmation screen
+     */
+    confirmUrlType?: 'CLIENT' | 'SERVER' | 'NONE'
+  }
+  display?: {
+    /**
+     * Locale of the payment screen
+     */
+    locale?: LinePayDisplayLocale
+
+    /**
+     * Whether to check the browser of the confirm URL
+     */
+    checkConfirmUrlBrowser?: boolean
+  }
+  extra?: {
+    /**
+     * Branch name of the merchant
+     */
+    branchName?: string
+
+    /**
+     * Branch ID of the merchant
+     */
+    branchId?: string
+  }
+}
+
+/**
+ * Body of the Request API
+ */
+export interface PaymentRequestBody {
+  /**
+   * Total payment amount (sum of all package amounts)
+   */
+  amount: number
+
+  /**
+   * Currency code (ISO 4217)
+   */
+  currency: LinePayCurrency
+
+  /**
+   * Merchant order ID
+   */
+  orderId: string
+
+  /**
+   * Packages in the order
+   */
+  packages: LinePayPackage[]
+
+  /**
+   * Redirect URLs
+   */
+  redirectUrls: LinePayRedirectUrls
+
+  /**
+   * Additional options
+   */
+  options?: LinePayPaymentOptions
+}
+
+/**
+ * `info` of the Request API response
+ */
+export interface PaymentRequestInfo {
+  /**
+   * Payment URLs to redirect the user to
+   */
+  paymentUrl: {
+    web: string
+    app: string
+  }
+
+  /**
+   * Transaction ID (19 digits)
+   */
+  transactionId: string
+
+  /**
+   * Token used for in-app payments
+   */
+  paymentAccessToken: string
+}
+
+/**
+ * Payment method used in a transaction
+ */
+export interface LinePayPayInfo {
+  /**
+   * Payment method (e.g., 'CREDIT_CARD', 'BALANCE', 'DISCOUNT')
+   */
+  method: string
+
+  /**
+   * Amount paid with this method
+   */
+  amount: number
+
+  /**
+   * Nickname of the credit card
+   */
+  creditCardNickname?: string
+
+  /**
+   * Brand of the credit card (e.g., 'VISA')
+   */
+  creditCardBrand?: string
+
+  /**
+   * Masked credit card number
+   */
+  maskedCreditCardNumber?: string
+}
+
+/**
+ * Body of the Confirm API
+ */
+export interface ConfirmRequestBody {
+  /**
+   * Payment amount (must match the requested amount)
+   */
+  amount: number
+
+  /**
+   * Currency code (must match the requested currency)
+   */
+  currency: LinePayCurrency
+}
+
+/**
+ * `info` of the Confirm API response
+ */
+export interface ConfirmInfo {
+  orderId: string
+  transactionId: string
+
+  /**
+   * Authorization expiry (only when `options.payment.capture` was `false`)
+   */
+  authorizationExpireDate?: string
+
+  /**
+   * Key for preapproved payments (only when `payType` was `PREAPPROVED`)
+   */
+  regKey?: string
+
+  payInfo: LinePayPayInfo[]
+
+  packages?: LinePayPackage[]
+}
+
+/**
+ * Body of the Capture API
+ */
+export interface CaptureRequestBody {
+  /**
+   * Amount to capture
+   */
+  amount: number
+
+  /**
+   * Currency code
+   */
+  currency: LinePayCurrency
+}
+
+/**
+ * `info` of the Capture API response
+ */
+export interface CaptureInfo {
+  orderId: string
+  transactionId: string
+  payInfo: LinePayPayInfo[]
+}
+
+/**
+ * Body of the Refund API
+ */
+export interface RefundRequestBody {
+  /**
+   * Amount to refund (full refund when omitted)
+   */
+  refundAmount?: number
+}
+
+/**
+ * `info` of the Refund API response
+ */
+export interface RefundInfo {
+  /**
+   * Transaction ID of the refund (19 digits)
+   */
+  refundTransactionId: string
+
+  /**
+   * Refund date (ISO 8601)
+   */
+  refundTransactionDate: string
+}
+
+/**
+ * Query parameters of the Payment Details API
+ *
+ * At least one transaction ID or order ID is required.
+ */
+export interface PaymentDetailsParams {
+  transactionId?: string[]
+  orderId?: string[]
+
+  /**
+   * Which information to return
+   * @default 'ALL'
+   */
+  fields?: 'TRANSACTION' | 'ORDER' | 'ALL'
+}
+
+/**
+ * Single transaction returned by the Payment Details API
+ */
+export interface PaymentDetail {
+  transactionId: string
+  transactionDate: string
+
+  /**
+   * Transaction type (e.g., 'PAYMENT', 'PAYMENT_REFUND', 'PARTIAL_REFUND')
+   */
+  transactionType: string
+
+  /**
+   * Payment status (e.g., 'CAPTURE', 'AUTHORIZATION', 'VOIDED_AUTHORIZATION', 'EXPIRED_AUTHORIZATION')
+   */
+  payStatus?: string
+
+  productName: string
+  merchantName?: string
+  currency: string
+  authorizationExpireDate?: string
+  payInfo: LinePayPayInfo[]
+
+  /**
+   * Refunds of this transaction
+   */
+  refundList?: {
+    refundTransactionId: string
+    transactionType: string
+    refundAmount: number
+    refundTransactionDate: string
+  }[]
+
+  /**
+   * Original transaction ID (for refund transactions)
+   */
+  originalTransactionId?: string
+
+  packages?: LinePayPackage[]
+}
+
+/**
+ * Return codes of the Check Payment Status API
+ *
+ * - `'0000'`: Waiting for the user to approve the payment
+ * - `'0110'`: Approved by the user; call Confirm to complete the payment
+ * - `'0121'`: Cancelled by the user or expired
+ * - `'0122'`: Payment failed
+ * - `'0123'`: Payment completed
+ */
+export type PaymentStatusReturnCode = '0000' | '0110' | '0121' | '0122' | '0123'
+
+/**
+ * All return codes of the Check Payment Status API
+ */
+export const PAYMENT_STATUS_RETURN_CODES: readonly PaymentStatusReturnCode[] = [
+  '0000',
+  '0110',
+  '0121',
+  '0122',
+  '0123',
+]
+
+/**
+ * Response of the Request API
+ */
+export type PaymentRequestResponse = LinePaySuccessResponse<PaymentRequestInfo>
+
+/**
+ * Response of the Confirm API
+ */
+export type ConfirmResponse = LinePaySuccessResponse<ConfirmInfo>
+
+/**
+ * Response of the Capture API
+ */
+export type CaptureResponse = LinePaySuccessResponse<CaptureInfo>
+
+/**
+ * Response of the Void API (no `info` is returned)
+ */
+export type VoidResponse = LinePaySuccessResponse<undefined>
+
+/**
+ * Response of the Refund API
+ */
+export type RefundResponse = LinePaySuccessResponse<RefundInfo>
+
+/**
+ * Response of the Payment Details API
+ */
+export type PaymentDetailsResponse = LinePaySuccessResponse<PaymentDetail[]>
+
+/**
+ * Response of the Check Payment Status API
+ *
+ * The status is carried by `returnCode` (see {@link PaymentStatusReturnCode}).
+ */
+export interface CheckPaymentStatusResponse extends LinePayBaseResponse {
+  returnCode: PaymentStatusReturnCode
+}
+
+/**
+ * Callback query as parsed by the web framework
+ */
+export type LinePayCallbackQuery = Record<string, string | string[] | undefined>
+
+/**
+ * Amount and currency the merchant expects for an order
+ */
+export interface ExpectedPayment {
+  amount: number
+  currency: LinePayCurrency
+}
+
+/**
+ * Looks up the expected payment of an order
+ *
+ * Return `undefined` when the order is unknown; the redirect is then reported as `failed`.
+ *
+ * @param orderId - Order ID from the callback (`undefined` if LINE Pay did not send one)
+ * @param transactionId - Transaction ID from the callback
+ */
+export type ExpectedPaymentResolver = (
+  orderId: string | undefined,
+  transactionId: string
+) => ExpectedPayment | undefined | Promise<ExpectedPayment | undefined>
+
+/**
+ * Confirm Handler Configuration
+ */
+export interface LinePayConfirmHandlerConfig {
+  /**
+   * Resolves the amount and currency to confirm for an order
+   */
+  resolvePayment: ExpectedPaymentResolver
+}
+
+/**
+ * Outcome of a confirm or cancel redirect
+ *
+ * - `confirmed`: the payment was confirmed by this call
+ * - `cancelled`: the user cancelled the payment (cancel URL)
+ * - `amount_mismatch`: LINE Pay rejected the expected amount (`1153`)
+ * - `already_confirmed`: the payment had already been confirmed (e.g., page reload)
+ * - `failed`: the callback was invalid, the order is unknown or the confirm call failed
+ */
+export type ConfirmRedirectResult =
+  | {
+      status: 'confirmed'
+      transactionId: string
+      orderId: string
+      response: ConfirmResponse
+    }
+  | {
+      status: 'cancelled'
+      transactionId?: string
+      orderId?: string
+    }
+  | {
+      status: 'amount_mismatch'
+      transactionId: string
+      orderId?: string
+      expected: ExpectedPayment
+      error: LinePayError
+    }
+  | {
+      status: 'already_confirmed'
+      transactionId: string
+      orderId?: string
+      returnCode: string
+    }
+  | {
+      status: 'failed'
+      transactionId?: string
+      orderId?: string
+      error: Error
+    }
@@ -0,0 +1,161 @@
+import { LinePayValidationError } from '../errors/LinePayError'
+import { type LinePayCurrency, LinePayCurrencyUtils } from '../LinePayCurrency'
+import type { LinePayPackage, PaymentRequestBody } from './types'
+
+/**
+ * Maximum length of a merchant order ID accepted by LINE Pay
+ */
+export const MAX_ORDER_ID_LENGTH = 100
+
+/**
+ * Validates a payment request body against the LINE Pay Request API rules
+ *
+ * Checks, in order:
+ * - `amount` is a positive number and `currency` is supported by LINE Pay
+ * - all amounts and prices are representable in `currency` (see {@link LinePayCurrencyUtils})
+ * - `orderId` is set
+ * - `orderId` is at most {@link MAX_ORDER_ID_LENGTH} characters
+ * - every package has an ID and at least one product with a name,
+ *   a positive integer quantity and a non-negative price
+ * - each package amount equals the sum of `quantity × price` of its products
+ * - the total amount equals the sum of all package amounts
+ * - `redirectUrls.confirmUrl` and `redirectUrls.cancelUrl` are valid http(s) URLs
+ *
+ * @param body - Payment request body to validate
+ * @throws {LinePayValidationError} On the first rule that fails, with `field` set to the
+ * path of the offending value (e.g., `packages[0].products[1].price`)
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   validatePaymentRequest(body)
+ * } catch (error) {
+ *   if (error instanceof LinePayValidationError) {
+ *     console.log(error.field) // 'packages[0].amount'
+ *   }
+ * }
+ * ```
+ */
+export function validatePaymentRequest(body: PaymentRequestBody): void {
+  if (!isPositiveNumber(body.amount)) {
+    throw new LinePayValidationError('amount is required and must be a positive number', 'amount')
+  }
+  if (typeof body.currency !== 'string' || body.currency.trim() === '') {
+    throw new LinePayValidationError('currency is required', 'currency')
+  }
+  LinePayCurrencyUtils.validateAmount(body.amount, body.currency, 'amount')
+  const { currency } = body
+  if (typeof body.orderId !== 'string' || body.orderId.trim() === '') {
+    throw new LinePayValidationError('orderId is required', 'orderId')
+  }
+  if (body.orderId.length > MAX_ORDER_ID_LENGTH) {
+    throw new LinePayValidationError(
+      `orderId must be at most ${String(MAX_ORDER_ID_LENGTH)} characters`,
+      'orderId'
+    )
+  }
+  if (!Array.isArray(body.packages) || body.packages.length === 0) {
+    throw new LinePayValidationError('At least one package is required', 'packages')
+  }
+
+  body.packages.forEach((pkg, index) => {
+    validatePackage(pkg, currency, `packages[${String(index)}]`)
+  })
+
+  const packagesTotal = LinePayCurrencyUtils.sum(
+    body.packages.map((pkg) => pkg.amount),
+    currency
+  )
+  if (packagesTotal !== body.amount) {
+    throw new LinePayValidationError(
+      `amount (${String(body.amount)}) must equal the sum of package amounts (${String(packagesTotal)})`,
+      'amount'
+    )
+  }
+
+  validateUrl(body.redirectUrls?.confirmUrl, 'redirectUrls.confirmUrl')
+  validateUrl(body.redirectUrls?.cancelUrl, 'redirectUrls.cancelUrl')
+}
+
+/**
+ * Validates a single package and its products
+ * @internal
+ */
+function validatePackage(pkg: LinePayPackage, currency: LinePayCurrency, path: string): void {
+  if (typeof pkg.id !== 'string' || pkg.id.trim() === '') {
+    throw new LinePayValidationError('Package id is required', `${path}.id`)
+  }
+  if (!isPositiveNumber(pkg.amount)) {
+    throw new LinePayValidationError(
+      'Package amount is required and must be a positive number',
+      `${path}.amount`
+    )
+  }
+  LinePayCurrencyUtils.validateAmount(pkg.amount, currency, `${path}.amount`)
+  if (!Array.isArray(pkg.products) || pkg.products.length === 0) {
+    throw new LinePayValidationError('At least one product is required', `${path}.products`)
+  }
+
+  pkg.products.forEach((product, index) => {
+    const productPath = `${path}.products[${String(index)}]`
+    if (typeof product.name !== 'string' || product.name.trim() === '') {
+      throw new LinePayValidationError('Product name is required', `${productPath}.name`)
+    }
+    if (!Number.isInteger(product.quantity) || product.quantity <= 0) {
+      throw new LinePayValidationError(
+        'Product quantity must be a positive integer',
+        `${productPath}.quantity`
+      )
+    }
+    if (!Number.isFinite(product.price) || product.price < 0) {
+      throw new LinePayValidationError(
+        'Product price must be a non-negative number',
+        `${productPath}.price`
+      )
+    }
+    LinePayCurrencyUtils.validateAmount(product.price, currency, `${productPath}.price`)
+  })
+
+  const productsTotal = LinePayCurrencyUtils.fromMinorUnits(
+    pkg.products.reduce(
+      (total, product) =>
+        total + product.quantity * LinePayCurrencyUtils.toMinorUnits(product.price, currency),
+      0
+    ),
+    currency
+  )
+  if (productsTotal !== pkg.amount) {
+    throw new LinePayValidationError(
+      `Package amount (${String(pkg.amount)}) must equal the sum of quantity × price (${String(productsTotal)})`,
+      `${path}.amount`
+    )
+  }
+}
+
+/**
+ * Throws if the value is not an absolute http(s) URL
+ * @internal
+ */
+function validateUrl(value: string | undefined, field: string): void {
+  if (value === undefined || value.trim() === '') {
+    throw new LinePayValidationError(`${field} is required`, field)
+  }
+
+  let url: URL
+  try {
+    url = new URL(value)
+  } catch {
+    throw new LinePayValidationError(`${field} must be a valid URL, got "${value}"`, field)
+  }
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+    throw new LinePayValidationError(`${field} must use http or https, got "${value}"`, field)
+  }
+}
+
+/**
+ * Checks that a value is a finite number greater than zero
+ * @internal
+ */
+function isPositiveNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0
+}
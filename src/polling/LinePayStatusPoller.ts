@@ -0,0 +1,273 @@
+import {
+  LinePayAbortError,
+  LinePayConfigError,
+  LinePayError,
+  LinePayTimeoutError,
+} from '../errors/LinePayError'
+import { sleep } from '../http/retry'
+import type { LinePayOfflineClient } from '../offline/LinePayOfflineClient'
+import type { OfflinePaymentStatusResponse } from '../offline/types'
+import type { LinePayOnlineClient } from '../online/LinePayOnlineClient'
+import type { CheckPaymentStatusResponse, PaymentStatusReturnCode } from '../online/types'
+
+/**
+ * Default polling options
+ */
+export const DEFAULT_POLL_CONFIG = {
+  baseDelay: 1000,
+  maxDelay: 10000,
+  backoffFactor: 1.5,
+  timeout: 120000,
+}
+
+/**
+ * Fetches the current state of a transaction
+ *
+ * @param attempt - Poll attempt, starting at 1
+ * @param signal - Fires when the poller is aborted or its deadline passes; pass it on to
+ * the request
+ */
+export type LinePayStatusCheck<T> = (attempt: number, signal?: AbortSignal) => Promise<T>
+
+/**
+ * Status Poller Options
+ *
+ * @template T - State returned by each check
+ * @template R - Terminal state
+ */
+export interface LinePayPollOptions<T, R extends T = T> {
+  /**
+   * Returns `true` once polling can stop; a type guard narrows the result of
+   * {@link LinePayStatusPoller.wait}
+   */
+  isTerminal: ((state: T) => state is R) | ((state: T) => boolean)
+
+  /**
+   * Returns `true` for check errors that mean "still pending"; they are swallowed and
+   * polling continues. Other errors are thrown to the caller.
+   */
+  isPendingError?: (error: unknown) => boolean
+
+  /**
+   * Delay in milliseconds before the second check
+   * @default 1000
+   */
+  baseDelay?: number
+
+  /**
+   * Upper bound in milliseconds for the delay between checks
+   * @default 10000
+   */
+  maxDelay?: number
+
+  /**
+   * Factor the delay is multiplied by after each check
+   * @default 1.5
+   */
+  backoffFactor?: number
+
+  /**
+   * Overall deadline in milliseconds, including the time spent in checks; a check still
+   * running when it passes is aborted
+   * @default 120000
+   */
+  timeout?: number
+
+  /**
+   * Stops polling, including an in-flight check; {@link LinePayAbortError} is thrown
+   */
+  signal?: AbortSignal
+}
+
+/**
+ * Options of the payment status helpers, whose terminal-state predicate has a default
+ *
+ * @template T - State returned by each check
+ * @template R - Terminal state
+ */
+export type LinePayPaymentPollOptions<T, R extends T = T> = Omit<
+  LinePayPollOptions<T, R>,
+  'isTerminal'
+> &
+  Partial<Pick<LinePayPollOptions<T, R>, 'isTerminal'>>
+
+/**
+ * Check Payment Status response once the user approved, cancelled or completed the payment
+ */
+export type SettledPaymentStatusResponse = CheckPaymentStatusResponse & {
+  returnCode: Exclude<PaymentStatusReturnCode, '0000'>
+}
+
+/**
+ * LINE Pay Status Poller
+ *
+ * Repeatedly checks a transaction until it reaches a terminal state, with exponential
+ * backoff between checks, an overall deadline and cancellation through an `AbortSignal`.
+ * Use {@link wait} for the final state, or iterate the poller to also receive
+ * intermediate states, e.g. to update a progress UI. Each call to `wait` or each
+ * iteration starts a new polling run.
+ *
+ * @template T - State returned by each check
+ * @template R - Terminal state
+ *
+ * @example
+ * ```typescript
+ * const poller = LinePayStatusPoller.forTransaction(client, transactionId, { timeout: 60000 })
+ *
+ * for await (const { returnCode } of poller) {
+ *   showProgress(returnCode)
+ * }
+ * ```
+ */
+export class LinePayStatusPoller<T, R extends T = T> {
+  private readonly check: LinePayStatusCheck<T>
+  private readonly options: LinePayPollOptions<T, R>
+
+  /**
+   * Creates a new LinePayStatusPoller instance
+   *
+   * @param check - Fetches the current state
+   * @param options - Terminal-state predicate, backoff, deadline and abort signal
+   * @throws {LinePayConfigError} If a delay or the timeout is not a positive finite number,
+   * or backoffFactor is less than 1
+   */
+  constructor(check: LinePayStatusCheck<T>, options: LinePayPollOptions<T, R>) {
+    for (const field of ['baseDelay', 'maxDelay', 'timeout'] as const) {
+      const value = options[field]
+      if (value !== undefined && !(Number.isFinite(value) && value > 0)) {
+        throw new LinePayConfigError(`${field} must be a positive finite number`)
+      }
+    }
+    const { backoffFactor } = options
+    if (backoffFactor !== undefined && !(Number.isFinite(backoffFactor) && backoffFactor >= 1)) {
+      throw new LinePayConfigError('backoffFactor must be a finite number of at least 1')
+    }
+
+    this.check = check
+    this.options = options
+  }
+
+  /**
+   * Polls the Check Payment Status API of the Online API until the payment leaves the
+   * "waiting for the user" state (`returnCode` other than `'0000'`)
+   *
+   * @param client - Online client
+   * @param transactionId - Transaction ID returned by `requestPayment`
+   * @param options - Polling options
+   * @returns The poller
+   * @throws {LinePayConfigError} If the polling options are invalid
+   */
+  static forTransaction<R extends CheckPaymentStatusResponse = SettledPaymentStatusResponse>(
+    client: LinePayOnlineClient,
+    transactionId: string,
+    options: LinePayPaymentPollOptions<CheckPaymentStatusResponse, R> = {}
+  ): LinePayStatusPoller<CheckPaymentStatusResponse, R> {
+    const check = (_attempt: number, signal?: AbortSignal) =>
+      client.checkPaymentStatus(transactionId, { signal })
+    return new LinePayStatusPoller(check, {
+      isTerminal: (state): state is R => state.returnCode !== '0000',
+      ...options,
+    })
+  }
+
+  /**
+   * Polls the Payment Status API of the Offline API until the payment is no longer in
+   * progress (return code `1145`)
+   *
+   * @param client - Offline client
+   * @param orderId - Merchant order ID
+   * @param options - Polling options
+   * @returns The poller
+   * @throws {LinePayConfigError} If the polling options are invalid
+   */
+  static forOrder<R extends OfflinePaymentStatusResponse = OfflinePaymentStatusResponse>(
+    client: LinePayOfflineClient,
+    orderId: string,
+    options: LinePayPaymentPollOptions<OfflinePaymentStatusResponse, R> = {}
+  ): LinePayStatusPoller<OfflinePaymentStatusResponse, R> {
+    const check = (_attempt: number, signal?: AbortSignal) =>
+      client.getPaymentStatus(orderId, { signal })
+    return new LinePayStatusPoller(check, {
+      isTerminal: (_state): _state is R => true,
+      isPendingError: (error) => error instanceof LinePayError && error.returnCode === '1145',
+      ...options,
+    })
+  }
+
+  /**
+   * Polls until a terminal state is reached
+   *
+   * @returns The terminal state
+   * @throws {LinePayTimeoutError} If the deadline passes first; its `lastState` holds the
+   * last state seen by this run
+   * @throws {LinePayAbortError} If polling is aborted
+   * @throws Any error of the check that is not a pending error
+   */
+  async wait(): Promise<R> {
+    let last: T | undefined
+    for await (const state of this) {
+      last = state
+    }
+    return last as R
+  }
+
+  /**
+   * Yields every state returned by a check; the last one is terminal
+   *
+   * @throws {LinePayTimeoutError} If the deadline passes first
+   * @throws {LinePayAbortError} If polling is aborted
+   */
+  async *[Symbol.asyncIterator](): AsyncGenerator<T, void, undefined> {
+    const { signal, isTerminal, isPendingError } = this.options
+    const maxDelay = this.options.maxDelay ?? DEFAULT_POLL_CONFIG.maxDelay
+    const backoffFactor = this.options.backoffFactor ?? DEFAULT_POLL_CONFIG.backoffFactor
+    const timeout = this.options.timeout ?? DEFAULT_POLL_CONFIG.timeout
+    const deadline = Date.now() + timeout
+    let delay = this.options.baseDelay ?? DEFAULT_POLL_CONFIG.baseDelay
+    let latest: T | undefined
+
+    for (let attempt = 1; ; attempt++) {
+      if (signal?.aborted === true) {
+        throw new LinePayAbortError(signal.reason)
+      }
+      if (attempt > 1 && Date.now() >= deadline) {
+        throw new LinePayTimeoutError(timeout, undefined, latest)
+      }
+
+      const expired = new AbortController()
+      const timer = setTimeout(() => expired.abort(), deadline - Date.now())
+      let pending = false
+      try {
+        latest = await this.check(
+          attempt,
+          signal === undefined ? expired.signal : AbortSignal.any([signal, expired.signal])
+        )
+      } catch (error) {
+        if (expired.signal.aborted && (signal === undefined || !signal.aborted)) {
+          throw new LinePayTimeoutError(timeout, undefined, latest)
+        }
+        if (isPendingError?.(error) !== true) {
+          throw error
+        }
+        pending = true
+      } finally {
+        clearTimeout(timer)
+      }
+
+      if (!pending) {
+        const state = latest as T
+        yield state
+        if (isTerminal(state)) {
+          return
+        }
+      }
+
+      const remaining = deadline - Date.now()
+      if (remaining <= 0) {
+        throw new LinePayTimeoutError(timeout, undefined, latest)
+      }
+      await sleep(Math.min(delay, remaining), signal)
+      delay = Math.min(maxDelay, delay * backoffFactor)
+    }
+  }
+}
@@ -0,0 +1,261 @@
+import { LinePayError, LinePayRegKeyError } from '../errors/LinePayError'
+import type { LinePayAlreadyProcessedResponse } from '../idempotency/IdempotencyStore'
+import type { LinePayRequestOptions } from '../LinePayBaseClient'
+import { LinePayCurrencyUtils } from '../LinePayCurrency'
+import { LinePayUtils } from '../LinePayUtils'
+import { LinePayOnlineClient } from '../online/LinePayOnlineClient'
+import type {
+  ConfirmRequestBody,
+  PaymentRequestBody,
+  PaymentRequestResponse,
+} from '../online/types'
+import type {
+  CheckRegKeyOptions,
+  CheckRegKeyResponse,
+  ExpireRegKeyResponse,
+  PreapprovedConfirmResponse,
+  PreapprovedPayBody,
+  PreapprovedPayResponse,
+} from './types'
+
+/**
+ * LINE Pay Preapproved (Recurring) Payment Client
+ *
+ * Extends {@link LinePayOnlineClient} with the preapproved payment flow:
+ * 1. {@link requestPreapproved} — request a payment with `payType: PREAPPROVED`
+ * 2. {@link confirmPreapproved} — confirm it and store the returned `regKey`
+ * 3. {@link payPreapproved} — charge the user later with the stored `regKey`
+ * 4. {@link checkRegKey} / {@link expireRegKey} — manage the `regKey`
+ *
+ * regKeys are validated with {@link LinePayUtils.validateRegKey} before any request is sent,
+ * and LINE Pay errors about unknown or expired regKeys are thrown as {@link LinePayRegKeyError}.
+ *
+ * @example
+ * ```typescript
+ * const client = new LinePayPreapprovedClient({ channelId, channelSecret })
+ *
+ * const response = await client.confirmPreapproved(transactionId, { amount: 300, currency: 'TWD' })
+ * if (!('alreadyProcessed' in response)) {
+ *   await subscriptions.save(userId, response.info.regKey)
+ * }
+ *
+ * // Next billing cycle
+ * await client.payPreapproved(regKey, {
+ *   productName: 'Monthly plan',
+ *   amount: 300,
+ *   currency: 'TWD',
+ *   orderId: 'SUB-2025-02'
+ * })
+ * ```
+ *
+ * @see {@link https://pay.line.me/documents/online_v3_en.html#preapproved-payment-api} Preapproved Payment API
+ */
+export class LinePayPreapprovedClient extends LinePayOnlineClient {
+  /**
+   * Requests a payment that registers a regKey for future charges
+   *
+   * `options.payment.payType` is forced to `PREAPPROVED`.
+   *
+   * @param body - Payment request body
+   * @param options - Optional per-request options
+   * @returns Response containing the payment URL and transaction ID
+   * @throws {LinePayError} If the API returns an error
+   */
+  async requestPreapproved(
+    body: PaymentRequestBody,
+    options?: LinePayRequestOptions
+  ): Promise<PaymentRequestResponse> {
+    return this.requestPayment(
+      {
+        ...body,
+        options: {
+          ...body.options,
+          payment: { ...body.options?.payment, payType: 'PREAPPROVED' },
+        },
+      },
+      options
+    )
+  }
+
+  /**
+   * Confirms a preapproved payment request and returns the issued regKey
+   *
+   * @param transactionId - Transaction ID returned by {@link requestPreapproved}
+   * @param body - Amount and currency (must match the request)
+   * @param options - Optional per-request options
+   * @returns Response whose `info.regKey` must be stored for future charges, or a
+   * {@link LinePayAlreadyProcessedResponse} when idempotency is enabled and the payment
+   * was already confirmed
+   * @throws {LinePayValidationError} If transactionId is not a 19-digit number
+   * @throws {LinePayError} If the API returns an error or no regKey is issued
+   */
+  async confirmPreapproved(
+    transactionId: string,
+    body: ConfirmRequestBody,
+    options?: LinePayRequestOptions
+  ): Promise<PreapprovedConfirmResponse | LinePayAlreadyProcessedResponse> {
+    const response = await this.confirm(transactionId, body, options)
+    if ('alreadyProcessed' in response) {
+      return response
+    }
+    const { regKey } = response.info
+
+    if (regKey === undefined) {
+      throw new LinePayError(
+        'MISSING_REG_KEY',
+        'Confirm response does not contain a regKey; was the payment requested as PREAPPROVED?',
+        200
+      )
+    }
+
+    return { ...response, info: { ...response.info, regKey } }
+  }
+
+  /**
+   * Charges the user with a stored regKey
+   *
+   * @param regKey - regKey returned by {@link confirmPreapproved}
+   * @param body - Payment body
+   * @param options - Optional per-request options
+   * @returns Response containing the new transaction ID
+   * @throws {LinePayValidationError} If regKey is not 15 alphanumeric characters
+   * @throws {LinePayValidationError} If the amount is not representable in the currency
+   * @throws {LinePayRegKeyError} If the regKey does not exist or has expired
+   * @throws {LinePayError} If the API returns another error
+   */
+  async payPreapproved(
+    regKey: string,
+    body: PreapprovedPayBody,
+    options?: LinePayRequestOptions
+  ): Promise<PreapprovedPayResponse> {
+    LinePayUtils.validateRegKey(regKey)
+    LinePayCurrencyUtils.validateAmount(body.amount, body.currency)
+    return this.withRegKeyErrors(regKey, () =>
+      this.sendRequest<PreapprovedPayResponse>(
+        'POST',
+        this.path(`/payments/preapprovedPay/${regKey}/payment`),
+        body,
+        undefined,
+        undefined,
+        options
+      )
+    )
+  }
+
+  /**
+   * Checks whether a regKey can still be used
+   *
+   * @param regKey - regKey to check
+   * @param options - Whether to also verify the registered credit card
+   * @param requestOptions - Optional per-request options
+   * @returns Response with `returnCode` '0000' when the regKey is usable
+   * @throws {LinePayValidationError} If regKey is not 15 alphanumeric characters
+   * @throws {LinePayRegKeyError} If the regKey does not exist or has expired
+   * @throws {LinePayError} If the API returns another error
+   */
+  async checkRegKey(
+    regKey: string,
+    options: CheckRegKeyOptions = {},
+    requestOptions?: LinePayRequestOptions
+  ): Promise<CheckRegKeyResponse> {
+    LinePayUtils.validateRegKey(regKey)
+    const params =
+      options.creditCardAuth === undefined
+        ? undefined
+        : { creditCardAuth: String(options.creditCardAuth) }
+
+    return this.withRegKeyErrors(regKey, () =>
+      this.sendRequest<CheckRegKeyResponse>(
+        'GET',
+        this.path(`/payments/preapprovedPay/${regKey}/check`),
+        undefined,
+        params,
+        undefined,
+        requestOptions
+      )
+    )
+  }
+
+  /**
+   * Checks whether a regKey can still be used, without throwing for unknown or expired keys
+   *
+   * @param regKey - regKey to check
+   * @param options - Whether to also verify the registered credit card
+   * @param requestOptions - Optional per-request options
+   * @returns `true` if the regKey is usable, `false` if it is malformed, unknown or expired
+   * @throws {LinePayError} If the API returns an unrelated error
+   */
+  async isRegKeyValid(
+    regKey: string,
+    options: CheckRegKeyOptions = {},
+    requestOptions?: LinePayRequestOptions
+  ): Promise<boolean> {
+    if (!LinePayUtils.isValidRegKey(regKey)) {
+      return false
+    }
+
+    try {
+      await this.checkRegKey(regKey, options, requestOptions)
+      return true
+    } catch (error) {
+      if (error instanceof LinePayRegKeyError) {
+        return false
+      }
+      throw error
+    }
+  }
+
+  /**
+   * Expires a regKey so it can no longer be charged
+   *
+   * @param regKey - regKey to expire
+   * @param options - Optional per-request options
+   * @returns Response with `returnCode` '0000' on success
+   * @throws {LinePayValidationError} If regKey is not 15 alphanumeric characters
+   * @throws {LinePayRegKeyError} If the regKey does not exist or has already expired
+   * @throws {LinePayError} If the API returns another error
+   */
+  async expireRegKey(
+    regKey: string,
+    options?: LinePayRequestOptions
+  ): Promise<ExpireRegKeyResponse> {
+    LinePayUtils.validateRegKey(regKey)
+    return this.withRegKeyErrors(regKey, () =>
+      this.sendRequest<ExpireRegKeyResponse>(
+        'POST',
+        this.path(`/payments/preapprovedPay/${regKey}/expire`),
+        {},
+        undefined,
+        undefined,
+        options
+      )
+    )
+  }
+
+  /**
+   * Converts regKey-related LINE Pay errors into {@link LinePayRegKeyError}
+   * @private
+   */
+  private async withRegKeyErrors<T>(regKey: string, request: () => Promise<T>): Promise<T> {
+    try {
+      return await request()
+    } catch (error) {
+      if (
+        error instanceof LinePayError &&
+        LinePayRegKeyError.RETURN_CODES.includes(error.returnCode)
+      ) {
+        const regKeyError = new LinePayRegKeyError(
+          regKey,
+          error.returnCode,
+          error.returnMessage,
+          error.httpStatus,
+          error.rawResponse
+        )
+        regKeyError.attempts = error.attempts
+        regKeyError.redactor = error.redactor
+        throw regKeyError
+      }
+      throw error
+    }
+  }
+}
@@ -0,0 +1,80 @@
+import type { LinePayBaseResponse, LinePaySuccessResponse } from '../LinePayBaseClient'
+import type { LinePayCurrency } from '../LinePayCurrency'
+import type { ConfirmInfo } from '../online/types'
+
+/**
+ * Body of the Preapproved Pay API
+ */
+export interface PreapprovedPayBody {
+  /**
+   * Product name shown to the user
+   */
+  productName: string
+
+  /**
+   * Payment amount
+   */
+  amount: number
+
+  /**
+   * Currency code (ISO 4217)
+   */
+  currency: LinePayCurrency
+
+  /**
+   * Merchant order ID (unique per charge)
+   */
+  orderId: string
+
+  /**
+   * Whether to capture immediately (`false` only authorizes)
+   * @default true
+   */
+  capture?: boolean
+}
+
+/**
+ * `info` of the Preapproved Pay API response
+ */
+export interface PreapprovedPayInfo {
+  transactionId: string
+  transactionDate: string
+
+  /**
+   * Authorization expiry (only when `capture` was `false`)
+   */
+  authorizationExpireDate?: string
+}
+
+/**
+ * Options of the Check regKey API
+ */
+export interface CheckRegKeyOptions {
+  /**
+   * Whether to verify the registered credit card with a 1-unit authorization
+   * @default false
+   */
+  creditCardAuth?: boolean
+}
+
+/**
+ * Response of the Confirm API for a preapproved payment request
+ *
+ * `info.regKey` is guaranteed to be present and must be stored to charge the user later.
+ */
+export type PreapprovedConfirmResponse = LinePaySuccessResponse<ConfirmInfo & { regKey: string }>
+
+/**
+ * Response of the Preapproved Pay API
+ */
+export type PreapprovedPayResponse = LinePaySuccessResponse<PreapprovedPayInfo>
+
+/**
+ * Response of the Check regKey API (`returnCode` is '0000' when the regKey is usable)
+ */
+export type CheckRegKeyResponse = LinePayBaseResponse
+
+/**
+ * Response of the Expire regKey API
+ */
+export type ExpireRegKeyResponse = LinePayBaseResponse
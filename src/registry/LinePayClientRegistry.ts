@@ -0,0 +1,312 @@
+import { createHmac, randomBytes } from 'node:crypto'
+import type { LinePayConfig } from '../config/types'
+import { LinePayConfigError } from '../errors/LinePayError'
+import type { LinePayBaseClient } from '../LinePayBaseClient'
+
+/**
+ * Default maximum number of cached clients
+ */
+export const DEFAULT_REGISTRY_MAX_CLIENTS = 100
+
+/**
+ * Resolves the configuration of a merchant, or `undefined` if the merchant is unknown
+ *
+ * Typically reads the merchant's channel credentials from a database or secret manager.
+ */
+export type LinePayMerchantConfigProvider = (
+  merchantKey: string
+) => LinePayConfig | undefined | Promise<LinePayConfig | undefined>
+
+/**
+ * Client Registry Configuration
+ *
+ * @template C - Client type created by the registry
+ */
+export interface LinePayClientRegistryConfig<C extends LinePayBaseClient> {
+  /**
+   * Resolves the configuration of a merchant
+   */
+  resolveConfig: LinePayMerchantConfigProvider
+
+  /**
+   * Creates a client from a resolved configuration
+   */
+  createClient: (config: LinePayConfig, merchantKey: string) => C
+
+  /**
+   * Maximum number of cached clients; the least recently used one is evicted first
+   * @default 100
+   */
+  maxClients?: number
+
+  /**
+   * Time in milliseconds after which a merchant's configuration is resolved again
+   *
+   * Rotated secrets are picked up once this elapses. When omitted, configurations are
+   * only resolved again after {@link LinePayClientRegistry.invalidate} or eviction.
+   */
+  configTtl?: number
+
+  /**
+   * Clock used to expire configurations
+   * @default Date.now
+   */
+  now?: () => number
+}
+
+/**
+ * Cached client of a merchant
+ * @internal
+ */
+interface RegistryEntry<C> {
+  client: C
+  fingerprint: string
+  expiresAt: number
+}
+
+/**
+ * Resolution of a merchant's client that is in progress
+ * @internal
+ */
+interface PendingLoad<C> {
+  promise: Promise<C>
+}
+
+/**
+ * Per-process random key of the configuration fingerprints, so a fingerprint cannot be
+ * used to check guesses at the channel secret
+ * @internal
+ */
+const FINGERPRINT_KEY = randomBytes(32)
+
+/**
+ * Identifiers of functions and class instances found in configurations, so they are
+ * compared by identity
+ * @internal
+ */
+const objectIds = new WeakMap<object, number>()
+let nextObjectId = 0
+
+/**
+ * Computes an HMAC of a resolved configuration, so a cached client can be compared with a new
+ * configuration without keeping the channel secret in memory
+ *
+ * Plain objects, arrays and primitives are compared by value; functions and class
+ * instances (transports, loggers, stores, credential providers) by identity.
+ * @internal
+ */
+function fingerprintConfig(config: LinePayConfig): string {
+  const json = JSON.stringify(config, function (this: Record<string, unknown>, key, value) {
+    const raw = this[key]
+    const isPlain =
+      typeof raw !== 'object' ||
+      raw === null ||
+      Array.isArray(raw) ||
+      Object.getPrototypeOf(raw) === Object.prototype ||
+      Object.getPrototypeOf(raw) === null
+    if (typeof raw === 'function' || !isPlain) {
+      let id = objectIds.get(raw as object)
+      if (id === undefined) {
+        id = nextObjectId++
+        objectIds.set(raw as object, id)
+      }
+      return `[ref ${id}]`
+    }
+    return value
+  })
+  return createHmac('sha256', FINGERPRINT_KEY).update(json).digest('hex')
+}
+
+/**
+ * LINE Pay Client Registry
+ *
+ * Resolves clients by merchant key for platforms that process payments on behalf of
+ * many merchants, each with its own channel. Clients are created on first use, cached
+ * with least-recently-used eviction, and rebuilt when the merchant's configuration
+ * changes, so secrets can be rotated without a restart. Only a keyed hash of each
+ * configuration is kept, not the channel secret.
+ *
+ * @template C - Client type created by the registry
+ *
+ * @example
+ * ```typescript
+ * const registry = new LinePayClientRegistry({
+ *   resolveConfig: async (merchantKey) => {
+ *     const merchant = await merchants.find(merchantKey)
+ *     return merchant && {
+ *       channelId: merchant.lineChannelId,
+ *       channelSecret: await secrets.get(`line-pay/${merchantKey}`),
+ *       env: 'production'
+ *     }
+ *   },
+ *   createClient: (config) => new LinePayOnlineClient(config),
+ *   configTtl: 10 * 60 * 1000
+ * })
+ *
+ * const client = await registry.get(order.merchantKey)
+ * await client.confirm(transactionId, { amount: order.total, currency: 'TWD' })
+ * ```
+ */
+export class LinePayClientRegistry<C extends LinePayBaseClient> {
+  private readonly entries = new Map<string, RegistryEntry<C>>()
+  private readonly pending = new Map<string, PendingLoad<C>>()
+  private readonly resolveConfig: LinePayMerchantConfigProvider
+  private readonly createClient: (config: LinePayConfig, merchantKey: string) => C
+  private readonly maxClients: number
+  private readonly configTtl: number
+  private readonly now: () => number
+
+  /**
+   * Creates a new LinePayClientRegistry instance
+   *
+   * @param config - Registry configuration
+   * @throws {LinePayConfigError} If maxClients or configTtl is not a positive number
+   */
+  constructor(config: LinePayClientRegistryConfig<C>) {
+    this.resolveConfig = config.resolveConfig
+    this.createClient = config.createClient
+    this.maxClients = config.maxClients ?? DEFAULT_REGISTRY_MAX_CLIENTS
+    this.configTtl = config.configTtl ?? Number.POSITIVE_INFINITY
+    this.now = config.now ?? Date.now
+
+    if (!Number.isInteger(this.maxClients) || this.maxClients <= 0) {
+      throw new LinePayConfigError('maxClients must be a positive integer')
+    }
+    if (Number.isNaN(this.configTtl) || this.configTtl <= 0) {
+      throw new LinePayConfigError('configTtl must be a positive number')
+    }
+  }
+
+  /**
+   * Number of cached clients
+   */
+  get size(): number {
+    return this.entries.size
+  }
+
+  /**
+   * Returns the client of a merchant, creating it if needed
+   *
+   * Concurrent calls for the same merchant share a single resolution.
+   *
+   * @param merchantKey - Merchant key passed to the config provider
+   * @returns The merchant's client
+   * @throws {LinePayConfigError} If the configuration cannot be resolved or is invalid;
+   * `merchantKey` is set on the error
+   */
+  async get(merchantKey: string): Promise<C> {
+    const entry = this.entries.get(merchantKey)
+    if (entry !== undefined && entry.expiresAt > this.now()) {
+      this.entries.delete(merchantKey)
+      this.entries.set(merchantKey, entry)
+      return entry.client
+    }
+
+    const pending = this.pending.get(merchantKey)
+    if (pending !== undefined) {
+      return pending.promise
+    }
+
+    const load: PendingLoad<C> = {
+      promise: Promise.resolve()
+        .then(() => this.load(merchantKey, entry, load))
+        .finally(() => {
+          if (this.pending.get(merchantKey) === load) {
+            this.pending.delete(merchantKey)
+          }
+        }),
+    }
+    this.pending.set(merchantKey, load)
+    return load.promise
+  }
+
+  /**
+   * Discards the cached client of a merchant so its configuration is resolved again
+   *
+   * Call it after rotating the merchant's channel secret. A resolution already in
+   * progress still returns its client to the callers waiting on it, but does not cache it.
+   *
+   * @param merchantKey - Merchant key
+   * @returns `true` if a client was cached
+   */
+  invalidate(merchantKey: string): boolean {
+    this.pending.delete(merchantKey)
+    return this.entries.delete(merchantKey)
+  }
+
+  /**
+   * Discards all cached clients and resolutions in progress
+   */
+  clear(): void {
+    this.pending.clear()
+    this.entries.clear()
+  }
+
+  /**
+   * Resolves the configuration and caches the client, reusing the previous client
+   * when the configuration did not change
+   *
+   * The client is not cached if the load was discarded by {@link invalidate} or
+   * {@link clear} meanwhile.
+   * @private
+   */
+  private async load(
+    merchantKey: string,
+    previous: RegistryEntry<C> | undefined,
+    pending: PendingLoad<C>
+  ): Promise<C> {
+    let config: LinePayConfig | undefined
+    try {
+      config = await this.resolveConfig(merchantKey)
+    } catch (error) {
+      throw new LinePayConfigError(
+        `Failed to resolve LINE Pay credentials for merchant "${merchantKey}": ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+        merchantKey
+      )
+    }
+    if (config === undefined) {
+      throw new LinePayConfigError(
+        `No LINE Pay credentials found for merchant "${merchantKey}"`,
+        merchantKey
+      )
+    }
+
+    const fingerprint = fingerprintConfig(config)
+    let client: C
+    if (previous !== undefined && previous.fingerprint === fingerprint) {
+      client = previous.client
+    } else {
+      try {
+        client = this.createClient(config, merchantKey)
+      } catch (error) {
+        if (error instanceof LinePayConfigError) {
+          throw new LinePayConfigError(
+            `Invalid LINE Pay configuration for merchant "${merchantKey}": ${error.message}`,
+            merchantKey,
+            error.issues
+          )
+        }
+        throw error
+      }
+    }
+
+    if (this.pending.get(merchantKey) !== pending) {
+      return client
+    }
+    this.entries.delete(merchantKey)
+    this.entries.set(merchantKey, {
+      client,
+      fingerprint,
+      expiresAt: this.now() + this.configTtl,
+    })
+    for (const key of this.entries.keys()) {
+      if (this.entries.size <= this.maxClients) {
+        break
+      }
+      this.entries.delete(key)
+    }
+    return client
+  }
+}
@@ -0,0 +1,285 @@
+import { LinePayAbortError, LinePayError, LinePayTimeoutError } from '../errors/LinePayError'
+import type { LinePayMiddleware, LinePayRequestContext } from '../http/middleware'
+
+/**
+ * Attribute values accepted by spans and metric instruments
+ */
+export type LinePayTelemetryAttributes = Record<string, string | number | boolean>
+
+/**
+ * Subset of the `@opentelemetry/api` `Span` interface used by the instrumentation
+ */
+export interface LinePaySpan {
+  setAttributes(attributes: LinePayTelemetryAttributes): unknown
+  setStatus(status: { code: number; message?: string }): unknown
+  recordException(exception: Error): void
+  end(): void
+}
+
+/**
+ * Options of a span started by the instrumentation
+ */
+export interface LinePaySpanOptions {
+  kind?: number
+  attributes?: LinePayTelemetryAttributes
+}
+
+/**
+ * Subset of the `@opentelemetry/api` `Tracer` interface used by the instrumentation
+ *
+ * `trace.getTracer(name)` from `@opentelemetry/api` satisfies this interface.
+ */
+export interface LinePayTracer {
+  startSpan(name: string, options?: LinePaySpanOptions): LinePaySpan
+
+  /**
+   * Starts a span and calls `fn` with the span set as the active span, so spans started
+   * inside `fn` become its children
+   *
+   * When missing, request spans are started with {@link startSpan} and never become active.
+   */
+  startActiveSpan?<T>(name: string, options: LinePaySpanOptions, fn: (span: LinePaySpan) => T): T
+}
+
+/**
+ * Subset of the `@opentelemetry/api` `Meter` interface used by the instrumentation
+ *
+ * `metrics.getMeter(name)` from `@opentelemetry/api` satisfies this interface.
+ */
+export interface LinePayMeter {
+  createCounter(
+    name: string,
+    options?: { description?: string; unit?: string }
+  ): { add(value: number, attributes?: LinePayTelemetryAttributes): void }
+  createHistogram(
+    name: string,
+    options?: { description?: string; unit?: string }
+  ): { record(value: number, attributes?: LinePayTelemetryAttributes): void }
+}
+
+/**
+ * Instrumentation Options
+ */
+export interface LinePayInstrumentationOptions {
+  /**
+   * Tracer creating one client span per request attempt
+   * @default a no-op tracer
+   */
+  tracer?: LinePayTracer
+
+  /**
+   * Meter recording request counts, error counts and latency
+   * @default a no-op meter
+   */
+  meter?: LinePayMeter
+}
+
+/**
+ * Error category recorded on failed attempts
+ *
+ * - `auth`, `payment`, `internal`: {@link LinePayError} with a 1xxx, 2xxx or 9xxx return code
+ * - `timeout`: {@link LinePayTimeoutError}
+ * - `aborted`: {@link LinePayAbortError}
+ * - `other`: any other error (network failures, unparsable responses, other return codes)
+ */
+export type LinePayErrorCategory = 'auth' | 'payment' | 'internal' | 'timeout' | 'aborted' | 'other'
+
+/**
+ * `SpanKind.CLIENT` and `SpanStatusCode` values of `@opentelemetry/api`
+ * @internal
+ */
+const SPAN_KIND_CLIENT = 2
+const SPAN_STATUS_OK = 1
+const SPAN_STATUS_ERROR = 2
+
+/**
+ * No-op tracer used when no tracer is given
+ * @internal
+ */
+const NOOP_TRACER: LinePayTracer = {
+  startSpan: () => ({
+    setAttributes: () => undefined,
+    setStatus: () => undefined,
+    recordException: () => undefined,
+    end: () => undefined,
+  }),
+}
+
+/**
+ * No-op meter used when no meter is given
+ * @internal
+ */
+const NOOP_METER: LinePayMeter = {
+  createCounter: () => ({ add: () => undefined }),
+  createHistogram: () => ({ record: () => undefined }),
+}
+
+/**
+ * Replaces transaction IDs, order IDs and regKeys in a path with placeholders
+ *
+ * Keeps span names and metric attributes low-cardinality.
+ *
+ * @param path - API endpoint path
+ * @returns The path template
+ *
+ * @example
+ * ```typescript
+ * toPathTemplate('/v3/payments/2024123112345678901/confirm')
+ * // '/v3/payments/{transactionId}/confirm'
+ * ```
+ */
+export function toPathTemplate(path: string): string {
+  return path
+    .replace(/\/preapprovedPay\/[^/]+/, '/preapprovedPay/{regKey}')
+    .replace(/\/orders\/[^/]+/, '/orders/{orderId}')
+    .replace(/\/\d+(?=\/|$)/g, '/{transactionId}')
+}
+
+/**
+ * Classifies an error for metrics and span attributes
+ *
+ * @param error - Error thrown by a request attempt
+ * @returns The error category
+ */
+export function getErrorCategory(error: unknown): LinePayErrorCategory {
+  if (error instanceof LinePayTimeoutError) {
+    return 'timeout'
+  }
+  if (error instanceof LinePayAbortError) {
+    return 'aborted'
+  }
+  if (error instanceof LinePayError) {
+    if (error.isAuthError) {
+      return 'auth'
+    }
+    if (error.isPaymentError) {
+      return 'payment'
+    }
+    if (error.isInternalError) {
+      return 'internal'
+    }
+  }
+  return 'other'
+}
+
+/**
+ * Creates OpenTelemetry instrumentation for a client
+ *
+ * The returned middleware starts a client span per request attempt around the transport
+ * call and records:
+ * - span attributes `http.request.method`, `http.route` (path template),
+ *   `http.response.status_code`, `line_pay.return_code`, `line_pay.attempt`,
+ *   `line_pay.request_id` (when given in the request options) and, on failure,
+ *   `line_pay.error_category`
+ * - counter `line_pay.client.requests` for every attempt
+ * - counter `line_pay.client.errors` for failed attempts, by error category
+ * - histogram `line_pay.client.duration` of attempt latency in milliseconds
+ *
+ * The instrumentation only relies on the shape of the `@opentelemetry/api` tracer
+ * and meter, so the SDK does not depend on OpenTelemetry; without a tracer or meter
+ * the corresponding signals are not recorded.
+ *
+ * With a tracer implementing `startActiveSpan`, the transport call and the `aroundSend`
+ * hooks of middleware registered after the instrumentation run with the request span as
+ * the active span, so spans they start (e.g. by an instrumented `fetch`) are its children.
+ * Register the instrumentation first to include every other middleware.
+ *
+ * @param options - Tracer and meter to use
+ * @returns Middleware to register on a client
+ *
+ * @example
+ * ```typescript
+ * import { metrics, trace } from '@opentelemetry/api'
+ *
+ * client.use(
+ *   createLinePayInstrumentation({
+ *     tracer: trace.getTracer('line-pay'),
+ *     meter: metrics.getMeter('line-pay')
+ *   })
+ * )
+ * ```
+ */
+export function createLinePayInstrumentation(
+  options: LinePayInstrumentationOptions = {}
+): LinePayMiddleware {
+  const tracer = options.tracer ?? NOOP_TRACER
+  const meter = options.meter ?? NOOP_METER
+  const requests = meter.createCounter('line_pay.client.requests', {
+    description: 'LINE Pay API request attempts',
+  })
+  const errors = meter.createCounter('line_pay.client.errors', {
+    description: 'Failed LINE Pay API request attempts',
+  })
+  const duration = meter.createHistogram('line_pay.client.duration', {
+    description: 'Duration of LINE Pay API request attempts',
+    unit: 'ms',
+  })
+  const spans = new WeakMap<LinePayRequestContext, LinePaySpan>()
+
+  const baseAttributes = (context: LinePayRequestContext): LinePayTelemetryAttributes => ({
+    'http.request.method': context.method,
+    'http.route': toPathTemplate(context.path),
+  })
+
+  const finish = (context: LinePayRequestContext, attributes: LinePayTelemetryAttributes) => {
+    const metricAttributes = { ...baseAttributes(context), ...attributes }
+    if (context.httpStatus !== undefined) {
+      metricAttributes['http.response.status_code'] = context.httpStatus
+    }
+    requests.add(1, metricAttributes)
+    duration.record(context.timings.duration ?? 0, metricAttributes)
+
+    const span = spans.get(context)
+    spans.delete(context)
+    span?.setAttributes(metricAttributes)
+    return { span, metricAttributes }
+  }
+
+  return {
+    aroundSend(request, context, next) {
+      const name = `LINE Pay ${context.method} ${toPathTemplate(context.path)}`
+      const spanOptions: LinePaySpanOptions = {
+        kind: SPAN_KIND_CLIENT,
+        attributes: {
+          ...baseAttributes(context),
+          'line_pay.attempt': context.attempt,
+          ...(context.requestId !== undefined ? { 'line_pay.request_id': context.requestId } : {}),
+        },
+      }
+      if (tracer.startActiveSpan === undefined) {
+        spans.set(context, tracer.startSpan(name, spanOptions))
+        return next(request)
+      }
+      return tracer.startActiveSpan(name, spanOptions, (span) => {
+        spans.set(context, span)
+        return next(request)
+      })
+    },
+
+    afterResponse(context) {
+      const { span } = finish(context, {
+        'line_pay.return_code': context.response?.returnCode ?? '',
+      })
+      span?.setStatus({ code: SPAN_STATUS_OK })
+      span?.end()
+    },
+
+    onError(context) {
+      const { error } = context
+      const category = getErrorCategory(error)
+      const { span, metricAttributes } = finish(context, {
+        'line_pay.error_category': category,
+        ...(error instanceof LinePayError ? { 'line_pay.return_code': error.returnCode } : {}),
+      })
+      errors.add(1, metricAttributes)
+      if (error instanceof Error) {
+        span?.recordException(error)
+      }
+      span?.setStatus({
+        code: SPAN_STATUS_ERROR,
+        message: error instanceof Error ? error.message : String(error),
+      })
+      span?.end()
+    },
+  }
+}
@@ -0,0 +1,302 @@
+import { mkdir, readFile, writeFile } from 'node:fs/promises'
+import { dirname } from 'node:path'
+import { parseLinePayJson, stringifyLinePayJson } from '../http/json'
+import type { LinePayMiddleware, LinePayRequestContext } from '../http/middleware'
+import type { LinePayTransportRequest, LinePayTransportResponse } from '../http/transport'
+import { redactSensitiveData } from '../logging/redact'
+
+/**
+ * Cassette mode
+ *
+ * - `record`: requests are sent and every request/response pair is kept for {@link LinePayCassette.save}
+ * - `replay`: requests are answered from the cassette file; the network is never used
+ */
+export type LinePayCassetteMode = 'record' | 'replay'
+
+/**
+ * Request as stored in a cassette (without the signature and nonce headers)
+ *
+ * Large integers in the body are stored as strings, as {@link parseLinePayJson} returns them.
+ * Repeated query parameters are stored as arrays, in request order.
+ */
+export interface LinePayCassetteRequest {
+  method: 'GET' | 'POST'
+  path: string
+  query: Record<string, string | string[]>
+  headers: Record<string, string>
+  body: unknown
+}
+
+/**
+ * Recorded request/response pair
+ */
+export interface LinePayCassetteInteraction {
+  request: LinePayCassetteRequest
+  response: Omit<LinePayTransportResponse, 'headers'> & { headers: Record<string, string> }
+}
+
+/**
+ * Cassette Options
+ */
+export interface LinePayCassetteOptions {
+  /**
+   * Path of the cassette JSON file
+   */
+  path: string
+
+  /**
+   * Whether to record or replay traffic
+   */
+  mode: LinePayCassetteMode
+
+  /**
+   * Normalizes a request body before matching (e.g., to drop generated order IDs)
+   *
+   * Applied when recording and when replaying.
+   */
+  normalizeBody?: (body: unknown, request: { method: 'GET' | 'POST'; path: string }) => unknown
+
+  /**
+   * Additional values replaced with `[REDACTED]` in recorded requests and responses
+   */
+  redact?: readonly string[]
+}
+
+/**
+ * Request headers never written to a cassette
+ * @internal
+ */
+const SENSITIVE_HEADERS = ['x-line-authorization', 'x-line-authorization-nonce']
+
+/**
+ * Record-and-replay fixture for LINE Pay HTTP traffic
+ *
+ * Register it as the first middleware of a client. In `record` mode, run the client
+ * against the sandbox and call {@link save}; the signature and nonce are stripped
+ * (the channel secret itself is never sent), and requests and responses are masked with
+ * {@link redactSensitiveData} (regKeys, oneTimeKeys, buyer information). In `replay` mode, requests are matched
+ * on method, path, query and normalized body, and answered in recorded order.
+ *
+ * Exported from the `line-pay-core-v4/testing` entry point, not the main one, since it
+ * depends on `node:fs`.
+ *
+ * @example
+ * ```typescript
+ * import { LinePayCassette } from 'line-pay-core-v4/testing'
+ *
+ * const cassette = await LinePayCassette.open({
+ *   path: 'tests/cassettes/confirm-flow.json',
+ *   mode: process.env.RECORD === '1' ? 'record' : 'replay'
+ * })
+ * const client = new LinePayOnlineClient({ channelId, channelSecret, middleware: [cassette] })
+ *
+ * // ... exercise the client ...
+ *
+ * if (cassette.mode === 'record') {
+ *   await cassette.save()
+ * }
+ * ```
+ */
+export class LinePayCassette implements LinePayMiddleware {
+  /**
+   * Cassette mode
+   */
+  readonly mode: LinePayCassetteMode
+
+  private readonly options: LinePayCassetteOptions
+  private readonly recorded: LinePayCassetteInteraction[] = []
+  private readonly used = new Set<number>()
+
+  /**
+   * Creates an empty cassette
+   *
+   * Use {@link open} to load an existing cassette for replay.
+   *
+   * @param options - Cassette options
+   */
+  constructor(options: LinePayCassetteOptions) {
+    this.options = options
+    this.mode = options.mode
+  }
+
+  /**
+   * Creates a cassette, loading the file in `replay` mode
+   *
+   * @param options - Cassette options
+   * @returns The cassette
+   * @throws {Error} If the file cannot be read or parsed in `replay` mode
+   */
+  static async open(options: LinePayCassetteOptions): Promise<LinePayCassette> {
+    const cassette = new LinePayCassette(options)
+    if (options.mode === 'replay') {
+      const content = await readFile(options.path, 'utf-8')
+      const { interactions } = JSON.parse(content) as {
+        interactions: LinePayCassetteInteraction[]
+      }
+      cassette.recorded.push(...interactions)
+    }
+    return cassette
+  }
+
+  /**
+   * Recorded interactions, in order
+   */
+  get interactions(): readonly LinePayCassetteInteraction[] {
+    return this.recorded
+  }
+
+  /**
+   * Writes the recorded interactions to the cassette file
+   */
+  async save(): Promise<void> {
+    await mkdir(dirname(this.options.path), { recursive: true })
+    await writeFile(
+      this.options.path,
+      `${JSON.stringify({ version: 1, interactions: this.recorded }, null, 2)}\n`
+    )
+  }
+
+  /**
+   * Records or replays the request
+   */
+  async aroundSend(
+    request: LinePayTransportRequest,
+    context: LinePayRequestContext,
+    next: (request: LinePayTransportRequest) => Promise<LinePayTransportResponse>
+  ): Promise<LinePayTransportResponse> {
+    const stored = this.toCassetteRequest(request, context.nonce)
+
+    if (this.mode === 'replay') {
+      return this.replay(stored)
+    }
+
+    const response = await next(request)
+    this.recorded.push({
+      request: stored,
+      response: {
+        status: response.status,
+        ...(response.statusText !== undefined ? { statusText: response.statusText } : {}),
+        headers: response.headers,
+        text: redactResponseText(this.redact(response.text, [context.nonce])),
+      },
+    })
+    return response
+  }
+
+  /**
+   * Returns the first unused interaction matching the request
+   * @private
+   */
+  private replay(request: LinePayCassetteRequest): LinePayTransportResponse {
+    const key = matchKey(request)
+    const index = this.recorded.findIndex(
+      (interaction, candidate) => !this.used.has(candidate) && matchKey(interaction.request) === key
+    )
+    const interaction = this.recorded[index]
+    if (interaction === undefined) {
+      throw new Error(
+        `No recorded response for ${request.method} ${request.path} in ${this.options.path}`
+      )
+    }
+    this.used.add(index)
+    return { ...interaction.response, headers: { ...interaction.response.headers } }
+  }
+
+  /**
+   * Converts a transport request to its stored form
+   * @private
+   */
+  private toCassetteRequest(
+    request: LinePayTransportRequest,
+    nonce: string
+  ): LinePayCassetteRequest {
+    const url = new URL(request.url)
+    const query: Record<string, string | string[]> = {}
+    for (const name of [...new Set(url.searchParams.keys())].sort((a, b) => a.localeCompare(b))) {
+      const values = url.searchParams.getAll(name)
+      query[name] = values.length === 1 ? (values[0] as string) : values
+    }
+    const headers = Object.fromEntries(
+      Object.entries(request.headers).filter(
+        ([name]) => !SENSITIVE_HEADERS.includes(name.toLowerCase())
+      )
+    )
+    const path = redactSensitiveData(url.pathname) as string
+
+    let body: unknown = null
+    if (request.body !== undefined && request.body !== '') {
+      const text = this.redact(request.body, [nonce])
+      try {
+        body = parseLinePayJson(text)
+      } catch {
+        body = text
+      }
+      body = redactSensitiveData(body)
+    }
+    if (this.options.normalizeBody !== undefined) {
+      body = this.options.normalizeBody(body, { method: request.method, path })
+    }
+
+    return {
+      method: request.method,
+      path,
+      query: redactSensitiveData(query) as Record<string, string | string[]>,
+      headers: redactSensitiveData(headers) as Record<string, string>,
+      body,
+    }
+  }
+
+  /**
+   * Replaces configured and per-request sensitive values
+   * @private
+   */
+  private redact(text: string, values: readonly string[]): string {
+    return [...values, ...(this.options.redact ?? [])]
+      .filter((value) => value !== '')
+      .reduce((result, value) => result.split(value).join('[REDACTED]'), text)
+  }
+}
+
+/**
+ * Masks sensitive fields of a response body with {@link redactSensitiveData}, keeping
+ * large integers as JSON numbers
+ * @internal
+ */
+function redactResponseText(text: string): string {
+  try {
+    return stringifyLinePayJson(redactSensitiveData(parseLinePayJson(text, 'bigint')))
+  } catch {
+    return redactSensitiveData(text) as string
+  }
+}
+
+/**
+ * Builds the matching key of a request: method, path, query and body with sorted keys
+ * @internal
+ */
+function matchKey(request: LinePayCassetteRequest): string {
+  return JSON.stringify([
+    request.method,
+    request.path,
+    sortKeys(request.query),
+    sortKeys(request.body),
+  ])
+}
+
+/**
+ * Recursively sorts object keys so equal bodies serialize identically
+ * @internal
+ */
+function sortKeys(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(sortKeys)
+  }
+  if (value !== null && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value)
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([key, entry]) => [key, sortKeys(entry)])
+    )
+  }
+  return value
+}
@@ -0,0 +1,786 @@
+import { randomUUID } from 'node:crypto'
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http'
+import type { AddressInfo } from 'node:net'
+import { LinePayUtils } from '../LinePayUtils'
+
+/**
+ * State of a transaction kept by the mock server
+ *
+ * `REQUESTED` → (user approval) `APPROVED` → `AUTHORIZED` or `CAPTURED` → `VOIDED` or `REFUNDED`
+ */
+export type LinePayMockTransactionStatus =
+  | 'REQUESTED'
+  | 'APPROVED'
+  | 'CANCELLED'
+  | 'AUTHORIZED'
+  | 'CAPTURED'
+  | 'VOIDED'
+  | 'REFUNDED'
+
+/**
+ * Transaction kept by the mock server
+ */
+export interface LinePayMockTransaction {
+  transactionId: string
+  orderId: string
+  amount: number
+  currency: string
+  productName: string
+  payType: 'NORMAL' | 'PREAPPROVED'
+  capture: boolean
+  status: LinePayMockTransactionStatus
+  refundedAmount: number
+  refunds: { refundTransactionId: string; refundAmount: number; refundTransactionDate: string }[]
+  regKey?: string
+  createdAt: string
+}
+
+/**
+ * Scripted failure applied to the next matching request(s)
+ *
+ * @example
+ * ```typescript
+ * // Next confirm call fails with 1104
+ * server.fail({ path: /\/confirm$/, returnCode: '1104' })
+ *
+ * // Next request is answered after 2 seconds (use a shorter client timeout)
+ * server.fail({ delay: 2000 })
+ *
+ * // Next two requests return invalid JSON
+ * server.fail({ malformed: true, times: 2 })
+ * ```
+ */
+export interface LinePayMockFailure {
+  /**
+   * HTTP method to match (any method when omitted)
+   */
+  method?: 'GET' | 'POST'
+
+  /**
+   * Request path to match, without the query string (any path when omitted)
+   */
+  path?: string | RegExp
+
+  /**
+   * Return code to answer with instead of handling the request
+   */
+  returnCode?: string
+
+  /**
+   * Return message sent with `returnCode`
+   * @default 'Mock failure'
+   */
+  returnMessage?: string
+
+  /**
+   * HTTP status of the failure response
+   * @default 200
+   */
+  httpStatus?: number
+
+  /**
+   * Milliseconds to wait before answering
+   */
+  delay?: number
+
+  /**
+   * Answer with a body that is not valid JSON
+   */
+  malformed?: boolean
+
+  /**
+   * Number of requests the failure applies to
+   * @default 1
+   */
+  times?: number
+}
+
+/**
+ * Mock Server Options
+ */
+export interface LinePayMockServerOptions {
+  /**
+   * Channel ID accepted by the server
+   * @default '1234567890'
+   */
+  channelId?: string
+
+  /**
+   * Channel Secret used to verify signatures
+   * @default 'mock-channel-secret'
+   */
+  channelSecret?: string
+
+  /**
+   * Whether requested payments are approved immediately, as if the user
+   * completed the LINE Pay screen. When `false`, call {@link LinePayMockServer.approve}.
+   * @default true
+   */
+  autoApprove?: boolean
+
+  /**
+   * Port to listen on (a free port when omitted)
+   * @default 0
+   */
+  port?: number
+}
+
+/**
+ * JSON answer of a route
+ * @internal
+ */
+interface MockResponse {
+  status?: number
+  body: Record<string, unknown>
+}
+
+/**
+ * Parsed incoming request passed to a route
+ * @internal
+ */
+interface MockRequest {
+  params: string[]
+  query: URLSearchParams
+  body: Record<string, unknown>
+}
+
+/**
+ * Route of the mock server
+ * @internal
+ */
+interface MockRoute {
+  method: 'GET' | 'POST'
+  pattern: RegExp
+  handle: (request: MockRequest) => MockResponse
+}
+
+/**
+ * In-process LINE Pay Online API mock
+ *
+ * Serves the Online API (v3 and v4 paths) over `node:http` so clients can be
+ * exercised end to end without network access. Every request must carry a valid
+ * `X-LINE-Authorization` signature for the configured channel, and transactions
+ * move through request → confirm → capture / void / refund like on LINE Pay.
+ *
+ * Create it with {@link startLinePayMockServer}.
+ */
+export class LinePayMockServer {
+  /**
+   * Channel ID accepted by the server
+   */
+  readonly channelId: string
+
+  /**
+   * Channel Secret used to verify signatures
+   */
+  readonly channelSecret: string
+
+  private readonly autoApprove: boolean
+  private readonly server: Server
+  private readonly routes: MockRoute[]
+  private readonly transactionsById = new Map<string, LinePayMockTransaction>()
+  private failures: LinePayMockFailure[] = []
+  private readonly timers = new Set<ReturnType<typeof setTimeout>>()
+  private nextTransactionId = 2024000000000000001n
+  private url = ''
+
+  /**
+   * Creates a mock server that is not listening yet
+   *
+   * @param options - Server options
+   * @internal
+   */
+  constructor(options: LinePayMockServerOptions = {}) {
+    this.channelId = options.channelId ?? '1234567890'
+    this.channelSecret = options.channelSecret ?? 'mock-channel-secret'
+    this.autoApprove = options.autoApprove ?? true
+    this.routes = this.createRoutes()
+    this.server = createServer((req, res) => {
+      this.handle(req, res).catch(() => {
+        res.destroy()
+      })
+    })
+  }
+
+  /**
+   * Base URL to use as `LinePayConfig.baseUrl`
+   */
+  get baseUrl(): string {
+    return this.url
+  }
+
+  /**
+   * All transactions, by transaction ID
+   */
+  get transactions(): ReadonlyMap<string, LinePayMockTransaction> {
+    return this.transactionsById
+  }
+
+  /**
+   * Starts listening on localhost
+   *
+   * @param port - Port to listen on (0 for a free port)
+   * @internal
+   */
+  async listen(port = 0): Promise<void> {
+    await new Promise<void>((resolve, reject) => {
+      this.server.once('error', reject)
+      this.server.listen(port, '127.0.0.1', () => {
+        this.server.off('error', reject)
+        resolve()
+      })
+    })
+    const address = this.server.address() as AddressInfo
+    this.url = `http://127.0.0.1:${String(address.port)}`
+  }
+
+  /**
+   * Returns a transaction by ID
+   *
+   * @param transactionId - Transaction ID
+   * @returns The transaction, or `undefined` if it does not exist
+   */
+  getTransaction(transactionId: string): LinePayMockTransaction | undefined {
+    return this.transactionsById.get(transactionId)
+  }
+
+  /**
+   * Simulates the user approving a requested payment
+   *
+   * @param transactionId - Transaction ID returned by the Request API
+   * @throws {Error} If the transaction does not exist or is not waiting for approval
+   */
+  approve(transactionId: string): void {
+    this.transitionRequested(transactionId, 'APPROVED')
+  }
+
+  /**
+   * Simulates the user cancelling a requested payment
+   *
+   * @param transactionId - Transaction ID returned by the Request API
+   * @throws {Error} If the transaction does not exist or is not waiting for approval
+   */
+  cancel(transactionId: string): void {
+    this.transitionRequested(transactionId, 'CANCELLED')
+  }
+
+  /**
+   * Scripts a failure for the next matching request(s)
+   *
+   * Failures are matched in the order they were added.
+   *
+   * @param failure - Failure to apply
+   * @returns The server for chaining
+   */
+  fail(failure: LinePayMockFailure): this {
+    this.failures.push({ ...failure })
+    return this
+  }
+
+  /**
+   * Removes all transactions and scripted failures
+   */
+  reset(): void {
+    this.transactionsById.clear()
+    this.failures = []
+  }
+
+  /**
+   * Stops the server and drops open connections
+   */
+  async close(): Promise<void> {
+    for (const timer of this.timers) {
+      clearTimeout(timer)
+    }
+    this.timers.clear()
+    await new Promise<void>((resolve) => {
+      this.server.close(() => {
+        resolve()
+      })
+      this.server.closeAllConnections()
+    })
+  }
+
+  /**
+   * Handles an incoming HTTP request
+   * @private
+   */
+  private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const chunks: Buffer[] = []
+    for await (const chunk of req) {
+      chunks.push(chunk as Buffer)
+    }
+    const rawBody = Buffer.concat(chunks).toString('utf-8')
+    const url = new URL(req.url ?? '/', this.url)
+    const method = req.method === 'POST' ? 'POST' : 'GET'
+
+    const failure = this.takeFailure(method, url.pathname)
+    if (failure?.delay !== undefined) {
+      await this.wait(failure.delay)
+    }
+    if (res.destroyed) {
+      return
+    }
+    if (failure?.malformed === true) {
+      res.writeHead(failure.httpStatus ?? 200, { 'content-type': 'application/json' })
+      res.end('{"returnCode":')
+      return
+    }
+    if (failure?.returnCode !== undefined) {
+      send(res, {
+        status: failure.httpStatus ?? 200,
+        body: {
+          returnCode: failure.returnCode,
+          returnMessage: failure.returnMessage ?? 'Mock failure',
+        },
+      })
+      return
+    }
+
+    const authError = this.authenticate(req, url, rawBody)
+    if (authError !== undefined) {
+      send(res, authError)
+      return
+    }
+
+    let body: Record<string, unknown> = {}
+    if (rawBody !== '') {
+      try {
+        body = JSON.parse(rawBody) as Record<string, unknown>
+      } catch {
+        send(res, {
+          status: 400,
+          body: { returnCode: '2102', returnMessage: 'JSON data format error' },
+        })
+        return
+      }
+    }
+
+    for (const route of this.routes) {
+      const match = route.method === method ? route.pattern.exec(url.pathname) : null
+      if (match !== null) {
+        send(res, route.handle({ params: match.slice(1), query: url.searchParams, body }))
+        return
+      }
+    }
+    send(res, { status: 404, body: { returnCode: '2101', returnMessage: 'Unknown API' } })
+  }
+
+  /**
+   * Checks the channel ID and signature of a request
+   * @private
+   */
+  private authenticate(req: IncomingMessage, url: URL, rawBody: string): MockResponse | undefined {
+    const channelId = req.headers['x-line-channelid']
+    const nonce = req.headers['x-line-authorization-nonce']
+    const signature = req.headers['x-line-authorization']
+
+    if (channelId !== this.channelId) {
+      return { status: 401, body: { returnCode: '1104', returnMessage: 'Merchant not registered' } }
+    }
+    if (
+      typeof nonce !== 'string' ||
+      typeof signature !== 'string' ||
+      !LinePayUtils.verifySignature(
+        this.channelSecret,
+        url.pathname,
+        rawBody,
+        nonce,
+        signature,
+        url.search
+      )
+    ) {
+      return {
+        status: 401,
+        body: { returnCode: '1106', returnMessage: 'Request header information error' },
+      }
+    }
+    return undefined
+  }
+
+  /**
+   * Removes and returns the first scripted failure matching the request
+   * @private
+   */
+  private takeFailure(method: 'GET' | 'POST', path: string): LinePayMockFailure | undefined {
+    const index = this.failures.findIndex(
+      (failure) =>
+        (failure.method === undefined || failure.method === method) &&
+        (failure.path === undefined ||
+          (typeof failure.path === 'string' ? failure.path === path : failure.path.test(path)))
+    )
+    const failure = this.failures[index]
+    if (failure === undefined) {
+      return undefined
+    }
+
+    const times = (failure.times ?? 1) - 1
+    if (times > 0) {
+      failure.times = times
+    } else {
+      this.failures.splice(index, 1)
+    }
+    return failure
+  }
+
+  /**
+   * Waits for a scripted delay; cancelled by {@link close}
+   * @private
+   */
+  private async wait(ms: number): Promise<void> {
+    await new Promise<void>((resolve) => {
+      const timer = setTimeout(() => {
+        this.timers.delete(timer)
+        resolve()
+      }, ms)
+      this.timers.add(timer)
+    })
+  }
+
+  /**
+   * Moves a requested transaction to APPROVED or CANCELLED
+   * @private
+   */
+  private transitionRequested(transactionId: string, status: 'APPROVED' | 'CANCELLED'): void {
+    const transaction = this.transactionsById.get(transactionId)
+    if (transaction?.status !== 'REQUESTED') {
+      throw new Error(`Transaction ${transactionId} is not waiting for approval`)
+    }
+    transaction.status = status
+  }
+
+  /**
+   * Generates a new 19-digit transaction ID
+   * @private
+   */
+  private createTransactionId(): string {
+    const id = this.nextTransactionId
+    this.nextTransactionId += 1n
+    return id.toString()
+  }
+
+  /**
+   * Builds the Online API routes
+   * @private
+   */
+  private createRoutes(): MockRoute[] {
+    const version = '/v[34]'
+    return [
+      {
+        method: 'POST',
+        pattern: new RegExp(`^${version}/payments/request$`),
+        handle: ({ body }) => this.requestPayment(body),
+      },
+      {
+        method: 'POST',
+        pattern: new RegExp(`^${version}/payments/(\\d{19})/confirm$`),
+        handle: ({ params, body }) => this.confirm(params[0] as string, body),
+      },
+      {
+        method: 'POST',
+        pattern: new RegExp(`^${version}/payments/authorizations/(\\d{19})/capture$`),
+        handle: ({ params, body }) => this.capture(params[0] as string, body),
+      },
+      {
+        method: 'POST',
+        pattern: new RegExp(`^${version}/payments/authorizations/(\\d{19})/void$`),
+        handle: ({ params }) => this.void(params[0] as string),
+      },
+      {
+        method: 'POST',
+        pattern: new RegExp(`^${version}/payments/(\\d{19})/refund$`),
+        handle: ({ params, body }) => this.refund(params[0] as string, body),
+      },
+      {
+        method: 'GET',
+        pattern: new RegExp(`^${version}/payments$`),
+        handle: ({ query }) => this.getPaymentDetails(query),
+      },
+      {
+        method: 'GET',
+        pattern: new RegExp(`^${version}/payments/requests/(\\d{19})/check$`),
+        handle: ({ params }) => this.checkPaymentStatus(params[0] as string),
+      },
+    ]
+  }
+
+  /**
+   * Request API
+   * @private
+   */
+  private requestPayment(body: Record<string, unknown>): MockResponse {
+    if (typeof body.amount !== 'number' || typeof body.orderId !== 'string') {
+      return result('2101', 'Parameter error')
+    }
+    const duplicate = [...this.transactionsById.values()].some(
+      (transaction) => transaction.orderId === body.orderId
+    )
+    if (duplicate) {
+      return result('1172', 'A transaction with the same orderId already exists')
+    }
+
+    const options = (body.options ?? {}) as { payment?: { capture?: boolean; payType?: string } }
+    const packages = (body.packages ?? []) as { products?: { name?: string }[] }[]
+    const transactionId = this.createTransactionId()
+    this.transactionsById.set(transactionId, {
+      transactionId,
+      orderId: body.orderId,
+      amount: body.amount,
+      currency: String(body.currency),
+      productName: packages[0]?.products?.[0]?.name ?? '',
+      payType: options.payment?.payType === 'PREAPPROVED' ? 'PREAPPROVED' : 'NORMAL',
+      capture: options.payment?.capture ?? true,
+      status: this.autoApprove ? 'APPROVED' : 'REQUESTED',
+      refundedAmount: 0,
+      refunds: [],
+      createdAt: new Date().toISOString(),
+    })
+
+    return result('0000', 'Success.', {
+      paymentUrl: {
+        web: `${this.url}/web/payment/wait?transactionReserveId=${transactionId}`,
+        app: `line://pay/payment/${transactionId}`,
+      },
+      transactionId,
+      paymentAccessToken: transactionId.slice(-12),
+    })
+  }
+
+  /**
+   * Confirm API
+   * @private
+   */
+  private confirm(transactionId: string, body: Record<string, unknown>): MockResponse {
+    const transaction = this.transactionsById.get(transactionId)
+    if (transaction === undefined) {
+      return result('1150', 'Transaction record not found')
+    }
+    if (transaction.status === 'REQUESTED') {
+      return result('1169', 'The buyer has not selected a payment method or entered the password')
+    }
+    if (transaction.status === 'CANCELLED') {
+      return result('1180', 'The payment deadline has passed')
+    }
+    if (transaction.status !== 'APPROVED') {
+      return result('1172', 'A transaction with the same orderId already exists')
+    }
+    if (body.amount !== transaction.amount || body.currency !== transaction.currency) {
+      return result('1153', 'The payment amount differs from the requested amount')
+    }
+
+    transaction.status = transaction.capture ? 'CAPTURED' : 'AUTHORIZED'
+    if (transaction.payType === 'PREAPPROVED') {
+      transaction.regKey = `RK${randomUUID().replace(/-/g, '').slice(0, 13).toUpperCase()}`
+    }
+    return result('0000', 'Success.', {
+      orderId: transaction.orderId,
+      transactionId,
+      ...(transaction.capture
+        ? {}
+        : { authorizationExpireDate: new Date(Date.now() + 7 * 86400000).toISOString() }),
+      ...(transaction.regKey !== undefined ? { regKey: transaction.regKey } : {}),
+      payInfo: payInfo(transaction),
+    })
+  }
+
+  /**
+   * Capture API
+   * @private
+   */
+  private capture(transactionId: string, body: Record<string, unknown>): MockResponse {
+    const transaction = this.transactionsById.get(transactionId)
+    if (transaction === undefined) {
+      return result('1150', 'Transaction record not found')
+    }
+    if (transaction.status !== 'AUTHORIZED') {
+      return result('1152', 'The transaction has already been processed')
+    }
+    if (typeof body.amount !== 'number' || body.amount > transaction.amount) {
+      return result('1184', 'The payment amount exceeds the requested amount')
+    }
+
+    transaction.status = 'CAPTURED'
+    transaction.amount = body.amount
+    return result('0000', 'Success.', {
+      orderId: transaction.orderId,
+      transactionId,
+      payInfo: payInfo(transaction),
+    })
+  }
+
+  /**
+   * Void API
+   * @private
+   */
+  private void(transactionId: string): MockResponse {
+    const transaction = this.transactionsById.get(transactionId)
+    if (transaction === undefined) {
+      return result('1150', 'Transaction record not found')
+    }
+    if (transaction.status !== 'AUTHORIZED') {
+      return result('1152', 'The transaction has already been processed')
+    }
+    transaction.status = 'VOIDED'
+    return result('0000', 'Success.')
+  }
+
+  /**
+   * Refund API
+   * @private
+   */
+  private refund(transactionId: string, body: Record<string, unknown>): MockResponse {
+    const transaction = this.transactionsById.get(transactionId)
+    if (transaction === undefined) {
+      return result('1150', 'Transaction record not found')
+    }
+    if (transaction.status === 'REFUNDED') {
+      return result('1165', 'The transaction has already been refunded')
+    }
+    if (transaction.status !== 'CAPTURED') {
+      return result('1155', 'The transaction ID cannot be used for this operation')
+    }
+
+    const remaining = transaction.amount - transaction.refundedAmount
+    const refundAmount = typeof body.refundAmount === 'number' ? body.refundAmount : remaining
+    if (refundAmount <= 0 || refundAmount > remaining) {
+      return result('1164', 'The refund amount exceeds the refundable amount')
+    }
+
+    const refund = {
+      refundTransactionId: this.createTransactionId(),
+      refundAmount,
+      refundTransactionDate: new Date().toISOString(),
+    }
+    transaction.refunds.push(refund)
+    transaction.refundedAmount += refundAmount
+    if (transaction.refundedAmount === transaction.amount) {
+      transaction.status = 'REFUNDED'
+    }
+    return result('0000', 'Success.', {
+      refundTransactionId: refund.refundTransactionId,
+      refundTransactionDate: refund.refundTransactionDate,
+    })
+  }
+
+  /**
+   * Payment Details API
+   * @private
+   */
+  private getPaymentDetails(query: URLSearchParams): MockResponse {
+    const transactionIds = query.getAll('transactionId')
+    const orderIds = query.getAll('orderId')
+    const details = [...this.transactionsById.values()]
+      .filter(
+        (transaction) =>
+          transactionIds.includes(transaction.transactionId) ||
+          orderIds.includes(transaction.orderId)
+      )
+      .filter((transaction) => !['REQUESTED', 'APPROVED', 'CANCELLED'].includes(transaction.status))
+      .map((transaction) => ({
+        transactionId: transaction.transactionId,
+        transactionDate: transaction.createdAt,
+        transactionType: 'PAYMENT',
+        payStatus: PAY_STATUS[transaction.status],
+        productName: transaction.productName,
+        currency: transaction.currency,
+        payInfo: payInfo(transaction),
+        refundList: transaction.refunds.map((refund) => ({
+          ...refund,
+          transactionType:
+            refund.refundAmount === transaction.amount ? 'PAYMENT_REFUND' : 'PARTIAL_REFUND',
+        })),
+      }))
+    return result('0000', 'Success.', details)
+  }
+
+  /**
+   * Check Payment Status API
+   * @private
+   */
+  private checkPaymentStatus(transactionId: string): MockResponse {
+    const transaction = this.transactionsById.get(transactionId)
+    if (transaction === undefined) {
+      return result('1150', 'Transaction record not found')
+    }
+    const returnCode = {
+      REQUESTED: '0000',
+      APPROVED: '0110',
+      CANCELLED: '0121',
+    }[transaction.status as 'REQUESTED' | 'APPROVED' | 'CANCELLED']
+    return result(returnCode ?? '0123', 'Success.')
+  }
+}
+
+/**
+ * `payStatus` reported by the Payment Details API for each state
+ * @internal
+ */
+const PAY_STATUS: Partial<Record<LinePayMockTransactionStatus, string>> = {
+  AUTHORIZED: 'AUTHORIZATION',
+  CAPTURED: 'CAPTURE',
+  VOIDED: 'VOIDED_AUTHORIZATION',
+  REFUNDED: 'CAPTURE',
+}
+
+/**
+ * Builds a LINE Pay response body
+ * @internal
+ */
+function result(returnCode: string, returnMessage: string, info?: unknown): MockResponse {
+  return {
+    body: info === undefined ? { returnCode, returnMessage } : { returnCode, returnMessage, info },
+  }
+}
+
+/**
+ * Builds the payInfo of a transaction
+ * @internal
+ */
+function payInfo(transaction: LinePayMockTransaction): { method: string; amount: number }[] {
+  return [{ method: 'CREDIT_CARD', amount: transaction.amount }]
+}
+
+/**
+ * Writes a JSON response
+ * @internal
+ */
+function send(res: ServerResponse, response: MockResponse): void {
+  res.writeHead(response.status ?? 200, { 'content-type': 'application/json' })
+  res.end(JSON.stringify(response.body))
+}
+
+/**
+ * Starts an in-process LINE Pay mock server
+ *
+ * Exported from the `line-pay-core-v4/testing` entry point, not the main one, since it
+ * depends on `node:http`.
+ *
+ * @param options - Server options
+ * @returns The listening server; pass `server.baseUrl` and its channel credentials to the client
+ *
+ * @example
+ * ```typescript
+ * import { startLinePayMockServer } from 'line-pay-core-v4/testing'
+ *
+ * const server = await startLinePayMockServer()
+ * const client = new LinePayOnlineClient({
+ *   channelId: server.channelId,
+ *   channelSecret: server.channelSecret,
+ *   baseUrl: server.baseUrl
+ * })
+ *
+ * const { info } = await client.requestPayment(body)
+ * await client.confirm(info.transactionId, { amount: body.amount, currency: body.currency })
+ *
+ * server.fail({ path: /\/refund$/, returnCode: '1165' })
+ *
+ * await server.close()
+ * ```
+ */
+export async function startLinePayMockServer(
+  options: LinePayMockServerOptions = {}
+): Promise<LinePayMockServer> {
+  const server = new LinePayMockServer(options)
+  await server.listen(options.port)
+  return server
+}
@@ -0,0 +1,2 @@
+export * from './LinePayCassette'
+export * from './LinePayMockServer'
@@ -0,0 +1,246 @@
+import { LinePayResponseValidationError } from '../errors/LinePayError'
+
+/**
+ * Issue reported by a schema
+ *
+ * Compatible with the Standard Schema (`@standard-schema/spec`) issue format.
+ */
+export interface LinePaySchemaIssue {
+  readonly message: string
+  readonly path?: readonly (PropertyKey | { readonly key: PropertyKey })[]
+}
+
+/**
+ * Result of a schema validation
+ */
+export type LinePaySchemaResult<Output> =
+  | { readonly value: Output; readonly issues?: undefined }
+  | { readonly issues: readonly LinePaySchemaIssue[] }
+
+/**
+ * Standard Schema v1 compatible schema
+ *
+ * zod (3.24+), valibot (1.0+), ArkType and the built-in {@link LinePaySchema} builders
+ * all implement this interface, so any of them can validate responses.
+ *
+ * @template Output - Type of the validated value
+ */
+export interface LinePayStandardSchema<Output = unknown> {
+  readonly '~standard': {
+    readonly version: 1
+    readonly vendor: string
+    readonly validate: (
+      value: unknown
+    ) => LinePaySchemaResult<Output> | Promise<LinePaySchemaResult<Output>>
+  }
+}
+
+/**
+ * Type of the value validated by a schema
+ */
+export type LinePaySchemaOutput<S extends LinePayStandardSchema> =
+  S extends LinePayStandardSchema<infer Output> ? Output : never
+
+/**
+ * Creates a built-in schema from a check returning issues relative to the value
+ * @internal
+ */
+function createSchema<Output>(
+  check: (value: unknown) => LinePaySchemaIssue[]
+): LinePayStandardSchema<Output> {
+  return {
+    '~standard': {
+      version: 1,
+      vendor: 'line-pay-core-v4',
+      validate: (value) => {
+        const issues = check(value)
+        return issues.length > 0 ? { issues } : { value: value as Output }
+      },
+    },
+  }
+}
+
+/**
+ * Runs a nested schema synchronously, prefixing issue paths with `key` when given
+ * @internal
+ */
+function checkNested(
+  schema: LinePayStandardSchema,
+  value: unknown,
+  key?: PropertyKey
+): LinePaySchemaIssue[] {
+  const prefix = key === undefined ? [] : [key]
+  const result = schema['~standard'].validate(value)
+  if (result instanceof Promise) {
+    return [{ message: 'Asynchronous schemas cannot be nested in built-in schemas', path: prefix }]
+  }
+  return (result.issues ?? []).map((issue) => ({
+    message: issue.message,
+    path: [...prefix, ...(issue.path ?? [])],
+  }))
+}
+
+/**
+ * Describes a value for issue messages
+ * @internal
+ */
+function describe(value: unknown): string {
+  if (value === null) {
+    return 'null'
+  }
+  return Array.isArray(value) ? 'array' : typeof value
+}
+
+/**
+ * Builders for small response schemas
+ *
+ * Object schemas accept unknown keys, since LINE Pay may add fields to responses.
+ *
+ * @example
+ * ```typescript
+ * const confirmSchema = LinePaySchema.object({
+ *   returnCode: LinePaySchema.string(),
+ *   info: LinePaySchema.object({
+ *     orderId: LinePaySchema.string(),
+ *     payInfo: LinePaySchema.array(
+ *       LinePaySchema.object({ method: LinePaySchema.string(), amount: LinePaySchema.number() })
+ *     )
+ *   })
+ * })
+ * ```
+ */
+export const LinePaySchema = {
+  /**
+   * Accepts strings
+   */
+  string(): LinePayStandardSchema<string> {
+    return createSchema((value) =>
+      typeof value === 'string' ? [] : [{ message: `Expected string, received ${describe(value)}` }]
+    )
+  },
+
+  /**
+   * Accepts finite numbers
+   */
+  number(): LinePayStandardSchema<number> {
+    return createSchema((value) =>
+      typeof value === 'number' && Number.isFinite(value)
+        ? []
+        : [{ message: `Expected number, received ${describe(value)}` }]
+    )
+  },
+
+  /**
+   * Accepts booleans
+   */
+  boolean(): LinePayStandardSchema<boolean> {
+    return createSchema((value) =>
+      typeof value === 'boolean'
+        ? []
+        : [{ message: `Expected boolean, received ${describe(value)}` }]
+    )
+  },
+
+  /**
+   * Accepts one of the given primitive values
+   */
+  literal<const Values extends readonly (string | number | boolean)[]>(
+    ...values: Values
+  ): LinePayStandardSchema<Values[number]> {
+    return createSchema((value) =>
+      values.includes(value as Values[number])
+        ? []
+        : [{ message: `Expected one of ${JSON.stringify(values)}, received ${String(value)}` }]
+    )
+  },
+
+  /**
+   * Accepts any value
+   */
+  unknown(): LinePayStandardSchema<unknown> {
+    return createSchema(() => [])
+  },
+
+  /**
+   * Accepts `undefined` or a value matching the schema
+   */
+  optional<Output>(
+    schema: LinePayStandardSchema<Output>
+  ): LinePayStandardSchema<Output | undefined> {
+    return createSchema((value) => (value === undefined ? [] : checkNested(schema, value)))
+  },
+
+  /**
+   * Accepts arrays whose items all match the schema
+   */
+  array<Output>(item: LinePayStandardSchema<Output>): LinePayStandardSchema<Output[]> {
+    return createSchema((value) =>
+      Array.isArray(value)
+        ? value.flatMap((entry, index) => checkNested(item, entry, index))
+        : [{ message: `Expected array, received ${describe(value)}` }]
+    )
+  },
+
+  /**
+   * Accepts objects whose properties match the shape
+   */
+  object<Shape extends Record<string, LinePayStandardSchema>>(
+    shape: Shape
+  ): LinePayStandardSchema<{ [K in keyof Shape]: LinePaySchemaOutput<Shape[K]> }> {
+    return createSchema((value) => {
+      if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+        return [{ message: `Expected object, received ${describe(value)}` }]
+      }
+      const record = value as Record<string, unknown>
+      return Object.entries(shape).flatMap(([key, schema]) => checkNested(schema, record[key], key))
+    })
+  },
+}
+
+/**
+ * Formats an issue path as a property path (e.g., `info.payInfo[0].amount`)
+ *
+ * @param path - Issue path
+ * @returns The formatted path, or an empty string for the root value
+ */
+export function formatSchemaIssuePath(path: LinePaySchemaIssue['path'] = []): string {
+  return path
+    .map((segment) => (typeof segment === 'object' ? segment.key : segment))
+    .reduce<string>((result, key) => {
+      if (typeof key === 'number') {
+        return `${result}[${key}]`
+      }
+      return result === '' ? String(key) : `${result}.${String(key)}`
+    }, '')
+}
+
+/**
+ * Validates a parsed response against a schema
+ *
+ * @param schema - Schema of the response
+ * @param response - Parsed response
+ * @param rawResponse - Raw response body
+ * @param httpStatus - HTTP status code of the response
+ * @returns The value returned by the schema
+ * @throws {LinePayResponseValidationError} If the response does not match the schema
+ * @internal
+ */
+export async function validateResponse<Output>(
+  schema: LinePayStandardSchema<Output>,
+  response: unknown,
+  rawResponse: string,
+  httpStatus: number
+): Promise<Output> {
+  const result = await schema['~standard'].validate(response)
+  if (result.issues !== undefined) {
+    throw new LinePayResponseValidationError(
+      result.issues.map((issue) => ({
+        path: formatSchemaIssuePath(issue.path),
+        message: issue.message,
+      })),
+      rawResponse,
+      httpStatus
+    )
+  }
+  return result.value
+}
@@ -0,0 +1,159 @@
+import { LinePayConfigError, LinePaySignatureError } from '../errors/LinePayError'
+import { type LinePayBigNumberMode, parseLinePayJson } from '../http/json'
+import { LinePayUtils } from '../LinePayUtils'
+import { assertFreshNonce, DEFAULT_NONCE_TTL, type NonceStore } from './NonceStore'
+import type {
+  LinePayWebhookHeaders,
+  LinePayWebhookRequest,
+  LinePayWebhookVerificationResult,
+  LinePayWebhookVerifierConfig,
+} from './types'
+
+/**
+ * LINE Pay Webhook Verifier
+ *
+ * Framework-agnostic verifier for requests signed by LINE Pay. The signature is
+ * checked against the raw body bytes, so the body must not be parsed and
+ * re-serialized before verification.
+ *
+ * See `verifyNodeRequest`, `createExpressWebhookMiddleware` and `verifyFetchRequest`
+ * for adapters that extract the raw body, headers and path from common servers.
+ *
+ * When a {@link NonceStore} is configured, a request whose nonce was already accepted
+ * within `nonceTtl` is rejected as a replay.
+ *
+ * @example
+ * ```typescript
+ * import { InMemoryNonceStore, LinePayWebhookVerifier } from 'line-pay-core-v4'
+ *
+ * const verifier = new LinePayWebhookVerifier({
+ *   channelSecret: process.env.LINE_PAY_CHANNEL_SECRET!,
+ *   channelId: process.env.LINE_PAY_CHANNEL_ID,
+ *   nonceStore: new InMemoryNonceStore()
+ * })
+ *
+ * const { body } = await verifier.verify<PaymentNotification>({
+ *   rawBody,
+ *   headers,
+ *   path: '/webhooks/line-pay'
+ * })
+ * ```
+ */
+export class LinePayWebhookVerifier {
+  private readonly channelSecret: string
+  private readonly channelId?: string
+  private readonly nonceStore?: NonceStore
+  private readonly nonceTtl: number
+  private readonly bigNumbers: LinePayBigNumberMode
+
+  /**
+   * Creates a new LinePayWebhookVerifier instance
+   *
+   * @param config - Verifier configuration
+   * @throws {LinePayConfigError} If channelSecret is empty
+   */
+  constructor(config: LinePayWebhookVerifierConfig) {
+    if (config.channelSecret.trim() === '') {
+      throw new LinePayConfigError('channelSecret is required and cannot be empty')
+    }
+    this.channelSecret = config.channelSecret
+    this.channelId = config.channelId
+    this.nonceStore = config.nonceStore
+    this.nonceTtl = config.nonceTtl ?? DEFAULT_NONCE_TTL
+    this.bigNumbers = config.bigNumbers ?? 'string'
+  }
+
+  /**
+   * Verifies the signature of a request and parses its body
+   *
+   * @param request - Raw body, headers and path of the incoming request
+   * @returns The parsed body together with the authentication headers
+   * @throws {LinePaySignatureError} If a header is missing, the channel does not match,
+   * the signature is invalid, the nonce was replayed or the body is not JSON
+   */
+  async verify<T = unknown>(
+    request: LinePayWebhookRequest
+  ): Promise<LinePayWebhookVerificationResult<T>> {
+    const nonce = getHeader(request.headers, 'x-line-authorization-nonce')
+    const signature = getHeader(request.headers, 'x-line-authorization')
+    const channelId = getHeader(request.headers, 'x-line-channelid')
+
+    if (nonce === undefined || signature === undefined) {
+      throw new LinePaySignatureError(
+        'MISSING_HEADER',
+        'X-LINE-Authorization-Nonce and X-LINE-Authorization headers are required'
+      )
+    }
+    if (this.channelId !== undefined && channelId !== this.channelId) {
+      throw new LinePaySignatureError(
+        'CHANNEL_MISMATCH',
+        `X-LINE-ChannelId "${channelId ?? ''}" does not match the expected channel`
+      )
+    }
+
+    const rawBody =
+      typeof request.rawBody === 'string'
+        ? request.rawBody
+        : new TextDecoder().decode(request.rawBody)
+
+    const isValid = LinePayUtils.verifySignature(
+      this.channelSecret,
+      request.path,
+      rawBody,
+      nonce,
+      signature,
+      request.queryString ?? ''
+    )
+    if (!isValid) {
+      throw new LinePaySignatureError('INVALID_SIGNATURE', 'Signature verification failed')
+    }
+    if (this.nonceStore !== undefined) {
+      await assertFreshNonce(this.nonceStore, nonce, this.nonceTtl)
+    }
+
+    let body: T
+    try {
+      body = (rawBody === '' ? undefined : parseLinePayJson(rawBody, this.bigNumbers)) as T
+    } catch {
+      throw new LinePaySignatureError('INVALID_BODY', 'Request body is not valid JSON')
+    }
+
+    return { body, rawBody, nonce, signature, channelId }
+  }
+
+  /**
+   * Checks the signature of a request without throwing
+   *
+   * @param request - Raw body, headers and path of the incoming request
+   * @returns `true` if {@link verify} succeeds, `false` otherwise
+   */
+  async isValid(request: LinePayWebhookRequest): Promise<boolean> {
+    try {
+      await this.verify(request)
+      return true
+    } catch (error) {
+      if (error instanceof LinePaySignatureError) {
+        return false
+      }
+      throw error
+    }
+  }
+}
+
+/**
+ * Reads a header case-insensitively from either header representation
+ * @internal
+ */
+function getHeader(headers: LinePayWebhookHeaders, name: string): string | undefined {
+  let value: string | string[] | null | undefined
+  if (typeof headers.get === 'function') {
+    value = (headers as { get(name: string): string | null }).get(name)
+  } else {
+    const record = headers as Record<string, string | string[] | undefined>
+    const key = Object.keys(record).find((candidate) => candidate.toLowerCase() === name)
+    value = key !== undefined ? record[key] : undefined
+  }
+
+  const first = Array.isArray(value) ? value[0] : value
+  return first === undefined || first === null || first === '' ? undefined : first
+}
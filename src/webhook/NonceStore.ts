@@ -0,0 +1,201 @@
+import { LinePaySignatureError } from '../errors/LinePayError'
+import { LinePayUtils } from '../LinePayUtils'
+
+/**
+ * Default time in milliseconds a nonce is remembered (5 minutes)
+ */
+export const DEFAULT_NONCE_TTL = 5 * 60 * 1000
+
+/**
+ * Store of nonces that have already been accepted
+ *
+ * `checkAndSet` must record the nonce and report whether it was new in a single
+ * atomic step, otherwise two concurrent deliveries of the same request can both pass.
+ *
+ * For Redis-style stores, `SET key value NX PX ttl` provides exactly this contract:
+ *
+ * @example
+ * ```typescript
+ * const redisNonceStore: NonceStore = {
+ *   async checkAndSet(nonce, ttl) {
+ *     const result = await redis.set(`line-pay:nonce:${nonce}`, '1', 'PX', ttl, 'NX')
+ *     return result === 'OK'
+ *   }
+ * }
+ * ```
+ */
+export interface NonceStore {
+  /**
+   * Records a nonce if it has not been seen within its TTL
+   *
+   * @param nonce - Nonce to record
+   * @param ttl - Time in milliseconds the nonce must be remembered
+   * @returns `true` if the nonce was new, `false` if it was already recorded
+   */
+  checkAndSet(nonce: string, ttl: number): boolean | Promise<boolean>
+}
+
+/**
+ * In-Memory Nonce Store Options
+ */
+export interface InMemoryNonceStoreOptions {
+  /**
+   * Clock used to expire nonces
+   * @default Date.now
+   */
+  now?: () => number
+}
+
+/**
+ * In-memory {@link NonceStore} with per-nonce expiry
+ *
+ * Suitable for a single process. Deployments with several instances need a
+ * shared store (e.g., Redis) so a replay sent to another instance is detected.
+ *
+ * @example
+ * ```typescript
+ * const verifier = new LinePayWebhookVerifier({
+ *   channelSecret,
+ *   nonceStore: new InMemoryNonceStore()
+ * })
+ * ```
+ */
+export class InMemoryNonceStore implements NonceStore {
+  private readonly expiries = new Map<string, number>()
+  private readonly now: () => number
+  private nextSweep = 0
+
+  /**
+   * Creates a new InMemoryNonceStore instance
+   *
+   * @param options - Store options
+   */
+  constructor(options: InMemoryNonceStoreOptions = {}) {
+    this.now = options.now ?? Date.now
+  }
+
+  /**
+   * Number of nonces currently remembered (including expired ones not yet swept)
+   */
+  get size(): number {
+    return this.expiries.size
+  }
+
+  /**
+   * Records a nonce if it has not been seen within its TTL
+   *
+   * @param nonce - Nonce to record
+   * @param ttl - Time in milliseconds the nonce must be remembered
+   * @returns `true` if the nonce was new, `false` if it was already recorded
+   */
+  checkAndSet(nonce: string, ttl: number): boolean {
+    const now = this.now()
+    this.sweep(now)
+
+    const expiresAt = this.expiries.get(nonce)
+    if (expiresAt !== undefined && expiresAt > now) {
+      return false
+    }
+    this.expiries.set(nonce, now + ttl)
+    return true
+  }
+
+  /**
+   * Forgets all recorded nonces
+   */
+  clear(): void {
+    this.expiries.clear()
+    this.nextSweep = 0
+  }
+
+  /**
+   * Removes expired nonces, at most once per {@link DEFAULT_NONCE_TTL}
+   * @private
+   */
+  private sweep(now: number): void {
+    if (now < this.nextSweep) {
+      return
+    }
+    for (const [nonce, expiresAt] of this.expiries) {
+      if (expiresAt <= now) {
+        this.expiries.delete(nonce)
+      }
+    }
+    this.nextSweep = now + DEFAULT_NONCE_TTL
+  }
+}
+
+/**
+ * Rejects a nonce that has already been accepted within the TTL
+ *
+ * Call this only after the signature has been verified, so forged requests
+ * cannot fill the store.
+ *
+ * @param store - Nonce store
+ * @param nonce - Nonce from the `X-LINE-Authorization-Nonce` header
+ * @param ttl - Time in milliseconds the nonce is remembered
+ * @throws {LinePaySignatureError} With reason `REPLAYED_NONCE` if the nonce was already seen
+ */
+export async function assertFreshNonce(
+  store: NonceStore,
+  nonce: string,
+  ttl = DEFAULT_NONCE_TTL
+): Promise<void> {
+  if (!(await store.checkAndSet(nonce, ttl))) {
+    throw new LinePaySignatureError('REPLAYED_NONCE', `Nonce "${nonce}" has already been used`)
+  }
+}
+
+/**
+ * Parameters of {@link verifySignatureWithNonce}
+ */
+export interface VerifySignatureWithNonceParams {
+  secret: string
+  uri: string
+  body: string
+  nonce: string
+  signature: string
+  queryString?: string
+  nonceStore: NonceStore
+
+  /**
+   * Time in milliseconds the nonce is remembered
+   * @default DEFAULT_NONCE_TTL
+   */
+  ttl?: number
+}
+
+/**
+ * Verifies a signature with {@link LinePayUtils.verifySignature} and rejects replayed nonces
+ *
+ * @param params - Signature inputs and the nonce store
+ * @returns `true` if the signature is valid and the nonce is new, `false` otherwise
+ *
+ * @example
+ * ```typescript
+ * const isValid = await verifySignatureWithNonce({
+ *   secret: channelSecret,
+ *   uri: '/webhooks',
+ *   body: rawBody,
+ *   nonce,
+ *   signature,
+ *   nonceStore
+ * })
+ * ```
+ */
+export async function verifySignatureWithNonce(
+  params: VerifySignatureWithNonceParams
+): Promise<boolean> {
+  const isValid = LinePayUtils.verifySignature(
+    params.secret,
+    params.uri,
+    params.body,
+    params.nonce,
+    params.signature,
+    params.queryString
+  )
+  if (!isValid) {
+    return false
+  }
+  return params.nonceStore.checkAndSet(params.nonce, params.ttl ?? DEFAULT_NONCE_TTL)
+}
@@ -0,0 +1,271 @@
+import { LinePayConfigError, LinePaySignatureError } from '../errors/LinePayError'
+import type { LinePayWebhookVerifier } from './LinePayWebhookVerifier'
+import type { LinePayWebhookVerificationResult } from './types'
+
+/**
+ * Default maximum size in bytes of a webhook body read by the adapters (1 MiB)
+ */
+export const DEFAULT_WEBHOOK_MAX_BODY_SIZE = 1024 * 1024
+
+/**
+ * Options shared by the webhook adapters
+ */
+export interface LinePayWebhookAdapterOptions {
+  /**
+   * Path that LINE Pay signed, when it differs from the path the server sees
+   * (e.g., behind a reverse proxy that strips a prefix)
+   */
+  path?: string
+
+  /**
+   * Maximum body size in bytes; larger bodies are rejected with a
+   * {@link LinePaySignatureError} (`BODY_TOO_LARGE`) before being read in full. Bodies
+   * already buffered by a parser such as `express.raw()` are subject to its own `limit`.
+   * @default 1048576
+   */
+  maxBodySize?: number
+}
+
+/**
+ * Minimal shape of a Node.js `http.IncomingMessage`
+ */
+export interface LinePayNodeRequest extends AsyncIterable<Uint8Array | string> {
+  url?: string
+  headers: Record<string, string | string[] | undefined>
+}
+
+/**
+ * Minimal shape of an Express-style request
+ *
+ * The raw body is taken from `rawBody` or a `Buffer` body (e.g., `express.raw()`);
+ * otherwise the request stream is read.
+ */
+export interface LinePayExpressRequest extends LinePayNodeRequest {
+  originalUrl?: string
+  body?: unknown
+  rawBody?: string | Uint8Array
+  linePayWebhook?: LinePayWebhookVerificationResult
+}
+
+/**
+ * Express-style middleware function
+ */
+export type LinePayExpressMiddleware = (
+  req: LinePayExpressRequest,
+  res: unknown,
+  next: (error?: unknown) => void
+) => void
+
+/**
+ * Verifies a Node.js `http` request
+ *
+ * Reads the request stream, so it must not have been consumed before.
+ *
+ * @param verifier - Verifier holding the channel secret
+ * @param req - Incoming request
+ * @param options - Adapter options
+ * @returns The verification result
+ * @throws {LinePaySignatureError} If the request cannot be authenticated or its body is
+ * larger than `maxBodySize`
+ *
+ * @example
+ * ```typescript
+ * http.createServer(async (req, res) => {
+ *   try {
+ *     const { body } = await verifyNodeRequest(verifier, req)
+ *     res.writeHead(200).end()
+ *   } catch {
+ *     res.writeHead(401).end()
+ *   }
+ * })
+ * ```
+ */
+export async function verifyNodeRequest<T = unknown>(
+  verifier: LinePayWebhookVerifier,
+  req: LinePayNodeRequest,
+  options: LinePayWebhookAdapterOptions = {}
+): Promise<LinePayWebhookVerificationResult<T>> {
+  const rawBody = await readStream(req, options.maxBodySize)
+  return verifier.verify<T>({
+    rawBody,
+    headers: req.headers,
+    ...splitUrl(req.url ?? '/', options.path),
+  })
+}
+
+/**
+ * Creates an Express-style middleware that verifies LINE Pay requests
+ *
+ * On success, `req.body` is replaced with the parsed body and the full result is
+ * stored in `req.linePayWebhook`. Failures are passed to `next(error)`.
+ *
+ * Register it with `express.raw({ type: 'application/json' })` (or any parser that
+ * keeps `req.rawBody`) so the exact bytes are available; JSON-parsed bodies cannot
+ * be verified and are reported as a {@link LinePayConfigError}.
+ *
+ * @param verifier - Verifier holding the channel secret
+ * @param options - Adapter options
+ * @returns The middleware
+ *
+ * @example
+ * ```typescript
+ * app.post(
+ *   '/webhooks/line-pay',
+ *   express.raw({ type: 'application/json' }),
+ *   createExpressWebhookMiddleware(verifier),
+ *   (req, res) => {
+ *     handleNotification(req.body)
+ *     res.sendStatus(200)
+ *   }
+ * )
+ * ```
+ */
+export function createExpressWebhookMiddleware(
+  verifier: LinePayWebhookVerifier,
+  options: LinePayWebhookAdapterOptions = {}
+): LinePayExpressMiddleware {
+  return (req, _res, next) => {
+    const verify = async (): Promise<void> => {
+      const rawBody = await getExpressRawBody(req, options.maxBodySize)
+      const result = await verifier.verify({
+        rawBody,
+        headers: req.headers,
+        ...splitUrl(req.originalUrl ?? req.url ?? '/', options.path),
+      })
+      req.body = result.body
+      req.linePayWebhook = result
+    }
+
+    verify().then(
+      () => {
+        next()
+      },
+      (error: unknown) => {
+        next(error)
+      }
+    )
+  }
+}
+
+/**
+ * Verifies a WHATWG `Request` (Bun, Deno, Hono, edge runtimes)
+ *
+ * The body is read from a clone, so the original request can still be consumed.
+ *
+ * @param verifier - Verifier holding the channel secret
+ * @param request - Incoming request
+ * @param options - Adapter options
+ * @returns The verification result
+ * @throws {LinePaySignatureError} If the request cannot be authenticated or its body is
+ * larger than `maxBodySize`
+ *
+ * @example
+ * ```typescript
+ * Bun.serve({
+ *   async fetch(request) {
+ *     const { body } = await verifyFetchRequest(verifier, request)
+ *     return new Response(null, { status: 200 })
+ *   }
+ * })
+ * ```
+ */
+export async function verifyFetchRequest<T = unknown>(
+  verifier: LinePayWebhookVerifier,
+  request: Request,
+  options: LinePayWebhookAdapterOptions = {}
+): Promise<LinePayWebhookVerificationResult<T>> {
+  const { body } = request.clone()
+  const rawBody =
+    body === null ? new Uint8Array() : await readStream(iterateStream(body), options.maxBodySize)
+  const url = new URL(request.url)
+  return verifier.verify<T>({
+    rawBody,
+    headers: request.headers,
+    path: options.path ?? url.pathname,
+    queryString: url.search,
+  })
+}
+
+/**
+ * Resolves the raw body of an Express request
+ * @internal
+ */
+async function getExpressRawBody(
+  req: LinePayExpressRequest,
+  maxBodySize?: number
+): Promise<string | Uint8Array> {
+  if (req.rawBody !== undefined) {
+    return req.rawBody
+  }
+  if (req.body instanceof Uint8Array || typeof req.body === 'string') {
+    return req.body
+  }
+  if (typeof req.body === 'object' && req.body !== null && Object.keys(req.body).length > 0) {
+    throw new LinePayConfigError(
+      'Request body was already parsed; use express.raw() or keep req.rawBody to verify LINE Pay signatures'
+    )
+  }
+  return readStream(req, maxBodySize)
+}
+
+/**
+ * Iterates the chunks of a WHATWG `ReadableStream`
+ * @internal
+ */
+async function* iterateStream(stream: ReadableStream<Uint8Array>): AsyncGenerator<Uint8Array> {
+  const reader = stream.getReader()
+  try {
+    for (;;) {
+      const { done, value } = await reader.read()
+      if (done) {
+        return
+      }
+      yield value
+    }
+  } finally {
+    await reader.cancel()
+  }
+}
+
+/**
+ * Concatenates the chunks of a request stream, stopping once it exceeds `maxBodySize`
+ * @internal
+ */
+async function readStream(
+  stream: AsyncIterable<Uint8Array | string>,
+  maxBodySize = DEFAULT_WEBHOOK_MAX_BODY_SIZE
+): Promise<Uint8Array> {
+  const encoder = new TextEncoder()
+  const chunks: Uint8Array[] = []
+  let length = 0
+  for await (const chunk of stream) {
+    const bytes = typeof chunk === 'string' ? encoder.encode(chunk) : chunk
+    length += bytes.length
+    if (length > maxBodySize) {
+      throw new LinePaySignatureError(
+        'BODY_TOO_LARGE',
+        `Request body exceeds the maximum size of ${maxBodySize} bytes`
+      )
+    }
+    chunks.push(bytes)
+  }
+
+  const body = new Uint8Array(length)
+  let offset = 0
+  for (const chunk of chunks) {
+    body.set(chunk, offset)
+    offset += chunk.length
+  }
+  return body
+}
+
+/**
+ * Splits a request URL into the signed path and query string
+ * @internal
+ */
+function splitUrl(url: string, pathOverride?: string): { path: string; queryString: string } {
+  const index = url.indexOf('?')
+  const path = index === -1 ? url : url.slice(0, index)
+  const queryString = index === -1 ? '' : url.slice(index)
+  return { path: pathOverride ?? path, queryString }
+}
@@ -0,0 +1,101 @@
+import type { LinePayBigNumberMode } from '../http/json'
+import type { NonceStore } from './NonceStore'
+
+/**
+ * Webhook Verifier Configuration
+ */
+export interface LinePayWebhookVerifierConfig {
+  /**
+   * Channel Secret used by LINE Pay to sign the requests
+   */
+  channelSecret: string
+
+  /**
+   * Expected Channel ID. When set, requests whose `X-LINE-ChannelId` header
+   * differs are rejected.
+   */
+  channelId?: string
+
+  /**
+   * Store used to reject replayed nonces. Replay protection is disabled when omitted.
+   */
+  nonceStore?: NonceStore
+
+  /**
+   * Time in milliseconds a nonce is remembered by the store
+   * @default 300000
+   */
+  nonceTtl?: number
+
+  /**
+   * Representation of integers beyond `Number.MAX_SAFE_INTEGER` in the parsed body
+   * @default 'string'
+   */
+  bigNumbers?: LinePayBigNumberMode
+}
+
+/**
+ * Headers of an incoming request
+ *
+ * Accepts both Node.js style header objects (lower-cased keys, array values)
+ * and WHATWG `Headers`.
+ */
+export type LinePayWebhookHeaders =
+  | Record<string, string | string[] | undefined>
+  | { get(name: string): string | null }
+
+/**
+ * Incoming webhook or callback request to verify
+ */
+export interface LinePayWebhookRequest {
+  /**
+   * Body exactly as received, before any JSON parsing
+   */
+  rawBody: string | Uint8Array
+
+  /**
+   * Request headers
+   */
+  headers: LinePayWebhookHeaders
+
+  /**
+   * Request path without the query string (e.g., '/webhooks/line-pay')
+   */
+  path: string
+
+  /**
+   * Query string as it appears in the URL, including the leading '?'
+   * @default ''
+   */
+  queryString?: string
+}
+
+/**
+ * Result of a successful verification
+ */
+export interface LinePayWebhookVerificationResult<T = unknown> {
+  /**
+   * Parsed JSON body (`undefined` when the body is empty)
+   */
+  body: T
+
+  /**
+   * Body as the UTF-8 string that was signed
+   */
+  rawBody: string
+
+  /**
+   * Value of the `X-LINE-Authorization-Nonce` header
+   */
+  nonce: string
+
+  /**
+   * Value of the `X-LINE-Authorization` header
+   */
+  signature: string
+
+  /**
+   * Value of the `X-LINE-ChannelId` header, if present
+   */
+  channelId?: string
+}
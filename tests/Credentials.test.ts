@@ -0,0 +1,196 @@
+import { afterAll, describe, expect, test } from 'bun:test'
+import { randomBytes } from 'node:crypto'
+import { mkdtemp, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { LinePaySecret } from '../src/credentials/LinePaySecret'
+import {
+  createEncryptedFileCredentialProvider,
+  createEnvCredentialProvider,
+  encryptLinePaySecret,
+  LinePayCredentialCache,
+} from '../src/credentials/providers'
+import { LinePayConfigError } from '../src/errors/LinePayError'
+import { LinePayOnlineClient } from '../src/online/LinePayOnlineClient'
+import { createTestClient } from './helpers/createTestClient'
+
+const SUCCESS = JSON.stringify({ returnCode: '0000', returnMessage: 'OK', info: [] })
+
+describe('LinePaySecret', () => {
+  test('should only expose the value through reveal', () => {
+    const secret = new LinePaySecret('channel-secret')
+
+    expect(secret.reveal()).toBe('channel-secret')
+    expect(JSON.stringify({ secret })).toBe('{"secret":"[REDACTED]"}')
+    expect(String(secret)).toBe('[REDACTED]')
+    expect(Bun.inspect(secret)).not.toContain('channel-secret')
+    expect(Object.keys(secret)).toEqual([])
+  })
+})
+
+describe('createEnvCredentialProvider', () => {
+  test('should read the variable', () => {
+    const provider = createEnvCredentialProvider('SHOP_SECRET', { SHOP_SECRET: 'from-env' })
+
+    expect(provider()).toBe('from-env')
+  })
+
+  test('should throw LinePayConfigError when the variable is not set', () => {
+    const provider = createEnvCredentialProvider('SHOP_SECRET', {})
+
+    expect(() => provider()).toThrow('Environment variable SHOP_SECRET is not set')
+  })
+})
+
+describe('createEncryptedFileCredentialProvider', () => {
+  const dir = mkdtemp(join(tmpdir(), 'line-pay-credentials-'))
+  const key = randomBytes(32)
+
+  afterAll(async () => {
+    await rm(await dir, { recursive: true, force: true })
+  })
+
+  test('should decrypt a file written with encryptLinePaySecret', async () => {
+    const path = join(await dir, 'secret')
+    await writeFile(path, encryptLinePaySecret('file-secret', key))
+
+    const provider = createEncryptedFileCredentialProvider({ path, key: key.toString('base64') })
+
+    expect(await provider()).toBe('file-secret')
+  })
+
+  test('should throw LinePayConfigError for a wrong key or format', async () => {
+    const path = join(await dir, 'other')
+    await writeFile(path, encryptLinePaySecret('file-secret', key))
+    const wrongKey = createEncryptedFileCredentialProvider({ path, key: randomBytes(32) })
+
+    await expect(wrongKey()).rejects.toThrow(`Failed to decrypt secret file: ${path}`)
+
+    await writeFile(path, 'plain-secret')
+    await expect(createEncryptedFileCredentialProvider({ path, key })()).rejects.toThrow(
+      `Unsupported secret file format: ${path}`
+    )
+  })
+
+  test('should reject keys that are not 32 bytes', () => {
+    expect(() => encryptLinePaySecret('secret', randomBytes(16))).toThrow(LinePayConfigError)
+  })
+})
+
+describe('LinePayCredentialCache', () => {
+  test('should share concurrent resolutions', async () => {
+    let calls = 0
+    const cache = new LinePayCredentialCache(async () => {
+      calls++
+      return ' secret '
+    })
+
+    expect(cache.current).toBeUndefined()
+    expect(await Promise.all([cache.resolve(), cache.resolve()])).toEqual(['secret', 'secret'])
+    expect(calls).toBe(1)
+  })
+
+  test('should wrap provider failures and reject empty secrets', async () => {
+    const failing = new LinePayCredentialCache(() => Promise.reject(new Error('unavailable')))
+    const empty = new LinePayCredentialCache(() => '')
+
+    await expect(failing.resolve()).rejects.toThrow('Failed to resolve channelSecret: unavailable')
+    await expect(empty.resolve()).rejects.toThrow('channelSecret is required and cannot be empty')
+  })
+
+  test('should reject an invalid TTL', () => {
+    expect(() => new LinePayCredentialCache({ provider: () => 'secret', ttl: 0 })).toThrow(
+      'credentials.ttl must be a positive number'
+    )
+  })
+})
+
+describe('Client credentials', () => {
+  function createClient(
+    credentials: ConstructorParameters<typeof LinePayOnlineClient>[0]['credentials']
+  ) {
+    return createTestClient(
+      LinePayOnlineClient,
+      { channelSecret: undefined, credentials, maxRetries: 0 },
+      () => ({ status: 200, headers: {}, text: SUCCESS })
+    )
+  }
+
+  test('should resolve the secret lazily and refresh it after the TTL', async () => {
+    let secret = 'first-secret'
+    let calls = 0
+    const { client, requests } = createClient({
+      provider: () => {
+        calls++
+        return secret
+      },
+      ttl: 50,
+    })
+
+    expect(calls).toBe(0)
+    await client.checkPaymentStatus('2024123112345678901')
+    await client.checkPaymentStatus('2024123112345678901')
+    expect(calls).toBe(1)
+
+    secret = 'second-secret'
+    await Bun.sleep(60)
+    await client.checkPaymentStatus('2024123112345678901')
+
+    expect(calls).toBe(2)
+    expect(requests[2]?.headers['X-LINE-Authorization']).not.toBe(
+      requests[0]?.headers['X-LINE-Authorization']
+    )
+  })
+
+  test('should resolve again on refreshCredentials', async () => {
+    let calls = 0
+    const { client } = createClient(() => {
+      calls++
+      return 'secret'
+    })
+
+    await client.checkPaymentStatus('2024123112345678901')
+    await client.refreshCredentials()
+
+    expect(calls).toBe(2)
+  })
+
+  test('should fail requests with LinePayConfigError when the provider fails', async () => {
+    const { client, requests } = createClient(() => {
+      throw new Error('secret manager unavailable')
+    })
+
+    await expect(client.checkPaymentStatus('2024123112345678901')).rejects.toThrow(
+      'Failed to resolve channelSecret: secret manager unavailable'
+    )
+    expect(requests).toHaveLength(0)
+  })
+
+  test('should not leak the secret through serialization or inspection', async () => {
+    const { client } = createClient(() => 'provider-secret')
+    const fixed = new LinePayOnlineClient({
+      channelId: '1234567890',
+      channelSecret: 'fixed-secret',
+    })
+    await client.refreshCredentials()
+
+    expect(JSON.stringify(client)).not.toContain('provider-secret')
+    expect(Bun.inspect(client)).not.toContain('provider-secret')
+    expect(JSON.stringify(fixed)).not.toContain('fixed-secret')
+    expect(Bun.inspect(fixed)).not.toContain('fixed-secret')
+  })
+
+  test('should require exactly one of channelSecret and credentials', () => {
+    expect(() => new LinePayOnlineClient({ channelId: '1234567890' })).toThrow(
+      'channelSecret is required and cannot be empty'
+    )
+    expect(
+      () =>
+        new LinePayOnlineClient({
+          channelId: '1234567890',
+          channelSecret: 'secret',
+          credentials: () => 'secret',
+        })
+    ).toThrow('channelSecret and credentials cannot both be set')
+  })
+})
@@ -5,6 +5,7 @@ import {
   LinePayTimeoutError,
   LinePayValidationError,
 } from '../src/errors/LinePayError'
+import { getReturnCodeDefinition, LINE_PAY_RETURN_CODES } from '../src/errors/returnCodes'
 
 describe('LinePayError', () => {
   test('should create error with all properties', () => {
@@ -263,3 +264,66 @@ describe('Error hierarchy', () => {
     })
   })
 })
+
+describe('Return code catalog', () => {
+  test('should describe documented return codes', () => {
+    const definition = getReturnCodeDefinition('1172')
+
+    expect(definition).toEqual({
+      code: '1172',
+      description: 'A transaction with the same orderId already exists',
+      category: 'transaction',
+      retryable: false,
+      userActionable: false,
+      httpStatus: 409,
+    })
+  })
+
+  test('should describe the documented payment (2xxx) codes', () => {
+    expect(Object.keys(LINE_PAY_RETURN_CODES).filter((code) => code.startsWith('2'))).toEqual([
+      '2042',
+      '2101',
+      '2102',
+    ])
+
+    const error = new LinePayError('2042', 'Refund failed', 200)
+    expect(error.definition?.category).toBe('merchant')
+    expect(error.isRetryable).toBe(false)
+    expect(error.isUserActionable).toBe(false)
+  })
+
+  test('should key every entry by its own code', () => {
+    for (const [code, definition] of Object.entries(LINE_PAY_RETURN_CODES)) {
+      expect(definition.code).toBe(code)
+    }
+  })
+
+  test('should return undefined for undocumented codes', () => {
+    expect(getReturnCodeDefinition('PARSE_ERROR')).toBeUndefined()
+    expect(getReturnCodeDefinition('toString')).toBeUndefined()
+  })
+
+  test('should expose the definition on LinePayError', () => {
+    const error = new LinePayError('1142', 'Insufficient balance', 200)
+
+    expect(error.definition?.category).toBe('user')
+    expect(error.isUserActionable).toBe(true)
+    expect(error.isRetryable).toBe(false)
+  })
+
+  test('should mark transient codes as retryable', () => {
+    expect(new LinePayError('9000', 'Internal error', 200).isRetryable).toBe(true)
+    expect(new LinePayError('1280', 'Temporary error', 200).isRetryable).toBe(true)
+    expect(new LinePayError('1104', 'Merchant not registered', 200).isRetryable).toBe(false)
+  })
+
+  test('should fall back to the HTTP status for undocumented codes', () => {
+    const serverError = new LinePayError('HTTP_ERROR', 'Bad Gateway', 502)
+    const clientError = new LinePayError('HTTP_ERROR', 'Not Found', 404)
+
+    expect(serverError.definition).toBeUndefined()
+    expect(serverError.isRetryable).toBe(true)
+    expect(clientError.isRetryable).toBe(false)
+    expect(clientError.isUserActionable).toBe(false)
+  })
+})
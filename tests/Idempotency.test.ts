@@ -0,0 +1,246 @@
+import { describe, expect, test } from 'bun:test'
+import { LinePayConfigError, LinePayError, LinePayTimeoutError } from '../src/errors/LinePayError'
+import { InMemoryIdempotencyStore } from '../src/idempotency/IdempotencyStore'
+import type { LinePayLogEntry } from '../src/logging/types'
+import { LinePayOnlineClient } from '../src/online/LinePayOnlineClient'
+import { createTestClient, jsonResponse } from './helpers/createTestClient'
+
+const TRANSACTION_ID = '2024123112345678901'
+const CONFIRM_BODY = { amount: 100, currency: 'TWD' } as const
+
+function createClient(
+  returnCodes: string[],
+  store = new InMemoryIdempotencyStore(),
+  channelId = '1234567890'
+) {
+  const { client, requests } = createTestClient(
+    LinePayOnlineClient,
+    { channelId, idempotency: { store } },
+    (_request, index) => {
+      const returnCode = returnCodes[index] ?? '0000'
+      return jsonResponse({
+        returnCode,
+        returnMessage: 'Message',
+        info: returnCode === '0000' ? { transactionId: TRANSACTION_ID } : undefined,
+      })
+    }
+  )
+  return { client, requests, store }
+}
+
+describe('Idempotency', () => {
+  test('should return the stored response for a duplicate confirm', async () => {
+    const { client, requests } = createClient(['0000'])
+
+    const first = await client.confirm(TRANSACTION_ID, CONFIRM_BODY)
+    const second = await client.confirm(TRANSACTION_ID, CONFIRM_BODY)
+
+    expect(requests).toHaveLength(1)
+    expect(second).toEqual(first)
+  })
+
+  test('should share an in-flight request between concurrent calls', async () => {
+    const { client, requests } = createClient(['0000'])
+
+    const [first, second] = await Promise.all([
+      client.capture(TRANSACTION_ID, CONFIRM_BODY),
+      client.capture(TRANSACTION_ID, CONFIRM_BODY),
+    ])
+
+    expect(requests).toHaveLength(1)
+    expect(second).toBe(first)
+  })
+
+  test('should share the store between clients of the same channel', async () => {
+    const store = new InMemoryIdempotencyStore()
+    const first = createClient(['0000'], store)
+    const second = createClient(['0000'], store)
+    const otherChannel = createClient(['0000'], store, '9999999999')
+
+    await first.client.confirm(TRANSACTION_ID, CONFIRM_BODY)
+    await second.client.confirm(TRANSACTION_ID, CONFIRM_BODY)
+    await otherChannel.client.confirm(TRANSACTION_ID, CONFIRM_BODY)
+
+    expect(second.requests).toHaveLength(0)
+    expect(otherChannel.requests).toHaveLength(1)
+  })
+
+  test('should turn already-processed return codes into a typed result', async () => {
+    const { client } = createClient(['1172'])
+
+    const response = await client.confirm(TRANSACTION_ID, CONFIRM_BODY)
+
+    expect(response).toEqual({
+      returnCode: '1172',
+      returnMessage: 'Message',
+      alreadyProcessed: true,
+      operation: 'confirm',
+    })
+  })
+
+  test('should only accept the already-processed codes of the operation', async () => {
+    const { client } = createClient(['1165', '1172'])
+
+    const refund = await client.refund(TRANSACTION_ID)
+    expect('alreadyProcessed' in refund).toBe(true)
+
+    await expect(client.capture(TRANSACTION_ID, CONFIRM_BODY)).rejects.toThrow(LinePayError)
+  })
+
+  test('should forget failed operations so they can be attempted again', async () => {
+    const { client, requests, store } = createClient(['1104', '0000'])
+
+    await expect(client.confirm(TRANSACTION_ID, CONFIRM_BODY)).rejects.toThrow(LinePayError)
+    expect(store.get(`1234567890:confirm:${TRANSACTION_ID}`)).toBeUndefined()
+
+    const response = await client.confirm(TRANSACTION_ID, CONFIRM_BODY)
+
+    expect(requests).toHaveLength(2)
+    expect(response.returnCode).toBe('0000')
+  })
+
+  test('should only deduplicate partial refunds with an idempotency key', async () => {
+    const { client, requests } = createClient([])
+
+    await client.refund(TRANSACTION_ID, { refundAmount: 100 })
+    await client.refund(TRANSACTION_ID, { refundAmount: 100 })
+    await client.refund(TRANSACTION_ID, { refundAmount: 20 }, { idempotencyKey: 'refund-3' })
+    await client.refund(TRANSACTION_ID, { refundAmount: 20 }, { idempotencyKey: 'refund-3' })
+    await client.refund(TRANSACTION_ID)
+    await client.refund(TRANSACTION_ID)
+
+    expect(requests).toHaveLength(4)
+  })
+
+  test('should scope caller-supplied keys to the channel and operation', async () => {
+    const store = new InMemoryIdempotencyStore()
+    const first = createClient([], store)
+    const otherChannel = createClient([], store, '9999999999')
+
+    await first.client.refund(TRANSACTION_ID, { refundAmount: 20 }, { idempotencyKey: 'key-1' })
+    await first.client.capture(TRANSACTION_ID, CONFIRM_BODY, { idempotencyKey: 'key-1' })
+    await otherChannel.client.refund(
+      TRANSACTION_ID,
+      { refundAmount: 20 },
+      { idempotencyKey: 'key-1' }
+    )
+
+    expect(first.requests).toHaveLength(2)
+    expect(otherChannel.requests).toHaveLength(1)
+    expect(store.get('1234567890:refund:key-1')).toMatchObject({ status: 'completed' })
+  })
+
+  test('should return the result when the completed record cannot be saved', async () => {
+    const store = new InMemoryIdempotencyStore()
+    const set = store.set.bind(store)
+    store.set = (key, record, ttl) => {
+      if (record.status === 'completed') {
+        throw new Error('store unavailable')
+      }
+      set(key, record, ttl)
+    }
+    const entries: LinePayLogEntry[] = []
+    const { client, requests } = createTestClient(
+      LinePayOnlineClient,
+      {
+        idempotency: { store },
+        logger: {
+          debug: () => undefined,
+          info: () => undefined,
+          warn: () => undefined,
+          error: (entry) => entries.push(entry),
+        },
+      },
+      () => jsonResponse({ returnCode: '0000', returnMessage: 'Success', info: {} })
+    )
+
+    const response = await client.confirm(TRANSACTION_ID, CONFIRM_BODY)
+
+    expect(response.returnCode).toBe('0000')
+    expect(requests).toHaveLength(1)
+    expect(entries.map((entry) => entry.event)).toEqual(['idempotency.error'])
+  })
+
+  test('should throw a retryable error while the same request is being processed', async () => {
+    const { client, store } = createClient(['1198'])
+
+    const error = await client.confirm(TRANSACTION_ID, CONFIRM_BODY).catch((caught) => caught)
+
+    expect(error).toBeInstanceOf(LinePayError)
+    expect(error.isRetryable).toBe(true)
+    expect(store.get(`1234567890:confirm:${TRANSACTION_ID}`)).toBeUndefined()
+  })
+
+  test('should wait for a pending claim of another client sharing the store', async () => {
+    const store = new InMemoryIdempotencyStore()
+    const first = createClient(['0000'], store)
+    const second = createClient(['0000'], store)
+
+    const [firstResponse, secondResponse] = await Promise.all([
+      first.client.confirm(TRANSACTION_ID, CONFIRM_BODY),
+      second.client.confirm(TRANSACTION_ID, CONFIRM_BODY),
+    ])
+
+    expect(first.requests.length + second.requests.length).toBe(1)
+    expect(secondResponse).toEqual(firstResponse)
+  })
+
+  test('should time out while another client holds the key', async () => {
+    const store = new InMemoryIdempotencyStore()
+    store.set(`1234567890:confirm:${TRANSACTION_ID}`, { status: 'pending', startedAt: 0 }, 60000)
+    const client = new LinePayOnlineClient({
+      channelId: '1234567890',
+      channelSecret: 'secret',
+      idempotency: { store, pendingTimeout: 50 },
+      transport: async () => ({ status: 200, headers: {}, text: '{"returnCode":"0000"}' }),
+    })
+
+    await expect(client.confirm(TRANSACTION_ID, CONFIRM_BODY)).rejects.toBeInstanceOf(
+      LinePayTimeoutError
+    )
+  })
+
+  test('should claim a key only once', () => {
+    const store = new InMemoryIdempotencyStore()
+
+    expect(store.setIfAbsent('key', { status: 'pending', startedAt: 0 }, 1000)).toBe(true)
+    expect(store.setIfAbsent('key', { status: 'pending', startedAt: 1 }, 1000)).toBe(false)
+    expect(store.get('key')).toEqual({ status: 'pending', startedAt: 0 })
+  })
+
+  test('should not change behavior when idempotency is disabled', async () => {
+    const client = new LinePayOnlineClient({
+      channelId: '1234567890',
+      channelSecret: 'secret',
+      transport: async () => ({
+        status: 200,
+        headers: {},
+        text: JSON.stringify({ returnCode: '1172', returnMessage: 'Existing same orderId' }),
+      }),
+    })
+
+    await expect(client.confirm(TRANSACTION_ID, CONFIRM_BODY)).rejects.toThrow(LinePayError)
+  })
+
+  test('should expire records after the TTL', () => {
+    let now = 0
+    const store = new InMemoryIdempotencyStore({ now: () => now })
+
+    store.set('key', { status: 'pending', startedAt: 0 }, 1000)
+    expect(store.get('key')).toEqual({ status: 'pending', startedAt: 0 })
+
+    now = 1000
+    expect(store.get('key')).toBeUndefined()
+  })
+
+  test('should reject a non-positive TTL', () => {
+    expect(
+      () =>
+        new LinePayOnlineClient({
+          channelId: '1234567890',
+          channelSecret: 'secret',
+          idempotency: { store: new InMemoryIdempotencyStore(), ttl: 0 },
+        })
+    ).toThrow(LinePayConfigError)
+  })
+})
@@ -0,0 +1,182 @@
+import { describe, expect, test } from 'bun:test'
+import { LinePayError, LinePayTimeoutError } from '../src/errors/LinePayError'
+import { LinePayOnlineClient } from '../src/online/LinePayOnlineClient'
+import {
+  createLinePayInstrumentation,
+  getErrorCategory,
+  type LinePayMeter,
+  type LinePayTelemetryAttributes,
+  type LinePayTracer,
+  toPathTemplate,
+} from '../src/telemetry/instrumentation'
+import { createTestClient, jsonResponse } from './helpers/createTestClient'
+
+const TRANSACTION_ID = '2024123112345678901'
+
+function createTelemetry() {
+  const spans: {
+    name: string
+    attributes: LinePayTelemetryAttributes
+    status?: { code: number; message?: string }
+    exceptions: Error[]
+    ended: boolean
+  }[] = []
+  const measurements: { name: string; value: number; attributes?: LinePayTelemetryAttributes }[] =
+    []
+  const tracer: LinePayTracer = {
+    startSpan(name, options) {
+      const span = {
+        name,
+        attributes: { ...options?.attributes },
+        exceptions: [] as Error[],
+        ended: false,
+      } as (typeof spans)[number]
+      spans.push(span)
+      return {
+        setAttributes: (attributes) => Object.assign(span.attributes, attributes),
+        setStatus: (status) => {
+          span.status = status
+        },
+        recordException: (exception) => {
+          span.exceptions.push(exception)
+        },
+        end: () => {
+          span.ended = true
+        },
+      }
+    },
+  }
+  const meter: LinePayMeter = {
+    createCounter: (name) => ({
+      add: (value, attributes) => measurements.push({ name, value, attributes }),
+    }),
+    createHistogram: (name) => ({
+      record: (value, attributes) => measurements.push({ name, value, attributes }),
+    }),
+  }
+  return { spans, measurements, tracer, meter }
+}
+
+function createClient(statuses: number[], returnCodes: string[]) {
+  return createTestClient(
+    LinePayOnlineClient,
+    { retry: { maxAttempts: 2, baseDelay: 1, jitter: false } },
+    (_request, index) =>
+      jsonResponse(
+        { returnCode: returnCodes[index] ?? '0000', returnMessage: 'Message' },
+        statuses[index] ?? 200
+      )
+  ).client
+}
+
+describe('createLinePayInstrumentation', () => {
+  test('should record a span and metrics for a successful request', async () => {
+    const { spans, measurements, tracer, meter } = createTelemetry()
+    const client = createClient([200], ['0000']).use(
+      createLinePayInstrumentation({ tracer, meter })
+    )
+
+    await client.checkPaymentStatus(TRANSACTION_ID)
+
+    expect(spans).toHaveLength(1)
+    expect(spans[0]).toMatchObject({
+      name: 'LINE Pay GET /v3/payments/requests/{transactionId}/check',
+      attributes: {
+        'http.request.method': 'GET',
+        'http.route': '/v3/payments/requests/{transactionId}/check',
+        'http.response.status_code': 200,
+        'line_pay.return_code': '0000',
+        'line_pay.attempt': 1,
+      },
+      status: { code: 1 },
+      ended: true,
+    })
+    expect(measurements.map((entry) => entry.name)).toEqual([
+      'line_pay.client.requests',
+      'line_pay.client.duration',
+    ])
+  })
+
+  test('should record one span per attempt and count errors by category', async () => {
+    const { spans, measurements, tracer, meter } = createTelemetry()
+    const client = createClient([500, 200], ['9000', '1104']).use(
+      createLinePayInstrumentation({ tracer, meter })
+    )
+
+    await expect(client.checkPaymentStatus(TRANSACTION_ID)).rejects.toThrow(LinePayError)
+
+    expect(spans.map((span) => span.attributes['line_pay.attempt'])).toEqual([1, 2])
+    expect(spans.map((span) => span.status?.code)).toEqual([2, 2])
+    expect(spans[0]?.exceptions[0]).toBeInstanceOf(LinePayError)
+    expect(
+      measurements
+        .filter((entry) => entry.name === 'line_pay.client.errors')
+        .map((entry) => entry.attributes?.['line_pay.error_category'])
+    ).toEqual(['internal', 'auth'])
+  })
+
+  test('should run the transport inside the active request span', async () => {
+    const { spans, tracer } = createTelemetry()
+    let active: unknown
+    const activeTracer: LinePayTracer = {
+      startSpan: tracer.startSpan,
+      startActiveSpan(name, options, fn) {
+        const span = tracer.startSpan(name, options)
+        active = spans[spans.length - 1]
+        try {
+          return fn(span)
+        } finally {
+          active = undefined
+        }
+      },
+    }
+    const observed: unknown[] = []
+    const { client } = createTestClient(LinePayOnlineClient, {}, () => {
+      observed.push(active)
+      return jsonResponse({ returnCode: '0000', returnMessage: 'OK' })
+    })
+    client.use(createLinePayInstrumentation({ tracer: activeTracer })).use({
+      aroundSend: (request, _context, next) => {
+        observed.push(active)
+        return next(request)
+      },
+    })
+
+    await client.checkPaymentStatus(TRANSACTION_ID)
+
+    expect(spans).toHaveLength(1)
+    expect(observed).toEqual([spans[0], spans[0]])
+    expect(spans[0]).toMatchObject({ status: { code: 1 }, ended: true })
+  })
+
+  test('should work without a tracer or meter', async () => {
+    const client = createClient([200], ['0000']).use(createLinePayInstrumentation())
+
+    await expect(client.checkPaymentStatus(TRANSACTION_ID)).resolves.toBeDefined()
+  })
+})
+
+describe('toPathTemplate', () => {
+  test('should replace transaction IDs, order IDs and regKeys', () => {
+    expect(toPathTemplate(`/v3/payments/${TRANSACTION_ID}/confirm`)).toBe(
+      '/v3/payments/{transactionId}/confirm'
+    )
+    expect(toPathTemplate('/v4/payments/orders/ORDER_1/check')).toBe(
+      '/v4/payments/orders/{orderId}/check'
+    )
+    expect(toPathTemplate('/v3/payments/preapprovedPay/RK9A8B7C6D5E4F3/payment')).toBe(
+      '/v3/payments/preapprovedPay/{regKey}/payment'
+    )
+    expect(toPathTemplate('/v3/payments/request')).toBe('/v3/payments/request')
+  })
+})
+
+describe('getErrorCategory', () => {
+  test('should classify errors', () => {
+    expect(getErrorCategory(new LinePayError('1104', 'Auth', 200))).toBe('auth')
+    expect(getErrorCategory(new LinePayError('2101', 'Parameter', 200))).toBe('payment')
+    expect(getErrorCategory(new LinePayError('9000', 'Internal', 500))).toBe('internal')
+    expect(getErrorCategory(new LinePayTimeoutError(1000, 'https://example.test'))).toBe('timeout')
+    expect(getErrorCategory(new Error('network'))).toBe('other')
+  })
+})
@@ -1,7 +1,18 @@
 import { afterAll, beforeAll, describe, expect, test } from 'bun:test'
 import type { LinePayConfig } from '../src/config/types'
-import { LinePayConfigError, LinePayError, LinePayTimeoutError } from '../src/errors/LinePayError'
-import { LinePayBaseClient, type LinePayBaseResponse } from '../src/LinePayBaseClient'
+import {
+  LinePayConfigError,
+  LinePayError,
+  LinePayNetworkError,
+  LinePayTimeoutError,
+} from '../src/errors/LinePayError'
+import type { LinePayRequestContext } from '../src/http/middleware'
+import type { LinePayTransport, LinePayTransportRequest } from '../src/http/transport'
+import {
+  LinePayBaseClient,
+  type LinePayBaseResponse,
+  type LinePayRequestOptions,
+} from '../src/LinePayBaseClient'
 
 // Test implementation of abstract LinePayBaseClient
 class TestLinePayClient extends LinePayBaseClient {
@@ -9,9 +20,10 @@ class TestLinePayClient extends LinePayBaseClient {
     method: 'GET' | 'POST',
     path: string,
     body?: unknown,
-    params?: Record<string, string>
+    params?: Record<string, string>,
+    options?: LinePayRequestOptions
   ): Promise<T> {
-    return this.sendRequest<T>(method, path, body, params)
+    return this.sendRequest<T>(method, path, body, params, undefined, options)
   }
 
   // Expose protected properties for testing
@@ -32,6 +44,9 @@ class TestLinePayClient extends LinePayBaseClient {
   }
 }
 
+// Nonces received by the flaky endpoint, used to verify retry behaviour
+const flakyNonces: string[] = []
+
 // Mock server setup
 const mockServer = Bun.serve({
   port: 0, // Use random available port
@@ -114,6 +129,22 @@ const mockServer = Bun.serve({
       )
     }
 
+    // Fails with an internal error until the third call
+    if (path === '/flaky') {
+      flakyNonces.push(req.headers.get('X-LINE-Authorization-Nonce') ?? '')
+      const failed = flakyNonces.length < 3
+      return new Response(
+        JSON.stringify({
+          returnCode: failed ? '9000' : '0000',
+          returnMessage: failed ? 'Internal error' : 'Success',
+        }),
+        {
+          status: failed ? 500 : 200,
+          headers: { 'Content-Type': 'application/json' },
+        }
+      )
+    }
+
     return new Response('Not Found', { status: 404 })
   },
 })
@@ -250,7 +281,7 @@ describe('LinePayBaseClient', () => {
     beforeAll(() => {
       // Create client with mock base URL
       const config: LinePayConfig = {
-        channelId: 'test-channel-id',
+        channelId: '1234567890',
         channelSecret: 'test-channel-secret',
         baseUrl: mockBaseUrl,
       }
@@ -317,7 +348,7 @@ describe('LinePayBaseClient', () => {
     test('should throw LinePayTimeoutError on timeout', async () => {
       // Create client with short timeout
       const timeoutClient = new TestLinePayClient({
-        channelId: 'test',
+        channelId: '1234567890',
         channelSecret: 'secret',
         timeout: 100,
         baseUrl: mockBaseUrl,
@@ -336,6 +367,319 @@ describe('LinePayBaseClient', () => {
     }, 10000) // Increase test timeout
   })
 
+  describe('retry', () => {
+    const createRetryClient = (maxAttempts: number) =>
+      new TestLinePayClient({
+        channelId: '1234567890',
+        channelSecret: 'secret',
+        baseUrl: mockBaseUrl,
+        retry: { maxAttempts, baseDelay: 1, jitter: false },
+      })
+
+    test('should retry GET requests with a fresh nonce on each attempt', async () => {
+      flakyNonces.length = 0
+      const response = await createRetryClient(3).testRequest('GET', '/flaky')
+
+      expect(response.returnCode).toBe('0000')
+      expect(flakyNonces).toHaveLength(3)
+      expect(new Set(flakyNonces).size).toBe(3)
+    })
+
+    test('should record attempts on the final error', async () => {
+      flakyNonces.length = 0
+      try {
+        await createRetryClient(2).testRequest('GET', '/flaky')
+        expect(true).toBe(false)
+      } catch (error) {
+        expect(error).toBeInstanceOf(LinePayError)
+        if (error instanceof LinePayError) {
+          expect(error.returnCode).toBe('9000')
+          expect(error.attempts).toBe(2)
+        }
+      }
+    })
+
+    test('should not retry POST requests unless opted in', async () => {
+      flakyNonces.length = 0
+      const client = createRetryClient(3)
+
+      await expect(client.testRequest('POST', '/flaky', {})).rejects.toThrow(LinePayError)
+      expect(flakyNonces).toHaveLength(1)
+
+      const response = await client.testRequest('POST', '/flaky', {}, undefined, { retry: true })
+      expect(response.returnCode).toBe('0000')
+      expect(flakyNonces).toHaveLength(3)
+    })
+
+    test('should not retry non-retryable errors', async () => {
+      try {
+        await createRetryClient(3).testRequest('GET', '/api-error')
+        expect(true).toBe(false)
+      } catch (error) {
+        expect(error).toBeInstanceOf(LinePayError)
+        if (error instanceof LinePayError) {
+          expect(error.attempts).toBe(1)
+        }
+      }
+    })
+
+    test('should throw LinePayConfigError for invalid maxAttempts', () => {
+      expect(() => createRetryClient(0)).toThrow('retry.maxAttempts must be a positive integer')
+    })
+
+    test('should reject non-finite delays', () => {
+      expect(
+        () =>
+          new TestLinePayClient({
+            channelId: '1234567890',
+            channelSecret: 'secret',
+            retry: { baseDelay: Number.NaN },
+          })
+      ).toThrow('retry.baseDelay must be a non-negative finite number')
+      expect(
+        () =>
+          new TestLinePayClient({
+            channelId: '1234567890',
+            channelSecret: 'secret',
+            retry: { maxDelay: Number.POSITIVE_INFINITY },
+          })
+      ).toThrow('retry.maxDelay must be a non-negative finite number')
+    })
+
+    test('should retry transport failures as LinePayNetworkError', async () => {
+      let calls = 0
+      const client = new TestLinePayClient({
+        channelId: '1234567890',
+        channelSecret: 'secret',
+        retry: { maxAttempts: 3, baseDelay: 1, jitter: false },
+        transport: async () => {
+          calls++
+          throw new TypeError('fetch failed')
+        },
+      })
+
+      const error = await client.testRequest('GET', '/v3/payments').catch((caught) => caught)
+
+      expect(error).toBeInstanceOf(LinePayNetworkError)
+      expect(error.message).toBe('Network error: fetch failed')
+      expect(error.cause).toBeInstanceOf(TypeError)
+      expect(error.attempts).toBe(3)
+      expect(calls).toBe(3)
+    })
+
+    test('should not retry errors thrown by middleware', async () => {
+      let calls = 0
+      const client = new TestLinePayClient({
+        channelId: '1234567890',
+        channelSecret: 'secret',
+        retry: { maxAttempts: 3, baseDelay: 1, jitter: false },
+        transport: async () => {
+          calls++
+          return { status: 200, headers: {}, text: '{"returnCode":"0000"}' }
+        },
+        middleware: [
+          {
+            afterResponse: () => {
+              throw new TypeError('bad middleware')
+            },
+          },
+        ],
+      })
+
+      await expect(client.testRequest('GET', '/v3/payments')).rejects.toBeInstanceOf(TypeError)
+      expect(calls).toBe(1)
+    })
+  })
+
+  describe('transport', () => {
+    test('should send signed requests through a custom transport', async () => {
+      const requests: LinePayTransportRequest[] = []
+      const transport: LinePayTransport = async (request) => {
+        requests.push(request)
+        return {
+          status: 200,
+          headers: {},
+          text: JSON.stringify({
+            returnCode: '0000',
+            returnMessage: 'Success',
+            info: { ok: true },
+          }),
+        }
+      }
+      const client = new TestLinePayClient({
+        channelId: '1234567890',
+        channelSecret: 'secret',
+        baseUrl: 'https://example.test',
+        transport,
+      })
+
+      const response = await client.testRequest('POST', '/v3/payments/request', { amount: 100 })
+
+      expect(response.info).toEqual({ ok: true })
+      expect(requests).toHaveLength(1)
+      expect(requests[0]?.url).toBe('https://example.test/v3/payments/request')
+      expect(requests[0]?.body).toBe('{"amount":100}')
+      expect(requests[0]?.headers['X-LINE-ChannelId']).toBe('1234567890')
+      expect(requests[0]?.headers['X-LINE-Authorization']).toBeDefined()
+    })
+
+    test('should throw LinePayError with HTTP_ERROR when transport returns a non-2xx status', async () => {
+      const client = new TestLinePayClient({
+        channelId: '1234567890',
+        channelSecret: 'secret',
+        transport: async () => ({
+          status: 503,
+          statusText: 'Service Unavailable',
+          headers: {},
+          text: '{}',
+        }),
+      })
+
+      try {
+        await client.testRequest('GET', '/v3/payments')
+        expect(true).toBe(false)
+      } catch (error) {
+        expect(error).toBeInstanceOf(LinePayError)
+        if (error instanceof LinePayError) {
+          expect(error.returnCode).toBe('HTTP_ERROR')
+          expect(error.returnMessage).toBe('Service Unavailable')
+          expect(error.httpStatus).toBe(503)
+        }
+      }
+    })
+
+    test('should throw LinePayTimeoutError when transport is aborted', async () => {
+      const client = new TestLinePayClient({
+        channelId: '1234567890',
+        channelSecret: 'secret',
+        timeout: 10,
+        transport: (request) =>
+          new Promise((_, reject) => {
+            request.signal.addEventListener('abort', () => reject(new Error('aborted')))
+          }),
+      })
+
+      await expect(client.testRequest('GET', '/v3/payments')).rejects.toThrow(LinePayTimeoutError)
+    })
+  })
+
+  describe('middleware', () => {
+    const successTransport: LinePayTransport = async (request) => ({
+      status: 200,
+      headers: {},
+      text: JSON.stringify({
+        returnCode: '0000',
+        returnMessage: 'Success',
+        info: { body: request.body, traceId: request.headers['X-Trace-Id'] },
+      }),
+    })
+
+    test('should run hooks in order with a populated context', async () => {
+      const calls: string[] = []
+      let finalContext: LinePayRequestContext | undefined
+      const client = new TestLinePayClient({
+        channelId: '1234567890',
+        channelSecret: 'secret',
+        transport: successTransport,
+        middleware: [
+          {
+            beforeSign(ctx) {
+              calls.push('beforeSign')
+              expect(ctx.headers['X-LINE-Authorization']).toBeUndefined()
+              ctx.body = { amount: 200 }
+              ctx.headers['X-Trace-Id'] = 'trace-1'
+            },
+          },
+        ],
+      })
+      client.use({
+        afterSign(ctx) {
+          calls.push('afterSign')
+          expect(ctx.headers['X-LINE-Authorization']).toBeDefined()
+          expect(ctx.headers['X-LINE-Authorization-Nonce']).toBe(ctx.nonce)
+        },
+        afterResponse(ctx) {
+          calls.push('afterResponse')
+          finalContext = ctx
+        },
+      })
+
+      const response = await client.testRequest<
+        LinePayBaseResponse<{ body: string; traceId: string }>
+      >('POST', '/v3/payments/request', { amount: 100 })
+
+      expect(calls).toEqual(['beforeSign', 'afterSign', 'afterResponse'])
+      expect(response.info).toEqual({ body: '{"amount":200}', traceId: 'trace-1' })
+      expect(finalContext?.attempt).toBe(1)
+      expect(finalContext?.httpStatus).toBe(200)
+      expect(finalContext?.response).toBe(response)
+      expect(finalContext?.timings.duration).toBeGreaterThanOrEqual(0)
+    })
+
+    test('should call onError for every failed attempt', async () => {
+      const failures: LinePayRequestContext[] = []
+      const client = new TestLinePayClient({
+        channelId: '1234567890',
+        channelSecret: 'secret',
+        retry: { maxAttempts: 2, baseDelay: 1, jitter: false },
+        transport: async () => ({
+          status: 500,
+          headers: {},
+          text: JSON.stringify({ returnCode: '9000', returnMessage: 'Internal error' }),
+        }),
+      }).use({
+        onError(ctx) {
+          failures.push(ctx)
+        },
+      })
+
+      await expect(client.testRequest('GET', '/v3/payments')).rejects.toThrow(LinePayError)
+      expect(failures.map((ctx) => ctx.attempt)).toEqual([1, 2])
+      expect(failures[0]?.error).toBeInstanceOf(LinePayError)
+      expect(failures[0]?.nonce).not.toBe(failures[1]?.nonce)
+    })
+
+    test('should wrap the transport with aroundSend, first middleware outermost', async () => {
+      const calls: string[] = []
+      let transportCalls = 0
+      const client = new TestLinePayClient({
+        channelId: '1234567890',
+        channelSecret: 'secret',
+        transport: async (request) => {
+          transportCalls++
+          return successTransport(request)
+        },
+        middleware: [
+          {
+            async aroundSend(request, _ctx, next) {
+              calls.push('outer')
+              const response = await next(request)
+              calls.push('outer:done')
+              return response
+            },
+          },
+          {
+            async aroundSend(request) {
+              calls.push('inner')
+              expect(request.headers['X-LINE-Authorization']).toBeDefined()
+              return {
+                status: 200,
+                headers: {},
+                text: JSON.stringify({ returnCode: '0000', returnMessage: 'Stubbed' }),
+              }
+            },
+          },
+        ],
+      })
+
+      const response = await client.testRequest('GET', '/v3/payments')
+
+      expect(response.returnMessage).toBe('Stubbed')
+      expect(calls).toEqual(['outer', 'inner', 'outer:done'])
+      expect(transportCalls).toBe(0)
+    })
+  })
+
   describe('LinePayBaseResponse interface', () => {
     test('should have correct structure', () => {
       const response: LinePayBaseResponse<{ test: string }> = {
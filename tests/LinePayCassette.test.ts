@@ -0,0 +1,201 @@
+import { afterAll, describe, expect, test } from 'bun:test'
+import { mkdtemp, readFile, rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import type { LinePayRequestContext } from '../src/http/middleware'
+import { LinePayOfflineClient } from '../src/offline/LinePayOfflineClient'
+import { LinePayOnlineClient } from '../src/online/LinePayOnlineClient'
+import { LinePayPreapprovedClient } from '../src/preapproved/LinePayPreapprovedClient'
+import { LinePayCassette } from '../src/testing/LinePayCassette'
+import { createTestClient, jsonResponse } from './helpers/createTestClient'
+
+const TRANSACTION_ID = '2024123112345678901'
+const REG_KEY = 'RK9A1B2C3D4E5F6'
+const ONE_TIME_KEY = '123456789012'
+const directory = await mkdtemp(join(tmpdir(), 'line-pay-cassette-'))
+
+afterAll(async () => {
+  await rm(directory, { recursive: true, force: true })
+})
+
+function createClient(cassette: LinePayCassette) {
+  return createTestClient(
+    LinePayOnlineClient,
+    {
+      channelSecret: 'cassette-secret',
+      baseUrl: 'https://sandbox.test',
+      middleware: [cassette],
+    },
+    (_request, index) => ({
+      status: 200,
+      headers: { 'content-type': 'application/json' },
+      text: JSON.stringify({
+        returnCode: '0000',
+        returnMessage: `Success ${index + 1}`,
+        info: { transactionId: TRANSACTION_ID },
+      }),
+    })
+  )
+}
+
+describe('LinePayCassette', () => {
+  test('should record traffic without secrets and replay it offline', async () => {
+    const path = join(directory, 'confirm.json')
+    const recorder = await LinePayCassette.open({ path, mode: 'record' })
+    const recording = createClient(recorder).client
+
+    await recording.confirm(TRANSACTION_ID, { amount: 100, currency: 'TWD' })
+    await recording.confirm(TRANSACTION_ID, { amount: 100, currency: 'TWD' })
+    await recorder.save()
+
+    const content = await readFile(path, 'utf-8')
+    expect(content).not.toContain('cassette-secret')
+    expect(content).not.toContain('X-LINE-Authorization')
+    expect(recorder.interactions).toHaveLength(2)
+    expect(recorder.interactions[0]?.request).toMatchObject({
+      method: 'POST',
+      path: `/v3/payments/${TRANSACTION_ID}/confirm`,
+      body: { amount: 100, currency: 'TWD' },
+    })
+
+    const player = await LinePayCassette.open({ path, mode: 'replay' })
+    const { client: replaying, requests } = createClient(player)
+
+    const first = await replaying.confirm(TRANSACTION_ID, { currency: 'TWD', amount: 100 })
+    const second = await replaying.confirm(TRANSACTION_ID, { amount: 100, currency: 'TWD' })
+
+    expect(requests).toHaveLength(0)
+    expect(first.returnMessage).toBe('Success 1')
+    expect(second.returnMessage).toBe('Success 2')
+    await expect(
+      replaying.confirm(TRANSACTION_ID, { amount: 100, currency: 'TWD' })
+    ).rejects.toThrow('No recorded response')
+  })
+
+  test('should match on query and normalized body', async () => {
+    const path = join(directory, 'details.json')
+    const normalizeBody = (body: unknown) =>
+      body !== null && typeof body === 'object' ? { ...body, orderId: '<order>' } : body
+    const recorder = new LinePayCassette({ path, mode: 'record', normalizeBody })
+    const recording = createClient(recorder).client
+
+    await recording.getPaymentDetails({ transactionId: [TRANSACTION_ID] })
+    await recording.requestPayment({
+      amount: 100,
+      currency: 'TWD',
+      orderId: 'ORDER_1',
+      packages: [
+        {
+          id: 'PKG_1',
+          amount: 100,
+          products: [{ name: 'Product', quantity: 1, price: 100 }],
+        },
+      ],
+      redirectUrls: {
+        confirmUrl: 'https://example.com/confirm',
+        cancelUrl: 'https://example.com/cancel',
+      },
+    })
+    await recorder.save()
+
+    const player = await LinePayCassette.open({ path, mode: 'replay', normalizeBody })
+    const replaying = createClient(player).client
+
+    await expect(
+      replaying.getPaymentDetails({ transactionId: ['9999999999999999999'] })
+    ).rejects.toThrow('No recorded response for GET /v3/payments')
+    await replaying.getPaymentDetails({ transactionId: [TRANSACTION_ID] })
+    const response = await replaying.requestPayment({
+      amount: 100,
+      currency: 'TWD',
+      orderId: 'ORDER_2',
+      packages: [
+        {
+          id: 'PKG_1',
+          amount: 100,
+          products: [{ name: 'Product', quantity: 1, price: 100 }],
+        },
+      ],
+      redirectUrls: {
+        confirmUrl: 'https://example.com/confirm',
+        cancelUrl: 'https://example.com/cancel',
+      },
+    })
+
+    expect(response.returnCode).toBe('0000')
+  })
+
+  test('should keep repeated query parameters', async () => {
+    const path = join(directory, 'repeated.json')
+    const otherId = '2024123112345678902'
+    const recorder = new LinePayCassette({ path, mode: 'record' })
+
+    await createClient(recorder).client.getPaymentDetails({
+      transactionId: [TRANSACTION_ID, otherId],
+    })
+    await recorder.save()
+
+    expect(recorder.interactions[0]?.request.query).toEqual({
+      transactionId: [TRANSACTION_ID, otherId],
+    })
+    const player = await LinePayCassette.open({ path, mode: 'replay' })
+    const replaying = createClient(player).client
+    await expect(replaying.getPaymentDetails({ transactionId: [otherId] })).rejects.toThrow(
+      'No recorded response'
+    )
+    await expect(
+      replaying.getPaymentDetails({ transactionId: [TRANSACTION_ID, otherId] })
+    ).resolves.toMatchObject({ returnCode: '0000' })
+  })
+
+  test('should mask regKeys and oneTimeKeys in recorded traffic', async () => {
+    const path = join(directory, 'keys.json')
+    const recorder = new LinePayCassette({ path, mode: 'record' })
+    const preapproved = createTestClient(LinePayPreapprovedClient, { middleware: [recorder] }, () =>
+      jsonResponse({ returnCode: '0000', returnMessage: 'OK', info: { regKey: REG_KEY } })
+    ).client
+    const offline = createTestClient(LinePayOfflineClient, {
+      merchantDeviceProfileId: 'POS-001',
+      middleware: [recorder],
+    }).client
+    const payment = { productName: 'Plan', amount: 100, currency: 'TWD', orderId: 'ORDER_1' }
+
+    await preapproved.payPreapproved(REG_KEY, payment)
+    await offline.payWithOneTimeKey({ ...payment, oneTimeKey: ONE_TIME_KEY })
+    await recorder.save()
+
+    const content = await readFile(path, 'utf-8')
+    expect(content).not.toContain(REG_KEY)
+    expect(content).not.toContain(ONE_TIME_KEY)
+
+    const player = await LinePayCassette.open({ path, mode: 'replay' })
+    const replaying = createTestClient(LinePayPreapprovedClient, { middleware: [player] }).client
+    await expect(replaying.payPreapproved(REG_KEY, payment)).resolves.toMatchObject({
+      returnCode: '0000',
+    })
+  })
+
+  test('should keep large integers in request bodies intact', async () => {
+    const recorder = new LinePayCassette({ path: join(directory, 'big.json'), mode: 'record' })
+    const send = (cassette: LinePayCassette, transactionId: string) =>
+      cassette.aroundSend(
+        {
+          method: 'POST',
+          url: 'https://example.test/v3/payments/test',
+          headers: {},
+          body: `{"transactionId":${transactionId}}`,
+          signal: new AbortController().signal,
+        },
+        { nonce: 'nonce' } as LinePayRequestContext,
+        async () => jsonResponse({ returnCode: '0000', returnMessage: 'OK' })
+      )
+
+    await send(recorder, TRANSACTION_ID)
+    await recorder.save()
+
+    expect(recorder.interactions[0]?.request.body).toEqual({ transactionId: TRANSACTION_ID })
+    const player = await LinePayCassette.open({ path: join(directory, 'big.json'), mode: 'replay' })
+    await expect(send(player, '2024123112345678900')).rejects.toThrow('No recorded response')
+    await expect(send(player, TRANSACTION_ID)).resolves.toMatchObject({ status: 200 })
+  })
+})
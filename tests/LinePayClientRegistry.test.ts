@@ -0,0 +1,188 @@
+import { describe, expect, test } from 'bun:test'
+import { createHash } from 'node:crypto'
+import { inspect } from 'node:util'
+import type { LinePayConfig } from '../src/config/types'
+import { LinePayConfigError } from '../src/errors/LinePayError'
+import { LinePayOnlineClient } from '../src/online/LinePayOnlineClient'
+import { LinePayClientRegistry } from '../src/registry/LinePayClientRegistry'
+
+function createRegistry(
+  options: { maxClients?: number; configTtl?: number; now?: () => number } = {}
+) {
+  const secrets = new Map([
+    ['merchant-a', 'secret-a'],
+    ['merchant-b', 'secret-b'],
+    ['merchant-c', 'secret-c'],
+  ])
+  const resolved: string[] = []
+  const created: string[] = []
+  const registry = new LinePayClientRegistry({
+    resolveConfig: async (merchantKey): Promise<LinePayConfig | undefined> => {
+      resolved.push(merchantKey)
+      const channelSecret = secrets.get(merchantKey)
+      return channelSecret === undefined ? undefined : { channelId: '1234567890', channelSecret }
+    },
+    createClient: (config, merchantKey) => {
+      created.push(merchantKey)
+      return new LinePayOnlineClient(config)
+    },
+    ...options,
+  })
+  return { registry, secrets, resolved, created }
+}
+
+describe('LinePayClientRegistry', () => {
+  test('should cache clients per merchant', async () => {
+    const { registry, resolved } = createRegistry()
+
+    const first = await registry.get('merchant-a')
+    const second = await registry.get('merchant-a')
+    const other = await registry.get('merchant-b')
+
+    expect(second).toBe(first)
+    expect(other).not.toBe(first)
+    expect(resolved).toEqual(['merchant-a', 'merchant-b'])
+  })
+
+  test('should share concurrent resolutions', async () => {
+    const { registry, resolved } = createRegistry()
+
+    const [first, second] = await Promise.all([
+      registry.get('merchant-a'),
+      registry.get('merchant-a'),
+    ])
+
+    expect(second).toBe(first)
+    expect(resolved).toEqual(['merchant-a'])
+  })
+
+  test('should evict the least recently used client', async () => {
+    const { registry, created } = createRegistry({ maxClients: 2 })
+
+    await registry.get('merchant-a')
+    await registry.get('merchant-b')
+    await registry.get('merchant-a')
+    await registry.get('merchant-c')
+    await registry.get('merchant-a')
+    await registry.get('merchant-b')
+
+    expect(registry.size).toBe(2)
+    expect(created).toEqual(['merchant-a', 'merchant-b', 'merchant-c', 'merchant-b'])
+  })
+
+  test('should pick up rotated secrets after the config TTL', async () => {
+    let now = 0
+    const { registry, secrets, resolved } = createRegistry({ configTtl: 1000, now: () => now })
+
+    const first = await registry.get('merchant-a')
+    now = 1000
+    const unchanged = await registry.get('merchant-a')
+    secrets.set('merchant-a', 'rotated-secret')
+    now = 2000
+    const rotated = await registry.get('merchant-a')
+
+    expect(unchanged).toBe(first)
+    expect(rotated).not.toBe(first)
+    expect(resolved).toEqual(['merchant-a', 'merchant-a', 'merchant-a'])
+  })
+
+  test('should rebuild the client when any setting changes', async () => {
+    let now = 0
+    let env: LinePayConfig['env'] = 'sandbox'
+    const registry = new LinePayClientRegistry({
+      resolveConfig: () => ({ channelId: '1234567890', channelSecret: 'secret-a', env }),
+      createClient: (config) => new LinePayOnlineClient(config),
+      configTtl: 1000,
+      now: () => now,
+    })
+
+    const sandbox = await registry.get('merchant-a')
+    env = 'production'
+    now = 1000
+    const production = await registry.get('merchant-a')
+
+    expect(production).not.toBe(sandbox)
+    expect((production as unknown as { baseUrl: string }).baseUrl).toBe('https://api-pay.line.me')
+  })
+
+  test('should not keep the channel secret', async () => {
+    const { registry } = createRegistry()
+
+    await registry.get('merchant-a')
+
+    const state = inspect(registry, { depth: Number.POSITIVE_INFINITY })
+    const unkeyedHash = createHash('sha256')
+      .update(JSON.stringify({ channelId: '1234567890', channelSecret: 'secret-a' }))
+      .digest('hex')
+    expect(state).not.toContain('secret-a')
+    expect(state).not.toContain(unkeyedHash)
+  })
+
+  test('should resolve again after invalidate', async () => {
+    const { registry, secrets } = createRegistry()
+
+    const first = await registry.get('merchant-a')
+    secrets.set('merchant-a', 'rotated-secret')
+
+    expect(registry.invalidate('merchant-a')).toBe(true)
+    expect(await registry.get('merchant-a')).not.toBe(first)
+  })
+
+  test('should not cache a client resolved before invalidate', async () => {
+    let release: () => void = () => undefined
+    const blocked = new Promise<void>((resolve) => {
+      release = resolve
+    })
+    const registry = new LinePayClientRegistry({
+      resolveConfig: async () => {
+        await blocked
+        return { channelId: '1234567890', channelSecret: 'secret' }
+      },
+      createClient: (config) => new LinePayOnlineClient(config),
+    })
+
+    const stale = registry.get('merchant-a')
+    registry.invalidate('merchant-a')
+    release()
+    const staleClient = await stale
+
+    expect(registry.size).toBe(0)
+    expect(await registry.get('merchant-a')).not.toBe(staleClient)
+  })
+
+  test('should throw LinePayConfigError with the merchant key', async () => {
+    const { registry } = createRegistry()
+    const failing = new LinePayClientRegistry({
+      resolveConfig: () => Promise.reject(new Error('secret manager unavailable')),
+      createClient: (config) => new LinePayOnlineClient(config),
+    })
+    const invalid = new LinePayClientRegistry({
+      resolveConfig: () => ({ channelId: '1234567890', channelSecret: ' ' }),
+      createClient: (config) => new LinePayOnlineClient(config),
+    })
+
+    const unknown = await registry.get('merchant-x').catch((error) => error)
+    expect(unknown).toBeInstanceOf(LinePayConfigError)
+    expect(unknown.merchantKey).toBe('merchant-x')
+    expect(unknown.message).toBe('No LINE Pay credentials found for merchant "merchant-x"')
+
+    await expect(failing.get('merchant-a')).rejects.toThrow(
+      'Failed to resolve LINE Pay credentials for merchant "merchant-a": secret manager unavailable'
+    )
+    await expect(invalid.get('merchant-a')).rejects.toThrow(
+      'Invalid LINE Pay configuration for merchant "merchant-a": channelSecret is required'
+    )
+    expect(registry.size).toBe(0)
+  })
+
+  test('should reject an invalid maxClients', () => {
+    expect(
+      () =>
+        new LinePayClientRegistry({
+          resolveConfig: () => undefined,
+          createClient: (config) => new LinePayOnlineClient(config),
+          maxClients: 0,
+        })
+    ).toThrow(LinePayConfigError)
+  })
+})
@@ -0,0 +1,116 @@
+import { describe, expect, test } from 'bun:test'
+import { LinePayError, LinePayValidationError } from '../src/errors/LinePayError'
+import { InMemoryIdempotencyStore } from '../src/idempotency/IdempotencyStore'
+import { LinePayConfirmHandler } from '../src/online/LinePayConfirmHandler'
+import { LinePayOnlineClient } from '../src/online/LinePayOnlineClient'
+import type { ExpectedPayment } from '../src/online/types'
+import { createTestClient, jsonResponse } from './helpers/createTestClient'
+
+const TRANSACTION_ID = '2024123112345678901'
+const QUERY = { transactionId: TRANSACTION_ID, orderId: 'ORDER-001' }
+const EXPECTED: ExpectedPayment = { amount: 100, currency: 'TWD' }
+
+function createHandler(
+  returnCode = '0000',
+  { resolved = EXPECTED as ExpectedPayment | null, idempotent = false } = {}
+) {
+  const { client, requests } = createTestClient(
+    LinePayOnlineClient,
+    { idempotency: idempotent ? { store: new InMemoryIdempotencyStore() } : undefined },
+    () =>
+      jsonResponse({
+        returnCode,
+        returnMessage: 'Message',
+        info: { orderId: 'ORDER-001', transactionId: TRANSACTION_ID, payInfo: [] },
+      })
+  )
+  const resolverCalls: unknown[][] = []
+  const handler = new LinePayConfirmHandler(client, {
+    resolvePayment: async (...args) => {
+      resolverCalls.push(args)
+      return resolved ?? undefined
+    },
+  })
+  return { handler, requests, resolverCalls }
+}
+
+describe('LinePayConfirmHandler', () => {
+  test('should confirm with the resolved amount', async () => {
+    const { handler, requests, resolverCalls } = createHandler()
+
+    const result = await handler.handle(QUERY)
+
+    expect(result.status).toBe('confirmed')
+    expect(resolverCalls).toEqual([['ORDER-001', TRANSACTION_ID]])
+    expect(JSON.parse(requests[0]?.body ?? '')).toEqual(EXPECTED)
+  })
+
+  test('should take the orderId from the response when the query has none', async () => {
+    const { handler } = createHandler()
+
+    const result = await handler.handle({ transactionId: TRANSACTION_ID })
+
+    expect(result).toMatchObject({ status: 'confirmed', orderId: 'ORDER-001' })
+  })
+
+  test('should report an amount mismatch', async () => {
+    const { handler } = createHandler('1153')
+
+    const result = await handler.handle(QUERY)
+
+    expect(result.status).toBe('amount_mismatch')
+    if (result.status === 'amount_mismatch') {
+      expect(result.expected).toEqual(EXPECTED)
+      expect(result.error.returnCode).toBe('1153')
+    }
+  })
+
+  test('should report an already confirmed payment', async () => {
+    const withoutStore = await createHandler('1172').handler.handle(QUERY)
+    const withStore = await createHandler('1172', { idempotent: true }).handler.handle(QUERY)
+
+    expect(withoutStore).toMatchObject({ status: 'already_confirmed', returnCode: '1172' })
+    expect(withStore).toMatchObject({ status: 'already_confirmed', returnCode: '1172' })
+  })
+
+  test('should fail without calling the API for an invalid callback', async () => {
+    const { handler, requests } = createHandler()
+
+    const result = await handler.handle({ transactionId: '12345', orderId: 'ORDER-001' })
+
+    expect(result).toMatchObject({ status: 'failed', transactionId: '12345', orderId: 'ORDER-001' })
+    if (result.status === 'failed') {
+      expect(result.error).toBeInstanceOf(LinePayValidationError)
+    }
+    expect(requests).toHaveLength(0)
+  })
+
+  test('should fail for an unknown order', async () => {
+    const { handler, requests } = createHandler('0000', { resolved: null })
+
+    const result = await handler.handle(QUERY)
+
+    expect(result.status).toBe('failed')
+    expect(requests).toHaveLength(0)
+  })
+
+  test('should report API errors as failed', async () => {
+    const { handler } = createHandler('1104')
+
+    const result = await handler.handle(QUERY)
+
+    expect(result.status).toBe('failed')
+    if (result.status === 'failed') {
+      expect(result.error).toBeInstanceOf(LinePayError)
+    }
+  })
+
+  test('should report a cancelled payment', () => {
+    const { handler } = createHandler()
+
+    expect(handler.handleCancel({ transactionId: [TRANSACTION_ID], orderId: '' })).toEqual({
+      status: 'cancelled',
+      transactionId: TRANSACTION_ID,
+    })
+  })
+})
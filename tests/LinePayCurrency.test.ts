@@ -0,0 +1,77 @@
+import { describe, expect, test } from 'bun:test'
+import { LinePayValidationError } from '../src/errors/LinePayError'
+import { LinePayCurrencyUtils } from '../src/LinePayCurrency'
+
+describe('LinePayCurrencyUtils', () => {
+  describe('isSupportedCurrency', () => {
+    test('should accept LINE Pay currencies only', () => {
+      for (const currency of ['TWD', 'JPY', 'THB', 'USD']) {
+        expect(LinePayCurrencyUtils.isSupportedCurrency(currency)).toBe(true)
+      }
+      expect(LinePayCurrencyUtils.isSupportedCurrency('EUR')).toBe(false)
+      expect(LinePayCurrencyUtils.isSupportedCurrency('toString')).toBe(false)
+    })
+  })
+
+  describe('isValidAmount', () => {
+    test('should reject decimals for zero-decimal currencies', () => {
+      expect(LinePayCurrencyUtils.isValidAmount(100, 'TWD')).toBe(true)
+      expect(LinePayCurrencyUtils.isValidAmount(100.1, 'TWD')).toBe(false)
+      expect(LinePayCurrencyUtils.isValidAmount(0.5, 'JPY')).toBe(false)
+    })
+
+    test('should accept up to two decimals for THB and USD', () => {
+      expect(LinePayCurrencyUtils.isValidAmount(100.1, 'THB')).toBe(true)
+      expect(LinePayCurrencyUtils.isValidAmount(19.99, 'USD')).toBe(true)
+      expect(LinePayCurrencyUtils.isValidAmount(1.005, 'USD')).toBe(false)
+    })
+
+    test('should reject negative and non-finite amounts', () => {
+      expect(LinePayCurrencyUtils.isValidAmount(-1, 'TWD')).toBe(false)
+      expect(LinePayCurrencyUtils.isValidAmount(Number.NaN, 'TWD')).toBe(false)
+      expect(LinePayCurrencyUtils.isValidAmount(Number.POSITIVE_INFINITY, 'USD')).toBe(false)
+    })
+  })
+
+  describe('validateAmount', () => {
+    test('should throw LinePayValidationError with the amount field', () => {
+      try {
+        LinePayCurrencyUtils.validateAmount(100.1, 'TWD')
+        expect(true).toBe(false)
+      } catch (error) {
+        expect(error).toBeInstanceOf(LinePayValidationError)
+        if (error instanceof LinePayValidationError) {
+          expect(error.field).toBe('amount')
+          expect(error.message).toContain('TWD')
+        }
+      }
+    })
+
+    test('should report unsupported currencies on the currency field', () => {
+      try {
+        LinePayCurrencyUtils.validateAmount(100, 'EUR')
+        expect(true).toBe(false)
+      } catch (error) {
+        expect(error).toBeInstanceOf(LinePayValidationError)
+        if (error instanceof LinePayValidationError) {
+          expect(error.field).toBe('currency')
+        }
+      }
+    })
+  })
+
+  describe('minor units', () => {
+    test('should convert to and from minor units', () => {
+      expect(LinePayCurrencyUtils.toMinorUnits(19.99, 'USD')).toBe(1999)
+      expect(LinePayCurrencyUtils.toMinorUnits(1.1, 'THB')).toBe(110)
+      expect(LinePayCurrencyUtils.toMinorUnits(500, 'JPY')).toBe(500)
+      expect(LinePayCurrencyUtils.fromMinorUnits(1999, 'USD')).toBe(19.99)
+      expect(LinePayCurrencyUtils.fromMinorUnits(500, 'TWD')).toBe(500)
+    })
+
+    test('should add amounts without floating point drift', () => {
+      expect(LinePayCurrencyUtils.sum([0.1, 0.2], 'USD')).toBe(0.3)
+      expect(LinePayCurrencyUtils.sum([100, 200], 'TWD')).toBe(300)
+    })
+  })
+})
@@ -0,0 +1,160 @@
+import { afterAll, afterEach, beforeAll, describe, expect, test } from 'bun:test'
+import { LinePayError, LinePayTimeoutError } from '../src/errors/LinePayError'
+import { LinePayOnlineClient } from '../src/online/LinePayOnlineClient'
+import type { PaymentRequestBody } from '../src/online/types'
+import * as testing from '../src/testing'
+import { type LinePayMockServer, startLinePayMockServer } from '../src/testing/LinePayMockServer'
+
+let server: LinePayMockServer
+let client: LinePayOnlineClient
+
+function paymentBody(orderId: string, capture = true): PaymentRequestBody {
+  return {
+    amount: 100,
+    currency: 'TWD',
+    orderId,
+    packages: [{ id: 'pkg', amount: 100, products: [{ name: 'Coffee', quantity: 1, price: 100 }] }],
+    redirectUrls: { confirmUrl: 'https://example.com/ok', cancelUrl: 'https://example.com/ng' },
+    options: { payment: { capture } },
+  }
+}
+
+beforeAll(async () => {
+  server = await startLinePayMockServer()
+  client = new LinePayOnlineClient({
+    channelId: server.channelId,
+    channelSecret: server.channelSecret,
+    baseUrl: server.baseUrl,
+    timeout: 200,
+  })
+})
+
+afterEach(() => {
+  server.reset()
+})
+
+afterAll(async () => {
+  await server.close()
+})
+
+describe('LinePayMockServer', () => {
+  test('should run the request, confirm and refund flow', async () => {
+    const { info } = await client.requestPayment(paymentBody('ORDER-001'))
+
+    expect(server.getTransaction(info.transactionId)?.status).toBe('APPROVED')
+    expect((await client.checkPaymentStatus(info.transactionId)).returnCode).toBe('0110')
+
+    const confirmed = await client.confirm(info.transactionId, { amount: 100, currency: 'TWD' })
+    expect(confirmed.returnCode).toBe('0000')
+
+    await client.refund(info.transactionId, { refundAmount: 40 })
+    await client.refund(info.transactionId)
+
+    const transaction = server.getTransaction(info.transactionId)
+    expect(transaction?.status).toBe('REFUNDED')
+    expect(transaction?.refunds.map((refund) => refund.refundAmount)).toEqual([40, 60])
+
+    const details = await client.getPaymentDetails({ orderId: ['ORDER-001'] })
+    expect(details.info[0]?.refundList).toHaveLength(2)
+  })
+
+  test('should capture or void authorized payments', async () => {
+    const first = await client.requestPayment(paymentBody('ORDER-002', false))
+    const second = await client.requestPayment(paymentBody('ORDER-003', false))
+
+    await client.confirm(first.info.transactionId, { amount: 100, currency: 'TWD' })
+    await client.confirm(second.info.transactionId, { amount: 100, currency: 'TWD' })
+    await client.capture(first.info.transactionId, { amount: 100, currency: 'TWD' })
+    await client.void(second.info.transactionId)
+
+    expect(server.getTransaction(first.info.transactionId)?.status).toBe('CAPTURED')
+    expect(server.getTransaction(second.info.transactionId)?.status).toBe('VOIDED')
+    await expect(client.void(second.info.transactionId)).rejects.toThrow(LinePayError)
+
+    const details = await client.getPaymentDetails({
+      transactionId: [first.info.transactionId, second.info.transactionId],
+    })
+    expect(details.info.map((detail) => detail.transactionId)).toEqual([
+      first.info.transactionId,
+      second.info.transactionId,
+    ])
+  })
+
+  test('should enforce the LINE Pay rules', async () => {
+    const { info } = await client.requestPayment(paymentBody('ORDER-004'))
+
+    await expect(client.requestPayment(paymentBody('ORDER-004'))).rejects.toMatchObject({
+      returnCode: '1172',
+    })
+    await expect(
+      client.confirm(info.transactionId, { amount: 99, currency: 'TWD' })
+    ).rejects.toMatchObject({ returnCode: '1153' })
+  })
+
+  test('should wait for user approval when autoApprove is disabled', async () => {
+    const manual = await startLinePayMockServer({ autoApprove: false })
+    const manualClient = new LinePayOnlineClient({
+      channelId: manual.channelId,
+      channelSecret: manual.channelSecret,
+      baseUrl: manual.baseUrl,
+    })
+
+    try {
+      const { info } = await manualClient.requestPayment(paymentBody('ORDER-005'))
+      expect((await manualClient.checkPaymentStatus(info.transactionId)).returnCode).toBe('0000')
+
+      manual.approve(info.transactionId)
+      const response = await manualClient.confirm(info.transactionId, {
+        amount: 100,
+        currency: 'TWD',
+      })
+      expect(response.returnCode).toBe('0000')
+    } finally {
+      await manual.close()
+    }
+  })
+
+  test('should reject requests with an invalid signature', async () => {
+    const forged = new LinePayOnlineClient({
+      channelId: server.channelId,
+      channelSecret: 'wrong-secret',
+      baseUrl: server.baseUrl,
+    })
+
+    await expect(forged.requestPayment(paymentBody('ORDER-006'))).rejects.toMatchObject({
+      returnCode: '1106',
+      httpStatus: 401,
+    })
+  })
+
+  test('should apply scripted failures', async () => {
+    server
+      .fail({ path: '/v3/payments/request', returnCode: '1104', httpStatus: 400 })
+      .fail({ malformed: true })
+      .fail({ delay: 1000 })
+
+    await expect(client.requestPayment(paymentBody('ORDER-007'))).rejects.toMatchObject({
+      returnCode: '1104',
+    })
+    await expect(client.requestPayment(paymentBody('ORDER-007'))).rejects.toMatchObject({
+      returnCode: 'PARSE_ERROR',
+    })
+    await expect(client.requestPayment(paymentBody('ORDER-007'))).rejects.toThrow(
+      LinePayTimeoutError
+    )
+
+    const response = await client.requestPayment(paymentBody('ORDER-007'))
+    expect(response.returnCode).toBe('0000')
+  })
+})
+
+describe('Testing entry point', () => {
+  test('should export the test helpers from the testing entry point only', async () => {
+    const root = await import('../src/index')
+
+    expect(testing.startLinePayMockServer).toBe(startLinePayMockServer)
+    expect(testing.LinePayCassette).toBeDefined()
+    expect('startLinePayMockServer' in root).toBe(false)
+    expect('LinePayCassette' in root).toBe(false)
+  })
+})
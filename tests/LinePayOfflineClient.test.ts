@@ -0,0 +1,90 @@
+import { describe, expect, test } from 'bun:test'
+import { LinePayConfigError, LinePayValidationError } from '../src/errors/LinePayError'
+import { LinePayOfflineClient } from '../src/offline/LinePayOfflineClient'
+import { createTestClient, jsonResponse } from './helpers/createTestClient'
+
+function createClient(info: unknown = {}) {
+  return createTestClient(LinePayOfflineClient, { merchantDeviceProfileId: 'POS-001' }, () =>
+    jsonResponse({ returnCode: '0000', returnMessage: 'Success', info })
+  )
+}
+
+describe('LinePayOfflineClient', () => {
+  test('should pay with a one-time key and send device headers', async () => {
+    const { client, requests } = createClient({ transactionId: '2024123112345678901' })
+
+    await client.payWithOneTimeKey({
+      productName: 'Coffee',
+      amount: 100,
+      currency: 'TWD',
+      orderId: 'ORDER-001',
+      oneTimeKey: '123456789012',
+    })
+
+    expect(requests[0]?.method).toBe('POST')
+    expect(requests[0]?.url).toBe('https://example.test/v4/payments/oneTimeKeys/pay')
+    expect(requests[0]?.headers['X-LINE-MerchantDeviceProfileId']).toBe('POS-001')
+    expect(requests[0]?.headers['X-LINE-MerchantDeviceType']).toBe('POS')
+  })
+
+  test('should address follow-up operations by order ID', async () => {
+    const { client, requests } = createClient()
+
+    await client.getPaymentStatus('ORDER/001')
+    await client.capture('ORDER-001', { amount: 100, currency: 'TWD' })
+    await client.void('ORDER-001')
+    await client.refund('ORDER-001', { refundAmount: 50 })
+
+    expect(requests.map((request) => `${request.method} ${new URL(request.url).pathname}`)).toEqual(
+      [
+        'GET /v4/payments/orders/ORDER%2F001/check',
+        'POST /v4/payments/orders/ORDER-001/capture',
+        'POST /v4/payments/orders/ORDER-001/void',
+        'POST /v4/payments/orders/ORDER-001/refund',
+      ]
+    )
+    expect(requests.every((request) => request.headers['X-LINE-MerchantDeviceProfileId'])).toBe(
+      true
+    )
+  })
+
+  test('should get authorization details', async () => {
+    const { client, requests } = createClient([])
+
+    await client.getAuthorizationDetails({ orderId: ['ORDER-001'] })
+
+    const url = new URL(requests[0]?.url ?? '')
+    expect(url.pathname).toBe('/v4/payments/authorizations')
+    expect(url.searchParams.get('orderId')).toBe('ORDER-001')
+  })
+
+  test('should validate input before sending', async () => {
+    const { client, requests } = createClient()
+
+    await expect(client.getPaymentStatus('')).rejects.toThrow(LinePayValidationError)
+    await expect(
+      client.payWithOneTimeKey({
+        productName: 'Coffee',
+        amount: 100,
+        currency: 'TWD',
+        orderId: 'ORDER-001',
+        oneTimeKey: ' ',
+      })
+    ).rejects.toThrow(LinePayValidationError)
+    await expect(client.getAuthorizationDetails({ transactionId: ['123'] })).rejects.toThrow(
+      LinePayValidationError
+    )
+    expect(requests).toHaveLength(0)
+  })
+
+  test('should throw LinePayConfigError when merchantDeviceProfileId is empty', () => {
+    expect(
+      () =>
+        new LinePayOfflineClient({
+          channelId: '1234567890',
+          channelSecret: 'secret',
+          merchantDeviceProfileId: '',
+        })
+    ).toThrow(LinePayConfigError)
+  })
+})
@@ -0,0 +1,139 @@
+import { describe, expect, test } from 'bun:test'
+import { LinePayError, LinePayValidationError } from '../src/errors/LinePayError'
+import { LinePayOnlineClient } from '../src/online/LinePayOnlineClient'
+import type { PaymentRequestBody } from '../src/online/types'
+import { createTestClient, jsonResponse } from './helpers/createTestClient'
+
+const TRANSACTION_ID = '2024123112345678901'
+
+function createClient(returnCode = '0000', info: unknown = {}, apiVersion?: 'v3' | 'v4') {
+  return createTestClient(LinePayOnlineClient, { apiVersion }, () =>
+    jsonResponse({ returnCode, returnMessage: 'Message', info })
+  )
+}
+
+const paymentRequest: PaymentRequestBody = {
+  amount: 100,
+  currency: 'TWD',
+  orderId: 'ORDER-001',
+  packages: [{ id: 'pkg-1', amount: 100, products: [{ name: 'Coffee', quantity: 1, price: 100 }] }],
+  redirectUrls: {
+    confirmUrl: 'https://example.com/confirm',
+    cancelUrl: 'https://example.com/cancel',
+  },
+}
+
+describe('LinePayOnlineClient', () => {
+  test('should request a payment', async () => {
+    const info = {
+      paymentUrl: { web: 'https://web', app: 'line://app' },
+      transactionId: TRANSACTION_ID,
+      paymentAccessToken: '123456789012',
+    }
+    const { client, requests } = createClient('0000', info)
+
+    const response = await client.requestPayment(paymentRequest)
+
+    expect(response.info).toEqual(info)
+    expect(requests[0]?.method).toBe('POST')
+    expect(requests[0]?.url).toBe('https://example.test/v3/payments/request')
+    expect(JSON.parse(requests[0]?.body ?? '')).toEqual(paymentRequest)
+  })
+
+  test('should use the configured API version', async () => {
+    const { client, requests } = createClient('0000', {}, 'v4')
+
+    await client.requestPayment(paymentRequest)
+
+    expect(requests[0]?.url).toBe('https://example.test/v4/payments/request')
+  })
+
+  test.each([
+    ['confirm', `/v3/payments/${TRANSACTION_ID}/confirm`],
+    ['capture', `/v3/payments/authorizations/${TRANSACTION_ID}/capture`],
+  ] as const)('should call %s endpoint', async (method, path) => {
+    const { client, requests } = createClient()
+
+    await client[method](TRANSACTION_ID, { amount: 100, currency: 'TWD' })
+
+    expect(requests[0]?.method).toBe('POST')
+    expect(requests[0]?.url).toBe(`https://example.test${path}`)
+    expect(requests[0]?.body).toBe('{"amount":100,"currency":"TWD"}')
+  })
+
+  test('should void an authorization', async () => {
+    const { client, requests } = createClient()
+
+    await client.void(TRANSACTION_ID)
+
+    expect(requests[0]?.url).toBe(
+      `https://example.test/v3/payments/authorizations/${TRANSACTION_ID}/void`
+    )
+  })
+
+  test('should refund a payment', async () => {
+    const { client, requests } = createClient('0000', {
+      refundTransactionId: '2024123112345678902',
+      refundTransactionDate: '2024-12-31T09:00:00Z',
+    })
+
+    const response = await client.refund(TRANSACTION_ID, { refundAmount: 50 })
+
+    expect(response.info.refundTransactionId).toBe('2024123112345678902')
+    expect(requests[0]?.url).toBe(`https://example.test/v3/payments/${TRANSACTION_ID}/refund`)
+    expect(requests[0]?.body).toBe('{"refundAmount":50}')
+  })
+
+  test('should get payment details by transaction and order IDs', async () => {
+    const { client, requests } = createClient('0000', [])
+
+    await client.getPaymentDetails({
+      transactionId: [TRANSACTION_ID, '2024123112345678902'],
+      orderId: ['A', 'B'],
+      fields: 'ORDER',
+    })
+
+    const url = new URL(requests[0]?.url ?? '')
+    expect(requests[0]?.method).toBe('GET')
+    expect(url.pathname).toBe('/v3/payments')
+    expect(url.search).toBe(
+      `?transactionId=${TRANSACTION_ID}&transactionId=2024123112345678902&orderId=A&orderId=B&fields=ORDER`
+    )
+  })
+
+  test('should require at least one ID for payment details', async () => {
+    const { client } = createClient()
+
+    await expect(client.getPaymentDetails({})).rejects.toThrow(LinePayValidationError)
+  })
+
+  test('should return status codes from checkPaymentStatus', async () => {
+    const { client, requests } = createClient('0110')
+
+    const response = await client.checkPaymentStatus(TRANSACTION_ID)
+
+    expect(response.returnCode).toBe('0110')
+    expect(requests[0]?.url).toBe(
+      `https://example.test/v3/payments/requests/${TRANSACTION_ID}/check`
+    )
+  })
+
+  test('should still throw on error codes from checkPaymentStatus', async () => {
+    const { client } = createClient('1104')
+
+    await expect(client.checkPaymentStatus(TRANSACTION_ID)).rejects.toThrow(LinePayError)
+  })
+
+  test('should validate transaction IDs before sending', async () => {
+    const { client, requests } = createClient()
+
+    await expect(client.confirm('123', { amount: 100, currency: 'TWD' })).rejects.toThrow(
+      LinePayValidationError
+    )
+    await expect(client.refund('abc')).rejects.toThrow(LinePayValidationError)
+    await expect(client.getPaymentDetails({ transactionId: ['not-an-id'] })).rejects.toThrow(
+      LinePayValidationError
+    )
+    expect(requests).toHaveLength(0)
+  })
+})
@@ -0,0 +1,110 @@
+import { describe, expect, test } from 'bun:test'
+import {
+  LinePayError,
+  LinePayRegKeyError,
+  LinePayValidationError,
+} from '../src/errors/LinePayError'
+import { LinePayPreapprovedClient } from '../src/preapproved/LinePayPreapprovedClient'
+import { createTestClient, jsonResponse } from './helpers/createTestClient'
+
+const TRANSACTION_ID = '2024123112345678901'
+const REG_KEY = 'RK9A1B2C3D4E5F6'
+
+function createClient(returnCode = '0000', info: unknown = {}) {
+  return createTestClient(LinePayPreapprovedClient, {}, () =>
+    jsonResponse({ returnCode, returnMessage: 'Message', info })
+  )
+}
+
+describe('LinePayPreapprovedClient', () => {
+  test('should request a payment with payType PREAPPROVED', async () => {
+    const { client, requests } = createClient()
+
+    await client.requestPreapproved({
+      amount: 300,
+      currency: 'TWD',
+      orderId: 'SUB-001',
+      packages: [
+        { id: 'plan', amount: 300, products: [{ name: 'Plan', quantity: 1, price: 300 }] },
+      ],
+      redirectUrls: { confirmUrl: 'https://example.com/c', cancelUrl: 'https://example.com/x' },
+      options: { payment: { capture: true } },
+    })
+
+    const body = JSON.parse(requests[0]?.body ?? '')
+    expect(body.options.payment).toEqual({ capture: true, payType: 'PREAPPROVED' })
+  })
+
+  test('should return the regKey from confirmPreapproved', async () => {
+    const { client } = createClient('0000', {
+      orderId: 'SUB-001',
+      transactionId: TRANSACTION_ID,
+      regKey: REG_KEY,
+      payInfo: [],
+    })
+
+    const response = await client.confirmPreapproved(TRANSACTION_ID, {
+      amount: 300,
+      currency: 'TWD',
+    })
+
+    expect(response.info.regKey).toBe(REG_KEY)
+  })
+
+  test('should throw when confirm returns no regKey', async () => {
+    const { client } = createClient('0000', { orderId: 'SUB-001', payInfo: [] })
+
+    await expect(
+      client.confirmPreapproved(TRANSACTION_ID, { amount: 300, currency: 'TWD' })
+    ).rejects.toThrow(LinePayError)
+  })
+
+  test('should call the regKey endpoints', async () => {
+    const { client, requests } = createClient()
+
+    await client.payPreapproved(REG_KEY, {
+      productName: 'Plan',
+      amount: 300,
+      currency: 'TWD',
+      orderId: 'SUB-002',
+    })
+    await client.checkRegKey(REG_KEY, { creditCardAuth: true })
+    await client.expireRegKey(REG_KEY)
+
+    expect(requests.map((request) => `${request.method} ${request.url}`)).toEqual([
+      `POST https://example.test/v3/payments/preapprovedPay/${REG_KEY}/payment`,
+      `GET https://example.test/v3/payments/preapprovedPay/${REG_KEY}/check?creditCardAuth=true`,
+      `POST https://example.test/v3/payments/preapprovedPay/${REG_KEY}/expire`,
+    ])
+  })
+
+  test('should throw LinePayRegKeyError for expired regKeys', async () => {
+    const { client } = createClient('1193')
+
+    try {
+      await client.expireRegKey(REG_KEY)
+      expect(true).toBe(false)
+    } catch (error) {
+      expect(error).toBeInstanceOf(LinePayRegKeyError)
+      expect(error).toBeInstanceOf(LinePayError)
+      if (error instanceof LinePayRegKeyError) {
+        expect(error.regKey).toBe(REG_KEY)
+        expect(error.isExpired).toBe(true)
+      }
+    }
+  })
+
+  test('should report regKey validity without throwing', async () => {
+    expect(await createClient('0000').client.isRegKeyValid(REG_KEY)).toBe(true)
+    expect(await createClient('1190').client.isRegKeyValid(REG_KEY)).toBe(false)
+    expect(await createClient('0000').client.isRegKeyValid('bad')).toBe(false)
+    await expect(createClient('9000').client.isRegKeyValid(REG_KEY)).rejects.toThrow(LinePayError)
+  })
+
+  test('should validate regKey format before sending', async () => {
+    const { client, requests } = createClient()
+
+    await expect(client.checkRegKey('RK-123')).rejects.toThrow(LinePayValidationError)
+    expect(requests).toHaveLength(0)
+  })
+})
@@ -0,0 +1,190 @@
+import { describe, expect, test } from 'bun:test'
+import {
+  LinePayAbortError,
+  LinePayConfigError,
+  LinePayError,
+  LinePayTimeoutError,
+} from '../src/errors/LinePayError'
+import { LinePayOfflineClient } from '../src/offline/LinePayOfflineClient'
+import { LinePayOnlineClient } from '../src/online/LinePayOnlineClient'
+import { LinePayStatusPoller } from '../src/polling/LinePayStatusPoller'
+
+const TRANSACTION_ID = '2024123112345678901'
+const FAST = { baseDelay: 1, maxDelay: 5 }
+
+function respondWith(bodies: Record<string, unknown>[]) {
+  let index = 0
+  return async () => {
+    const body = bodies[Math.min(index++, bodies.length - 1)]
+    return { status: 200, headers: {}, text: JSON.stringify(body) }
+  }
+}
+
+function createOnlineClient(returnCodes: string[]) {
+  return new LinePayOnlineClient({
+    channelId: '1234567890',
+    channelSecret: 'secret',
+    transport: respondWith(returnCodes.map((returnCode) => ({ returnCode, returnMessage: '' }))),
+  })
+}
+
+describe('LinePayStatusPoller', () => {
+  test('should poll a transaction until it leaves the waiting state', async () => {
+    const client = createOnlineClient(['0000', '0000', '0110'])
+
+    const poller = LinePayStatusPoller.forTransaction(client, TRANSACTION_ID, FAST)
+    const result = await poller.wait()
+
+    expect(result.returnCode).toBe('0110')
+  })
+
+  test('should keep the state of concurrent runs apart', async () => {
+    let calls = 0
+    const poller = new LinePayStatusPoller(
+      (_attempt, signal) => {
+        calls++
+        if (calls === 1) {
+          return Promise.resolve({ call: calls })
+        }
+        return new Promise<{ call: number }>((_resolve, reject) => {
+          signal?.addEventListener('abort', () => reject(new Error('aborted')))
+        })
+      },
+      { isTerminal: () => false, baseDelay: 100, timeout: 25 }
+    )
+
+    const first = poller.wait().catch((caught) => caught)
+    await new Promise((resolve) => setTimeout(resolve, 10))
+    const second = poller.wait().catch((caught) => caught)
+
+    expect((await first).lastState).toEqual({ call: 1 })
+    expect((await second).lastState).toBeUndefined()
+  })
+
+  test('should yield intermediate states', async () => {
+    const client = createOnlineClient(['0000', '0000', '0123'])
+
+    const codes: string[] = []
+    for await (const state of LinePayStatusPoller.forTransaction(client, TRANSACTION_ID, FAST)) {
+      codes.push(state.returnCode)
+    }
+
+    expect(codes).toEqual(['0000', '0000', '0123'])
+  })
+
+  test('should use a custom terminal-state predicate and back off', async () => {
+    const attempts: number[] = []
+    const states = ['pending', 'authorized', 'captured']
+    const started = Date.now()
+
+    const result = await new LinePayStatusPoller(
+      async (attempt) => {
+        attempts.push(attempt)
+        return states[attempt - 1] as string
+      },
+      {
+        isTerminal: (state): state is 'captured' => state === 'captured',
+        baseDelay: 10,
+        backoffFactor: 2,
+      }
+    ).wait()
+
+    expect(result).toBe('captured')
+    expect(attempts).toEqual([1, 2, 3])
+    expect(Date.now() - started).toBeGreaterThanOrEqual(25)
+  })
+
+  test('should throw LinePayTimeoutError with the last known state', async () => {
+    const client = createOnlineClient(['0000'])
+
+    const error = await LinePayStatusPoller.forTransaction(client, TRANSACTION_ID, {
+      ...FAST,
+      timeout: 20,
+    })
+      .wait()
+      .catch((caught) => caught)
+
+    expect(error).toBeInstanceOf(LinePayTimeoutError)
+    expect(error.timeout).toBe(20)
+    expect(error.lastState).toMatchObject({ returnCode: '0000' })
+  })
+
+  test('should abort a check still running at the deadline', async () => {
+    const client = new LinePayOnlineClient({
+      channelId: '1234567890',
+      channelSecret: 'secret',
+      timeout: 10000,
+      transport: (request) =>
+        new Promise((_resolve, reject) => {
+          request.signal.addEventListener('abort', () => reject(new Error('aborted')))
+        }),
+    })
+
+    const started = Date.now()
+    const error = await LinePayStatusPoller.forTransaction(client, TRANSACTION_ID, {
+      ...FAST,
+      timeout: 30,
+    })
+      .wait()
+      .catch((caught) => caught)
+
+    expect(error).toBeInstanceOf(LinePayTimeoutError)
+    expect(error.timeout).toBe(30)
+    expect(Date.now() - started).toBeLessThan(1000)
+  })
+
+  test('should stop when the signal is aborted', async () => {
+    const client = createOnlineClient(['0000'])
+    const controller = new AbortController()
+    setTimeout(() => controller.abort(new Error('cancelled')), 20)
+
+    const error = await LinePayStatusPoller.forTransaction(client, TRANSACTION_ID, {
+      baseDelay: 1000,
+      signal: controller.signal,
+    })
+      .wait()
+      .catch((caught) => caught)
+
+    expect(error).toBeInstanceOf(LinePayAbortError)
+    expect(error.message).toBe('Request aborted: cancelled')
+  })
+
+  test('should treat in-progress offline payments as pending', async () => {
+    const client = new LinePayOfflineClient({
+      channelId: '1234567890',
+      channelSecret: 'secret',
+      merchantDeviceProfileId: 'POS-001',
+      transport: respondWith([
+        { returnCode: '1145', returnMessage: 'in progress' },
+        { returnCode: '0000', returnMessage: 'Success', info: { status: 'COMPLETE' } },
+      ]),
+    })
+
+    const result = await LinePayStatusPoller.forOrder(client, 'ORDER-001', FAST).wait()
+
+    expect(result.info.status).toBe('COMPLETE')
+  })
+
+  test('should throw other check errors', async () => {
+    const client = createOnlineClient(['1150'])
+
+    await expect(
+      LinePayStatusPoller.forTransaction(client, TRANSACTION_ID, FAST).wait()
+    ).rejects.toBeInstanceOf(LinePayError)
+  })
+
+  test('should reject invalid polling options', () => {
+    const check = async () => ({ done: true })
+    for (const options of [
+      { baseDelay: 0 },
+      { maxDelay: -1 },
+      { timeout: Number.NaN },
+      { timeout: Number.POSITIVE_INFINITY },
+      { backoffFactor: 0.5 },
+    ]) {
+      expect(() => new LinePayStatusPoller(check, { isTerminal: () => true, ...options })).toThrow(
+        LinePayConfigError
+      )
+    }
+  })
+})
@@ -58,6 +58,29 @@ describe('LinePayUtils', () => {
     })
   })
 
+  describe('regKey validation', () => {
+    test('should accept 15 alphanumeric characters', () => {
+      expect(LinePayUtils.isValidRegKey('RK9A1B2C3D4E5F6')).toBe(true)
+      expect(() => LinePayUtils.validateRegKey('RK9A1B2C3D4E5F6')).not.toThrow()
+    })
+
+    test('should reject malformed regKeys', () => {
+      expect(LinePayUtils.isValidRegKey('RK9A1B2C3D4E5F')).toBe(false)
+      expect(LinePayUtils.isValidRegKey('RK9A1B2C3D4E5F6-')).toBe(false)
+
+      try {
+        LinePayUtils.validateRegKey('RK9A1B2C3D4E5F6-')
+        expect(true).toBe(false)
+      } catch (error) {
+        expect(error).toBeInstanceOf(LinePayValidationError)
+        if (error instanceof LinePayValidationError) {
+          expect(error.field).toBe('regKey')
+          expect(error.message).not.toContain('RK9A1B2C3D4E5F6')
+        }
+      }
+    })
+  })
+
   describe('generateSignature', () => {
     test('should generate correct signature', () => {
       const channelSecret = 'test-secret'
@@ -206,6 +229,12 @@ describe('LinePayUtils', () => {
       expect(queryString).toStartWith('?')
     })
 
+    test('should repeat the key for each element of an array value', () => {
+      expect(LinePayUtils.buildQueryString({ orderId: ['A', 'B'], fields: 'ALL' })).toBe(
+        '?orderId=A&orderId=B&fields=ALL'
+      )
+    })
+
     test('should return empty string for empty params', () => {
       expect(LinePayUtils.buildQueryString({})).toBe('')
       expect(LinePayUtils.buildQueryString(undefined)).toBe('')
@@ -242,5 +271,12 @@ describe('LinePayUtils', () => {
         'Missing transactionId in callback query'
       )
     })
+
+    test('should throw LinePayValidationError for an invalid transactionId', () => {
+      expect(() => LinePayUtils.parseConfirmQuery({})).toThrow(LinePayValidationError)
+      expect(() => LinePayUtils.parseConfirmQuery({ transactionId: '12345' })).toThrow(
+        LinePayValidationError
+      )
+    })
   })
 })
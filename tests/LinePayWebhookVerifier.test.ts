@@ -0,0 +1,188 @@
+import { describe, expect, test } from 'bun:test'
+import { Readable } from 'node:stream'
+import { LinePayConfigError, LinePaySignatureError } from '../src/errors/LinePayError'
+import { LinePayUtils } from '../src/LinePayUtils'
+import {
+  createExpressWebhookMiddleware,
+  type LinePayExpressRequest,
+  verifyFetchRequest,
+  verifyNodeRequest,
+} from '../src/webhook/adapters'
+import { LinePayWebhookVerifier } from '../src/webhook/LinePayWebhookVerifier'
+
+const SECRET = 'webhook-secret'
+const PATH = '/webhooks/line-pay'
+const NONCE = 'nonce-123'
+const RAW_BODY = '{"transactionId":"2024123112345678901","amount": 100}'
+
+function sign(body = RAW_BODY, path = PATH, queryString = ''): Record<string, string> {
+  return {
+    'x-line-channelid': '1234567890',
+    'x-line-authorization-nonce': NONCE,
+    'x-line-authorization': LinePayUtils.generateSignature(SECRET, path, body, NONCE, queryString),
+  }
+}
+
+const verifier = new LinePayWebhookVerifier({ channelSecret: SECRET, channelId: '1234567890' })
+
+describe('LinePayWebhookVerifier', () => {
+  test('should verify the raw body and parse it', async () => {
+    const result = await verifier.verify<{ amount: number }>({
+      rawBody: RAW_BODY,
+      headers: sign(),
+      path: PATH,
+    })
+
+    expect(result.body.amount).toBe(100)
+    expect(result.rawBody).toBe(RAW_BODY)
+    expect(result.nonce).toBe(NONCE)
+    expect(result.channelId).toBe('1234567890')
+  })
+
+  test('should accept bytes and WHATWG headers', async () => {
+    const result = await verifier.verify({
+      rawBody: new TextEncoder().encode(RAW_BODY),
+      headers: new Headers(sign()),
+      path: PATH,
+    })
+
+    expect(result.rawBody).toBe(RAW_BODY)
+  })
+
+  test('should reject a re-serialized body', async () => {
+    const reserialized = JSON.stringify(JSON.parse(RAW_BODY))
+
+    await expect(
+      verifier.verify({ rawBody: reserialized, headers: sign(), path: PATH })
+    ).rejects.toThrow(LinePaySignatureError)
+    expect(await verifier.isValid({ rawBody: reserialized, headers: sign(), path: PATH })).toBe(
+      false
+    )
+  })
+
+  test('should report why verification failed', async () => {
+    const reasonOf = async (request: Parameters<LinePayWebhookVerifier['verify']>[0]) => {
+      try {
+        await verifier.verify(request)
+      } catch (error) {
+        return (error as LinePaySignatureError).reason
+      }
+      return undefined
+    }
+
+    expect(await reasonOf({ rawBody: RAW_BODY, headers: {}, path: PATH })).toBe('MISSING_HEADER')
+    expect(
+      await reasonOf({
+        rawBody: RAW_BODY,
+        headers: { ...sign(), 'x-line-channelid': '999' },
+        path: PATH,
+      })
+    ).toBe('CHANNEL_MISMATCH')
+    expect(await reasonOf({ rawBody: RAW_BODY, headers: sign(), path: '/other' })).toBe(
+      'INVALID_SIGNATURE'
+    )
+    expect(await reasonOf({ rawBody: 'not json', headers: sign('not json'), path: PATH })).toBe(
+      'INVALID_BODY'
+    )
+  })
+
+  test('should throw LinePayConfigError for an empty secret', () => {
+    expect(() => new LinePayWebhookVerifier({ channelSecret: ' ' })).toThrow(LinePayConfigError)
+  })
+})
+
+describe('Webhook adapters', () => {
+  test('should verify a Node.js request including its query string', async () => {
+    const req = Object.assign(Readable.from([Buffer.from(RAW_BODY)]), {
+      url: `${PATH}?source=line`,
+      headers: sign(RAW_BODY, PATH, '?source=line'),
+    })
+
+    const result = await verifyNodeRequest(verifier, req)
+
+    expect(result.body).toEqual({ transactionId: '2024123112345678901', amount: 100 })
+  })
+
+  test('should verify a WHATWG Request without consuming it', async () => {
+    const request = new Request(`https://merchant.test${PATH}`, {
+      method: 'POST',
+      headers: sign(),
+      body: RAW_BODY,
+    })
+
+    await verifyFetchRequest(verifier, request)
+
+    expect(await request.text()).toBe(RAW_BODY)
+  })
+
+  test('should reject bodies larger than maxBodySize', async () => {
+    const node = Object.assign(Readable.from([RAW_BODY, RAW_BODY]), { url: PATH, headers: sign() })
+    const request = new Request(`https://merchant.test${PATH}`, {
+      method: 'POST',
+      headers: sign(),
+      body: RAW_BODY,
+    })
+    const maxBodySize = RAW_BODY.length - 1
+
+    const reasons = await Promise.all(
+      [
+        verifyNodeRequest(verifier, node, { maxBodySize }),
+        verifyFetchRequest(verifier, request, { maxBodySize }),
+      ].map((promise) => promise.catch((error: LinePaySignatureError) => error.reason))
+    )
+
+    expect(reasons).toEqual(['BODY_TOO_LARGE', 'BODY_TOO_LARGE'])
+  })
+
+  test('should honor the path override', async () => {
+    const request = new Request('https://merchant.test/internal/hook', {
+      method: 'POST',
+      headers: sign(),
+      body: RAW_BODY,
+    })
+
+    const result = await verifyFetchRequest(verifier, request, { path: PATH })
+
+    expect(result.rawBody).toBe(RAW_BODY)
+  })
+
+  test('should run as Express middleware with a raw body', async () => {
+    const middleware = createExpressWebhookMiddleware(verifier)
+    const req = Object.assign(Readable.from([]), {
+      originalUrl: PATH,
+      url: '/',
+      headers: sign(),
+      body: Buffer.from(RAW_BODY),
+    }) as LinePayExpressRequest
+
+    const error = await new Promise<unknown>((resolve) => {
+      middleware(req, {}, resolve)
+    })
+
+    expect(error).toBeUndefined()
+    expect(req.body).toEqual({ transactionId: '2024123112345678901', amount: 100 })
+    expect(req.linePayWebhook?.nonce).toBe(NONCE)
+  })
+
+  test('should pass errors to next in Express middleware', async () => {
+    const middleware = createExpressWebhookMiddleware(verifier)
+    const invalid = Object.assign(Readable.from([]), {
+      url: PATH,
+      headers: {},
+      rawBody: RAW_BODY,
+    })
+    const parsed = Object.assign(Readable.from([]), {
+      url: PATH,
+      headers: sign(),
+      body: { amount: 100 },
+    })
+
+    const run = (req: LinePayExpressRequest) =>
+      new Promise<unknown>((resolve) => {
+        middleware(req, {}, resolve)
+      })
+
+    expect(await run(invalid)).toBeInstanceOf(LinePaySignatureError)
+    expect(await run(parsed)).toBeInstanceOf(LinePayConfigError)
+  })
+})
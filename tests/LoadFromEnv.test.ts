@@ -0,0 +1,107 @@
+import { describe, expect, test } from 'bun:test'
+import { DEFAULT_TIMEOUT } from '../src/config/env'
+import { loadLinePayConfigFromEnv, loadLinePayConfigsFromEnv } from '../src/config/loadFromEnv'
+import { LinePayConfigError } from '../src/errors/LinePayError'
+import { LinePayOnlineClient } from '../src/online/LinePayOnlineClient'
+
+describe('loadLinePayConfigFromEnv', () => {
+  test('should read LINE_PAY_* variables', () => {
+    const config = loadLinePayConfigFromEnv(undefined, {
+      LINE_PAY_CHANNEL_ID: ' 1234567890 ',
+      LINE_PAY_CHANNEL_SECRET: 'secret',
+      LINE_PAY_ENV: 'production',
+      LINE_PAY_TIMEOUT: '5000',
+      LINE_PAY_BASE_URL: 'http://localhost:8080/',
+    })
+
+    expect(config).toEqual({
+      channelId: '1234567890',
+      channelSecret: 'secret',
+      env: 'production',
+      timeout: 5000,
+      baseUrl: 'http://localhost:8080',
+    })
+    expect(() => new LinePayOnlineClient(config)).not.toThrow()
+  })
+
+  test('should default the timeout and leave env unset', () => {
+    const config = loadLinePayConfigFromEnv('SHOP_A_LINE_PAY_', {
+      SHOP_A_LINE_PAY_CHANNEL_ID: '1234567890',
+      SHOP_A_LINE_PAY_CHANNEL_SECRET: 'secret',
+    })
+
+    expect(config).toEqual({
+      channelId: '1234567890',
+      channelSecret: 'secret',
+      timeout: DEFAULT_TIMEOUT,
+    })
+  })
+
+  test('should report every problem at once', () => {
+    let error: unknown
+    try {
+      loadLinePayConfigFromEnv('LINE_PAY', {
+        LINE_PAY_CHANNEL_SECRET: ' ',
+        LINE_PAY_ENV: 'prod',
+        LINE_PAY_TIMEOUT: '20s',
+        LINE_PAY_BASE_URL: 'localhost:8080',
+      })
+    } catch (caught) {
+      error = caught
+    }
+
+    expect(error).toBeInstanceOf(LinePayConfigError)
+    expect((error as Error).message).toBe(
+      [
+        'Invalid LINE Pay environment configuration:',
+        '- LINE_PAY_CHANNEL_ID is required and cannot be empty',
+        '- LINE_PAY_CHANNEL_SECRET is required and cannot be empty',
+        '- LINE_PAY_ENV must be one of production, sandbox (got "prod")',
+        '- LINE_PAY_TIMEOUT must be a positive integer in milliseconds (got "20s")',
+        '- LINE_PAY_BASE_URL must be an absolute http(s) URL (got "localhost:8080")',
+      ].join('\n')
+    )
+    expect((error as LinePayConfigError).issues.map((issue) => issue.field)).toEqual([
+      'LINE_PAY_CHANNEL_ID',
+      'LINE_PAY_CHANNEL_SECRET',
+      'LINE_PAY_ENV',
+      'LINE_PAY_TIMEOUT',
+      'LINE_PAY_BASE_URL',
+    ])
+  })
+
+  test('should apply the client config validation', () => {
+    expect(() =>
+      loadLinePayConfigFromEnv(undefined, {
+        LINE_PAY_CHANNEL_ID: 'channel-1',
+        LINE_PAY_CHANNEL_SECRET: 'secret',
+      })
+    ).toThrow('- LINE_PAY_CHANNEL_ID must be numeric (got "channel-1")')
+  })
+})
+
+describe('loadLinePayConfigsFromEnv', () => {
+  test('should load one configuration per prefix', () => {
+    const configs = loadLinePayConfigsFromEnv(['SHOP_A', 'SHOP_B'], {
+      SHOP_A_CHANNEL_ID: '1111111111',
+      SHOP_A_CHANNEL_SECRET: 'secret-a',
+      SHOP_B_CHANNEL_ID: '2222222222',
+      SHOP_B_CHANNEL_SECRET: 'secret-b',
+      SHOP_B_ENV: 'sandbox',
+    })
+
+    expect(configs.SHOP_A.channelSecret).toBe('secret-a')
+    expect(configs.SHOP_B).toMatchObject({ channelId: '2222222222', env: 'sandbox' })
+  })
+
+  test('should report the problems of all prefixes', () => {
+    expect(() =>
+      loadLinePayConfigsFromEnv(['SHOP_A', 'SHOP_B'], {
+        SHOP_A_CHANNEL_ID: '1111111111',
+        SHOP_B_CHANNEL_SECRET: 'secret-b',
+      })
+    ).toThrow(
+      'Invalid LINE Pay environment configuration:\n- SHOP_A_CHANNEL_SECRET is required and cannot be empty\n- SHOP_B_CHANNEL_ID is required and cannot be empty'
+    )
+  })
+})
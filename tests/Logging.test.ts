@@ -0,0 +1,168 @@
+import { describe, expect, test } from 'bun:test'
+import { LinePayError } from '../src/errors/LinePayError'
+import { createRedactor, redactSensitiveData } from '../src/logging/redact'
+import type { LinePayLogEntry, LinePayLogger } from '../src/logging/types'
+import { LinePayOnlineClient } from '../src/online/LinePayOnlineClient'
+import { LinePayPreapprovedClient } from '../src/preapproved/LinePayPreapprovedClient'
+
+const REG_KEY = 'RK9A8B7C6D5E4F3'
+const TRANSACTION_ID = '2024123112345678901'
+
+function createLogger() {
+  const entries: (LinePayLogEntry & { level: string })[] = []
+  const logger: LinePayLogger = {
+    debug: (entry) => entries.push({ ...entry, level: 'debug' }),
+    info: (entry) => entries.push({ ...entry, level: 'info' }),
+    warn: (entry) => entries.push({ ...entry, level: 'warn' }),
+    error: (entry) => entries.push({ ...entry, level: 'error' }),
+  }
+  return { entries, logger }
+}
+
+describe('Logging', () => {
+  test('should log request start and response with redacted headers and path', async () => {
+    const { entries, logger } = createLogger()
+    const client = new LinePayPreapprovedClient({
+      channelId: '1234567890',
+      channelSecret: 'logging-secret',
+      baseUrl: 'https://example.test',
+      logger,
+      transport: async () => ({
+        status: 200,
+        headers: {},
+        text: `{"returnCode":"0000","returnMessage":"OK","info":{"transactionId":${TRANSACTION_ID}}}`,
+      }),
+    })
+
+    await client.payPreapproved(REG_KEY, {
+      productName: 'Plan',
+      amount: 100,
+      currency: 'TWD',
+      orderId: 'ORDER_1',
+    })
+
+    expect(entries.map((entry) => [entry.level, entry.event])).toEqual([
+      ['debug', 'request.start'],
+      ['info', 'request.response'],
+    ])
+    const [start, response] = entries
+    expect(start?.headers).toMatchObject({
+      'X-LINE-ChannelId': '1234567890',
+      'X-LINE-Authorization': '[REDACTED]',
+      'X-LINE-Authorization-Nonce': '[REDACTED]',
+    })
+    expect(start?.path).toBe('/v3/payments/preapprovedPay/[REDACTED]/payment')
+    expect(JSON.stringify(entries)).not.toContain(REG_KEY)
+    expect(response).toMatchObject({ httpStatus: 200, returnCode: '0000', attempt: 1 })
+    expect(response?.durationMs).toBeGreaterThanOrEqual(0)
+  })
+
+  test('should log retries and the final error with a redacted raw response', async () => {
+    const { entries, logger } = createLogger()
+    const client = new LinePayOnlineClient({
+      channelId: '1234567890',
+      channelSecret: 'logging-secret',
+      baseUrl: 'https://example.test',
+      retry: { maxAttempts: 2, baseDelay: 1, jitter: false },
+      logger,
+      transport: async () => ({
+        status: 500,
+        headers: {},
+        text: JSON.stringify({
+          returnCode: '9000',
+          returnMessage: 'Internal error',
+          info: { regKey: REG_KEY },
+        }),
+      }),
+    })
+
+    await expect(client.checkPaymentStatus(TRANSACTION_ID)).rejects.toThrow(LinePayError)
+
+    expect(entries.map((entry) => [entry.level, entry.event])).toEqual([
+      ['debug', 'request.start'],
+      ['warn', 'request.retry'],
+      ['debug', 'request.start'],
+      ['error', 'request.error'],
+    ])
+    expect(entries[1]).toMatchObject({ attempt: 1, delayMs: 1 })
+    expect(entries[1]?.durationMs).toBeGreaterThanOrEqual(0)
+    expect(entries[3]?.error).toMatchObject({ returnCode: '9000', attempts: 2 })
+    expect(JSON.stringify(entries)).not.toContain(REG_KEY)
+  })
+
+  test('should serialize errors with the configured redaction', async () => {
+    const client = new LinePayOnlineClient({
+      channelId: '1234567890',
+      channelSecret: 'logging-secret',
+      redaction: { keys: ['cardToken'] },
+      transport: async () => ({
+        status: 400,
+        headers: {},
+        text: JSON.stringify({
+          returnCode: '1104',
+          returnMessage: 'Merchant not registered',
+          info: { cardToken: 'tok_123' },
+        }),
+      }),
+    })
+
+    const error = await client.checkPaymentStatus(TRANSACTION_ID).catch((caught) => caught)
+
+    expect(error).toBeInstanceOf(LinePayError)
+    expect(JSON.stringify(error)).not.toContain('tok_123')
+    expect(error.toJSON().rawResponse).toContain('"cardToken":"[REDACTED]"')
+  })
+
+  test('should not log anything without a logger', async () => {
+    const client = new LinePayOnlineClient({
+      channelId: '1234567890',
+      channelSecret: 'logging-secret',
+      transport: async () => ({
+        status: 200,
+        headers: {},
+        text: JSON.stringify({ returnCode: '0000', returnMessage: 'OK' }),
+      }),
+    })
+
+    await expect(client.checkPaymentStatus(TRANSACTION_ID)).resolves.toBeDefined()
+  })
+})
+
+describe('createRedactor', () => {
+  test('should mask default and configured keys case-insensitively', () => {
+    const redact = createRedactor({ keys: ['cardToken'], mask: '***' })
+
+    expect(
+      redact({
+        headers: { 'x-line-authorization': 'signature' },
+        body: { oneTimeKey: '123456789012', cardtoken: 'token', amount: 100 },
+        info: { shipping: { address: { recipient: { email: 'buyer@example.com' } } } },
+      })
+    ).toEqual({
+      headers: { 'x-line-authorization': '***' },
+      body: { oneTimeKey: '***', cardtoken: '***', amount: 100 },
+      info: { shipping: { address: '***' } },
+    })
+  })
+
+  test('should mask secret values and keep large integers in JSON strings', () => {
+    const redact = createRedactor({}, ['channel-secret'])
+
+    expect(redact('Signed with channel-secret')).toBe('Signed with [REDACTED]')
+    expect(redact(`{"info":{"transactionId":${TRANSACTION_ID},"regKey":"${REG_KEY}"}}`)).toBe(
+      `{"info":{"transactionId":"${TRANSACTION_ID}","regKey":"[REDACTED]"}}`
+    )
+  })
+
+  test('should be applied to LinePayError.toJSON', () => {
+    const error = new LinePayError(
+      '1190',
+      'regKey does not exist',
+      200,
+      JSON.stringify({ returnCode: '1190', info: { regKey: REG_KEY } })
+    )
+
+    expect(error.toJSON().rawResponse).toBe(redactSensitiveData(error.rawResponse) as string)
+    expect(JSON.stringify(error.toJSON())).not.toContain(REG_KEY)
+  })
+})
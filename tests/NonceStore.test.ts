@@ -0,0 +1,110 @@
+import { describe, expect, test } from 'bun:test'
+import { LinePaySignatureError } from '../src/errors/LinePayError'
+import { LinePayUtils } from '../src/LinePayUtils'
+import { LinePayWebhookVerifier } from '../src/webhook/LinePayWebhookVerifier'
+import {
+  assertFreshNonce,
+  InMemoryNonceStore,
+  type NonceStore,
+  verifySignatureWithNonce,
+} from '../src/webhook/NonceStore'
+
+const SECRET = 'webhook-secret'
+const PATH = '/webhooks/line-pay'
+const BODY = '{"amount":100}'
+
+function signedHeaders(nonce: string): Record<string, string> {
+  return {
+    'x-line-authorization-nonce': nonce,
+    'x-line-authorization': LinePayUtils.generateSignature(SECRET, PATH, BODY, nonce),
+  }
+}
+
+describe('InMemoryNonceStore', () => {
+  test('should reject a nonce seen within its TTL', () => {
+    const store = new InMemoryNonceStore()
+
+    expect(store.checkAndSet('nonce-1', 1000)).toBe(true)
+    expect(store.checkAndSet('nonce-1', 1000)).toBe(false)
+    expect(store.checkAndSet('nonce-2', 1000)).toBe(true)
+  })
+
+  test('should accept a nonce again after it expires', () => {
+    let now = 0
+    const store = new InMemoryNonceStore({ now: () => now })
+
+    store.checkAndSet('nonce-1', 1000)
+    now = 1000
+
+    expect(store.checkAndSet('nonce-1', 1000)).toBe(true)
+  })
+
+  test('should sweep expired nonces', () => {
+    let now = 0
+    const store = new InMemoryNonceStore({ now: () => now })
+
+    store.checkAndSet('nonce-1', 1000)
+    store.checkAndSet('nonce-2', 1000)
+    now = 10 * 60 * 1000
+    store.checkAndSet('nonce-3', 1000)
+
+    expect(store.size).toBe(1)
+
+    store.clear()
+    expect(store.size).toBe(0)
+  })
+})
+
+describe('Replay protection', () => {
+  test('assertFreshNonce should throw REPLAYED_NONCE for a reused nonce', async () => {
+    const store = new InMemoryNonceStore()
+
+    await assertFreshNonce(store, 'nonce-1')
+
+    try {
+      await assertFreshNonce(store, 'nonce-1')
+      expect.unreachable()
+    } catch (error) {
+      expect(error).toBeInstanceOf(LinePaySignatureError)
+      expect((error as LinePaySignatureError).reason).toBe('REPLAYED_NONCE')
+    }
+  })
+
+  test('verifySignatureWithNonce should not record nonces of invalid signatures', async () => {
+    const store = new InMemoryNonceStore()
+    const params = { secret: SECRET, uri: PATH, body: BODY, nonce: 'nonce-1', nonceStore: store }
+    const signature = signedHeaders('nonce-1')['x-line-authorization'] as string
+
+    expect(await verifySignatureWithNonce({ ...params, signature: 'forged' })).toBe(false)
+    expect(store.size).toBe(0)
+    expect(await verifySignatureWithNonce({ ...params, signature })).toBe(true)
+    expect(await verifySignatureWithNonce({ ...params, signature })).toBe(false)
+  })
+
+  test('should support asynchronous stores in the webhook verifier', async () => {
+    const seen = new Set<string>()
+    const ttls: number[] = []
+    const store: NonceStore = {
+      async checkAndSet(nonce, ttl) {
+        ttls.push(ttl)
+        if (seen.has(nonce)) {
+          return false
+        }
+        seen.add(nonce)
+        return true
+      },
+    }
+    const verifier = new LinePayWebhookVerifier({
+      channelSecret: SECRET,
+      nonceStore: store,
+      nonceTtl: 60_000,
+    })
+    const request = { rawBody: BODY, headers: signedHeaders('nonce-1'), path: PATH }
+
+    await verifier.verify(request)
+
+    await expect(verifier.verify(request)).rejects.toThrow(LinePaySignatureError)
+    expect(ttls).toEqual([60_000, 60_000])
+    expect(await verifier.isValid({ ...request, headers: signedHeaders('nonce-2') })).toBe(true)
+  })
+})
@@ -0,0 +1,154 @@
+import { describe, expect, test } from 'bun:test'
+import { LinePayConfigError, LinePayValidationError } from '../src/errors/LinePayError'
+import { LinePayOnlineClient } from '../src/online/LinePayOnlineClient'
+import { PaymentRequestBuilder } from '../src/online/PaymentRequestBuilder'
+import { createTestClient } from './helpers/createTestClient'
+
+function validBuilder(client?: LinePayOnlineClient): PaymentRequestBuilder {
+  return new PaymentRequestBuilder(client)
+    .setAmount(250)
+    .setCurrency('TWD')
+    .setOrderId('ORDER-001')
+    .addPackage({
+      id: 'pkg-1',
+      amount: 250,
+      products: [
+        { name: 'Coffee', quantity: 2, price: 100 },
+        { name: 'Cookie', quantity: 1, price: 50 },
+      ],
+    })
+    .setRedirectUrls('https://example.com/confirm', 'https://example.com/cancel')
+}
+
+function expectValidationError(builder: PaymentRequestBuilder, field: string): void {
+  try {
+    builder.build()
+    expect(true).toBe(false)
+  } catch (error) {
+    expect(error).toBeInstanceOf(LinePayValidationError)
+    if (error instanceof LinePayValidationError) {
+      expect(error.field).toBe(field)
+    }
+  }
+}
+
+describe('PaymentRequestBuilder', () => {
+  test('should build a valid request body with options', () => {
+    const body = validBuilder().setCapture(false).setDisplayLocale('zh_TW').build()
+
+    expect(body.amount).toBe(250)
+    expect(body.packages).toHaveLength(1)
+    expect(body.options).toEqual({
+      payment: { capture: false },
+      display: { locale: 'zh_TW' },
+    })
+  })
+
+  test('should omit options when none are set', () => {
+    expect(validBuilder().build().options).toBeUndefined()
+  })
+
+  test('should reject a non-positive amount', () => {
+    expectValidationError(validBuilder().setAmount(-100), 'amount')
+  })
+
+  test('should reject an amount that differs from the package total', () => {
+    expectValidationError(validBuilder().setAmount(300), 'amount')
+  })
+
+  test('should reject a package whose products do not add up', () => {
+    const builder = validBuilder()
+      .setAmount(350)
+      .addPackage({ id: 'pkg-2', amount: 100, products: [{ name: 'Tea', quantity: 2, price: 40 }] })
+
+    expectValidationError(builder, 'packages[1].amount')
+  })
+
+  test('should report the path of an invalid product price', () => {
+    const builder = new PaymentRequestBuilder()
+      .setAmount(100)
+      .setCurrency('TWD')
+      .setOrderId('ORDER-001')
+      .addPackage({
+        id: 'pkg-1',
+        amount: 100,
+        products: [
+          { name: 'Coffee', quantity: 1, price: 100 },
+          { name: 'Refund', quantity: 1, price: -1 },
+        ],
+      })
+      .setRedirectUrls('https://example.com/confirm', 'https://example.com/cancel')
+
+    expectValidationError(builder, 'packages[0].products[1].price')
+  })
+
+  test('should reject amounts that are not representable in the currency', () => {
+    const builder = new PaymentRequestBuilder()
+      .setAmount(100.1)
+      .setCurrency('TWD')
+      .setOrderId('ORDER-001')
+      .addPackage({
+        id: 'pkg-1',
+        amount: 100.1,
+        products: [{ name: 'Coffee', quantity: 1, price: 100.1 }],
+      })
+      .setRedirectUrls('https://example.com/confirm', 'https://example.com/cancel')
+
+    expectValidationError(builder, 'amount')
+  })
+
+  test('should add up decimal prices exactly', () => {
+    const body = new PaymentRequestBuilder()
+      .setAmount(0.3)
+      .setCurrency('USD')
+      .setOrderId('ORDER-001')
+      .addPackage({
+        id: 'pkg-1',
+        amount: 0.3,
+        products: [
+          { name: 'A', quantity: 1, price: 0.1 },
+          { name: 'B', quantity: 1, price: 0.2 },
+        ],
+      })
+      .setRedirectUrls('https://example.com/confirm', 'https://example.com/cancel')
+      .build()
+
+    expect(body.amount).toBe(0.3)
+  })
+
+  test('should reject an orderId longer than 100 characters', () => {
+    expectValidationError(validBuilder().setOrderId('x'.repeat(101)), 'orderId')
+  })
+
+  test('should reject invalid redirect URLs', () => {
+    expectValidationError(
+      validBuilder().setRedirectUrls('not a url', 'https://example.com/cancel'),
+      'redirectUrls.confirmUrl'
+    )
+    expectValidationError(
+      validBuilder().setRedirectUrls('https://example.com/confirm', 'ftp://example.com/cancel'),
+      'redirectUrls.cancelUrl'
+    )
+  })
+
+  test('should send the request through client.payment()', async () => {
+    const { client, requests } = createTestClient(LinePayOnlineClient)
+
+    const builder = client.payment()
+    expect(builder).toBeInstanceOf(PaymentRequestBuilder)
+
+    await validBuilder(client).send()
+    expect(JSON.parse(requests[0]?.body ?? '').orderId).toBe('ORDER-001')
+  })
+
+  test('should not send invalid requests', async () => {
+    const { client, requests } = createTestClient(LinePayOnlineClient)
+
+    await expect(client.payment().setAmount(-100).send()).rejects.toThrow(LinePayValidationError)
+    expect(requests).toHaveLength(0)
+  })
+
+  test('should throw LinePayConfigError when sending without a client', async () => {
+    await expect(validBuilder().send()).rejects.toThrow(LinePayConfigError)
+  })
+})
@@ -0,0 +1,123 @@
+import { describe, expect, test } from 'bun:test'
+import {
+  LinePayAbortError,
+  LinePayTimeoutError,
+  LinePayValidationError,
+} from '../src/errors/LinePayError'
+import type { LinePayRequestContext } from '../src/http/middleware'
+import type { LinePayLogEntry } from '../src/logging/types'
+import { LinePayOnlineClient } from '../src/online/LinePayOnlineClient'
+import { createTestClient } from './helpers/createTestClient'
+
+const TRANSACTION_ID = '2024123112345678901'
+const SUCCESS = JSON.stringify({ returnCode: '0000', returnMessage: 'OK', info: {} })
+
+/**
+ * Transport that answers after `delay` ms unless the request signal fires first
+ */
+function createClient(delay = 0, options: { retry?: boolean } = {}) {
+  const entries: LinePayLogEntry[] = []
+  const { client, requests } = createTestClient(
+    LinePayOnlineClient,
+    {
+      timeout: 1000,
+      retry:
+        options.retry === true ? { maxAttempts: 3, baseDelay: 1000, jitter: false } : undefined,
+      logger: {
+        debug: (entry) => entries.push(entry),
+        info: (entry) => entries.push(entry),
+        warn: (entry) => entries.push(entry),
+        error: (entry) => entries.push(entry),
+      },
+    },
+    (request) =>
+      new Promise((resolve, reject) => {
+        const timer = setTimeout(() => resolve({ status: 200, headers: {}, text: SUCCESS }), delay)
+        request.signal.addEventListener('abort', () => {
+          clearTimeout(timer)
+          reject(new DOMException('The operation was aborted.', 'AbortError'))
+        })
+      })
+  )
+  return { client, requests, entries }
+}
+
+describe('Per-request options', () => {
+  test('should override the timeout for a single request', async () => {
+    const { client } = createClient(50)
+
+    const error = await client
+      .checkPaymentStatus(TRANSACTION_ID, { timeout: 10 })
+      .catch((caught) => caught)
+
+    expect(error).toBeInstanceOf(LinePayTimeoutError)
+    expect(error.timeout).toBe(10)
+    expect(await client.checkPaymentStatus(TRANSACTION_ID)).toMatchObject({ returnCode: '0000' })
+  })
+
+  test('should reject an invalid timeout', async () => {
+    const { client, requests } = createClient()
+
+    await expect(
+      client.void(TRANSACTION_ID, { timeout: Number.POSITIVE_INFINITY })
+    ).rejects.toBeInstanceOf(LinePayValidationError)
+    expect(requests).toHaveLength(0)
+  })
+
+  test('should abort an in-flight request with LinePayAbortError', async () => {
+    const { client } = createClient(1000)
+    const controller = new AbortController()
+    setTimeout(() => controller.abort(), 10)
+
+    const error = await client
+      .refund(TRANSACTION_ID, {}, { signal: controller.signal })
+      .catch((caught) => caught)
+
+    expect(error).toBeInstanceOf(LinePayAbortError)
+    expect(error).not.toBeInstanceOf(LinePayTimeoutError)
+    expect(error.message).toBe('Request aborted')
+    expect(error.url).toContain(`/v3/payments/${TRANSACTION_ID}/refund`)
+  })
+
+  test('should not send a request when the signal is already aborted', async () => {
+    const { client, requests } = createClient()
+
+    await expect(
+      client.getPaymentDetails({ orderId: ['ORDER-001'] }, { signal: AbortSignal.abort() })
+    ).rejects.toBeInstanceOf(LinePayAbortError)
+    expect(requests).toHaveLength(0)
+  })
+
+  test('should stop retrying when aborted during the backoff delay', async () => {
+    const { client, requests } = createClient(50, { retry: true })
+    const controller = new AbortController()
+    setTimeout(() => controller.abort(), 80)
+
+    const started = Date.now()
+    const error = await client
+      .checkPaymentStatus(TRANSACTION_ID, { timeout: 10, signal: controller.signal })
+      .catch((caught) => caught)
+
+    expect(error).toBeInstanceOf(LinePayAbortError)
+    expect(error.attempts).toBe(2)
+    expect(requests).toHaveLength(1)
+    expect(Date.now() - started).toBeLessThan(500)
+  })
+
+  test('should send extra headers and record the request ID', async () => {
+    const { client, requests, entries } = createClient()
+    const contexts: LinePayRequestContext[] = []
+    client.use({ afterResponse: (context) => void contexts.push(context) })
+
+    await client.confirm(
+      TRANSACTION_ID,
+      { amount: 100, currency: 'TWD' },
+      { headers: { 'X-Request-Id': 'req-1' }, requestId: 'req-1' }
+    )
+
+    expect(requests[0]?.headers['X-Request-Id']).toBe('req-1')
+    expect(requests[0]?.headers['X-LINE-Authorization']).toBeDefined()
+    expect(contexts[0]?.requestId).toBe('req-1')
+    expect(entries.map((entry) => entry.requestId)).toEqual(['req-1', 'req-1'])
+  })
+})
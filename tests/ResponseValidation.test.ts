@@ -0,0 +1,177 @@
+import { describe, expect, test } from 'bun:test'
+import { LinePayResponseValidationError } from '../src/errors/LinePayError'
+import { LinePayOnlineClient } from '../src/online/LinePayOnlineClient'
+import {
+  formatSchemaIssuePath,
+  LinePaySchema,
+  type LinePayStandardSchema,
+} from '../src/validation/schema'
+import { createTestClient, jsonResponse } from './helpers/createTestClient'
+
+const TRANSACTION_ID = '2024123112345678901'
+
+const confirmSchema = LinePaySchema.object({
+  returnCode: LinePaySchema.string(),
+  info: LinePaySchema.object({
+    orderId: LinePaySchema.string(),
+    payInfo: LinePaySchema.array(
+      LinePaySchema.object({
+        method: LinePaySchema.string(),
+        amount: LinePaySchema.number(),
+      })
+    ),
+  }),
+})
+
+function createClient(info: unknown, options: { calls?: number[]; returnCode?: string } = {}) {
+  return createTestClient(
+    LinePayOnlineClient,
+    {
+      retry: { maxAttempts: 3, baseDelay: 1, jitter: false },
+      responseSchemas: {
+        'POST /v3/payments/{transactionId}/confirm': confirmSchema,
+        'GET /v3/payments/requests/{transactionId}/check': confirmSchema,
+      },
+    },
+    () => {
+      options.calls?.push(1)
+      return jsonResponse({ returnCode: options.returnCode ?? '0000', returnMessage: 'OK', info })
+    }
+  ).client
+}
+
+describe('Response validation', () => {
+  test('should pass responses matching the endpoint schema', async () => {
+    const client = createClient({
+      orderId: 'ORDER_1',
+      payInfo: [{ method: 'CREDIT_CARD', amount: 100 }],
+    })
+
+    const response = await client.confirm(TRANSACTION_ID, { amount: 100, currency: 'TWD' })
+
+    expect(response.returnCode).toBe('0000')
+  })
+
+  test('should throw with the path of the bad field and the raw response', async () => {
+    const calls: number[] = []
+    const client = createClient(
+      { orderId: 'ORDER_1', payInfo: [{ method: 'CREDIT_CARD', amount: '100' }] },
+      { calls }
+    )
+
+    const error = await client.checkPaymentStatus(TRANSACTION_ID).catch((caught) => caught)
+
+    expect(error).toBeInstanceOf(LinePayResponseValidationError)
+    expect(error.path).toBe('info.payInfo[0].amount')
+    expect(error.message).toBe(
+      'Invalid LINE Pay response at "info.payInfo[0].amount": Expected number, received string'
+    )
+    expect(error.rawResponse).toContain('"amount":"100"')
+    expect(calls).toHaveLength(1)
+  })
+
+  test('should not validate non-0000 success codes', async () => {
+    const client = createClient(undefined, { returnCode: '0110' })
+
+    const response = await client.checkPaymentStatus(TRANSACTION_ID)
+
+    expect(response.returnCode).toBe('0110')
+  })
+
+  test('should report a validation failure that ends after the timeout', async () => {
+    const schema: LinePayStandardSchema = {
+      '~standard': {
+        version: 1,
+        vendor: 'test',
+        validate: async () => {
+          await new Promise((resolve) => setTimeout(resolve, 30))
+          return { issues: [{ message: 'Rejected', path: ['info'] }] }
+        },
+      },
+    }
+    const { client } = createTestClient(LinePayOnlineClient, {
+      timeout: 10,
+      responseSchemas: { 'GET /v3/payments/requests/{transactionId}/check': schema },
+    })
+
+    const error = await client.checkPaymentStatus(TRANSACTION_ID).catch((caught) => caught)
+
+    expect(error).toBeInstanceOf(LinePayResponseValidationError)
+  })
+
+  test('should accept Standard Schema implementations and use their output', async () => {
+    const schema: LinePayStandardSchema<{ returnCode: string; coerced: boolean }> = {
+      '~standard': {
+        version: 1,
+        vendor: 'test',
+        validate: async (value) => ({
+          value: { ...(value as { returnCode: string }), coerced: true },
+        }),
+      },
+    }
+    const client = new LinePayOnlineClient({
+      channelId: '1234567890',
+      channelSecret: 'secret',
+      responseSchemas: { 'POST /v3/payments/request': schema },
+      transport: async () => ({
+        status: 200,
+        headers: {},
+        text: JSON.stringify({ returnCode: '0000', returnMessage: 'OK', info: {} }),
+      }),
+    })
+
+    const response = await client.requestPayment({
+      amount: 100,
+      currency: 'TWD',
+      orderId: 'ORDER_1',
+      packages: [{ id: 'PKG_1', amount: 100, products: [{ name: 'P', quantity: 1, price: 100 }] }],
+      redirectUrls: {
+        confirmUrl: 'https://example.com/confirm',
+        cancelUrl: 'https://example.com/cancel',
+      },
+    })
+
+    expect(response).toMatchObject({ coerced: true })
+  })
+})
+
+describe('LinePaySchema', () => {
+  test('should report every issue with its path', () => {
+    const schema = LinePaySchema.object({
+      status: LinePaySchema.literal('ACTIVE', 'EXPIRED'),
+      note: LinePaySchema.optional(LinePaySchema.string()),
+      flags: LinePaySchema.array(LinePaySchema.boolean()),
+    })
+
+    expect(schema['~standard'].validate({ status: 'ACTIVE', flags: [true] })).toEqual({
+      value: { status: 'ACTIVE', flags: [true] },
+    })
+    expect(schema['~standard'].validate({ status: 'NONE', note: 1, flags: [true, 'no'] })).toEqual({
+      issues: [
+        { message: 'Expected one of ["ACTIVE","EXPIRED"], received NONE', path: ['status'] },
+        { message: 'Expected string, received number', path: ['note'] },
+        { message: 'Expected boolean, received string', path: ['flags', 1] },
+      ],
+    })
+  })
+
+  test('should format issue paths', () => {
+    expect(formatSchemaIssuePath(['info', 'payInfo', 0, { key: 'amount' }])).toBe(
+      'info.payInfo[0].amount'
+    )
+    expect(formatSchemaIssuePath([])).toBe('')
+  })
+
+  test('should redact the raw response in toJSON', () => {
+    const error = new LinePayResponseValidationError(
+      [{ path: 'info.regKey', message: 'Expected string' }],
+      JSON.stringify({ info: { regKey: 1 } }),
+      200
+    )
+
+    expect(error.toJSON()).toMatchObject({
+      path: 'info.regKey',
+      rawResponse: '{"info":{"regKey":"[REDACTED]"}}',
+    })
+  })
+})
@@ -0,0 +1,95 @@
+import { describe, expect, test } from 'bun:test'
+import { parseLinePayJson, stringifyLinePayJson } from '../src/http/json'
+import { LinePayOnlineClient } from '../src/online/LinePayOnlineClient'
+import type { PaymentRequestResponse } from '../src/online/types'
+import { createTestClient } from './helpers/createTestClient'
+
+const TRANSACTION_ID = '2024123112345678901'
+
+describe('parseLinePayJson', () => {
+  const text = `{"transactionId":${TRANSACTION_ID},"amount":100,"rate":1.5e3,"note":"id ${TRANSACTION_ID}","list":[-9007199254740993]}`
+
+  test('should keep unsafe integers as strings by default', () => {
+    expect(parseLinePayJson(text)).toEqual({
+      transactionId: TRANSACTION_ID,
+      amount: 100,
+      rate: 1500,
+      note: `id ${TRANSACTION_ID}`,
+      list: ['-9007199254740993'],
+    })
+  })
+
+  test('should return unsafe integers as bigint in bigint mode', () => {
+    expect(parseLinePayJson(text, 'bigint')).toMatchObject({
+      transactionId: 2024123112345678901n,
+      amount: 100,
+      list: [-9007199254740993n],
+    })
+  })
+
+  test('should behave like JSON.parse in number mode', () => {
+    expect(parseLinePayJson(text, 'number')).toEqual(JSON.parse(text))
+  })
+
+  test('should not touch digits inside strings with escaped quotes', () => {
+    expect(parseLinePayJson(`{"a":"\\"${TRANSACTION_ID}"}`)).toEqual({ a: `"${TRANSACTION_ID}` })
+  })
+
+  test('should throw SyntaxError for invalid JSON', () => {
+    expect(() => parseLinePayJson(`{"a":${TRANSACTION_ID}`)).toThrow(SyntaxError)
+  })
+})
+
+describe('stringifyLinePayJson', () => {
+  test('should write bigint values as JSON numbers', () => {
+    expect(stringifyLinePayJson({ transactionId: 2024123112345678901n, amount: 100 })).toBe(
+      `{"transactionId":${TRANSACTION_ID},"amount":100}`
+    )
+  })
+
+  test('should match JSON.stringify without bigint values', () => {
+    const value = { a: 'text', b: [1, null], c: { d: true } }
+    expect(stringifyLinePayJson(value)).toBe(JSON.stringify(value))
+  })
+})
+
+describe('Client big number handling', () => {
+  const responseText = `{"returnCode":"0000","returnMessage":"OK","info":{"transactionId":${TRANSACTION_ID},"paymentAccessToken":"123456789012"}}`
+
+  function createClient(bigNumbers?: 'string' | 'bigint' | 'number') {
+    return createTestClient(LinePayOnlineClient, { bigNumbers }, () => ({
+      status: 200,
+      headers: {},
+      text: responseText,
+    }))
+  }
+
+  test('should return 19-digit transaction IDs intact', async () => {
+    const { client } = createClient()
+
+    const response = await client.checkPaymentStatus(TRANSACTION_ID)
+    const { info } = response as unknown as PaymentRequestResponse
+
+    expect(info.transactionId).toBe(TRANSACTION_ID)
+  })
+
+  test('should honor the bigint mode', async () => {
+    const { client } = createClient('bigint')
+
+    const response = await client.checkPaymentStatus(TRANSACTION_ID)
+
+    expect((response.info as { transactionId: unknown }).transactionId).toBe(2024123112345678901n)
+  })
+
+  test('should serialize bigint values in request bodies', async () => {
+    const { client, requests } = createClient()
+
+    await client.confirm(TRANSACTION_ID, {
+      amount: 100,
+      currency: 'TWD',
+      reference: 2024123112345678901n,
+    } as never)
+
+    expect(requests[0]?.body).toBe(`{"amount":100,"currency":"TWD","reference":${TRANSACTION_ID}}`)
+  })
+})
@@ -0,0 +1,111 @@
+import { describe, expect, test } from 'bun:test'
+import type { LinePayConfig } from '../src/config/types'
+import { validateLinePayConfig } from '../src/config/validateConfig'
+import { LinePayConfigError } from '../src/errors/LinePayError'
+import type { LinePayLogEntry, LinePayLogger } from '../src/logging/types'
+import { LinePayOnlineClient } from '../src/online/LinePayOnlineClient'
+
+const VALID: LinePayConfig = { channelId: '1234567890', channelSecret: 'secret' }
+
+describe('validateLinePayConfig', () => {
+  test('should accept a valid configuration', () => {
+    expect(validateLinePayConfig({ ...VALID, env: 'production', timeout: 5000 })).toEqual({
+      valid: true,
+      errors: [],
+      warnings: [],
+    })
+  })
+
+  test('should report every error with its field', () => {
+    const result = validateLinePayConfig({
+      channelId: 'channel-1',
+      channelSecret: 'secret',
+      env: 'staging' as never,
+      timeout: Number.NaN,
+      baseUrl: 'api-pay.line.me',
+      retry: { maxAttempts: 0, baseDelay: -1, maxDelay: Number.NaN },
+      idempotency: { store: undefined as never, ttl: -1 },
+    })
+
+    expect(result.valid).toBe(false)
+    expect(result.errors.map((issue) => issue.field)).toEqual([
+      'channelId',
+      'env',
+      'timeout',
+      'baseUrl',
+      'retry.maxAttempts',
+      'retry.baseDelay',
+      'retry.maxDelay',
+      'idempotency.ttl',
+    ])
+    expect(result.errors[1]?.message).toBe('env must be one of production, sandbox (got "staging")')
+  })
+
+  test('should reject infinite timeouts', () => {
+    const { errors } = validateLinePayConfig({ ...VALID, timeout: Number.POSITIVE_INFINITY })
+
+    expect(errors).toEqual([
+      { field: 'timeout', message: 'timeout must be a positive number (got Infinity)' },
+    ])
+  })
+
+  test('should warn about sandbox settings in production', () => {
+    const { valid, warnings } = validateLinePayConfig({
+      channelId: '1234567890',
+      channelSecret: 'sandbox-secret',
+      env: 'production',
+      baseUrl: 'https://sandbox-api-pay.line.me',
+    })
+
+    expect(valid).toBe(true)
+    expect(warnings.map((issue) => issue.field)).toEqual(['channelSecret', 'baseUrl'])
+  })
+})
+
+describe('Client config validation', () => {
+  test('should throw LinePayConfigError with all issues', () => {
+    let error: unknown
+    try {
+      new LinePayOnlineClient({ channelId: 'abc', channelSecret: ' ', timeout: -1 })
+    } catch (caught) {
+      error = caught
+    }
+
+    expect(error).toBeInstanceOf(LinePayConfigError)
+    expect((error as LinePayConfigError).issues.map((issue) => issue.field)).toEqual([
+      'channelId',
+      'channelSecret',
+      'timeout',
+    ])
+    expect((error as Error).message).toBe(
+      'channelId must be numeric (got "abc"); channelSecret is required and cannot be empty; timeout must be a positive number (got -1)'
+    )
+  })
+
+  test('should log warnings', () => {
+    const entries: (LinePayLogEntry & { level: string })[] = []
+    const logger: LinePayLogger = {
+      debug: (entry) => entries.push({ ...entry, level: 'debug' }),
+      info: (entry) => entries.push({ ...entry, level: 'info' }),
+      warn: (entry) => entries.push({ ...entry, level: 'warn' }),
+      error: (entry) => entries.push({ ...entry, level: 'error' }),
+    }
+
+    new LinePayOnlineClient({
+      ...VALID,
+      env: 'production',
+      baseUrl: 'https://sandbox-api-pay.line.me',
+      logger,
+    })
+
+    expect(entries).toEqual([
+      {
+        message:
+          'baseUrl looks like a sandbox URL but env is production (https://sandbox-api-pay.line.me)',
+        event: 'config.warning',
+        field: 'baseUrl',
+        level: 'warn',
+      },
+    ])
+  })
+})
@@ -0,0 +1,64 @@
+import type { LinePayTransportRequest, LinePayTransportResponse } from '../../src/http/transport'
+
+/**
+ * Configuration shared by the clients created in tests
+ */
+export const TEST_CLIENT_CONFIG = {
+  channelId: '1234567890',
+  channelSecret: 'secret',
+  baseUrl: 'https://example.test',
+}
+
+/**
+ * Answers a request sent through the fake transport
+ *
+ * @param request - Request sent by the client
+ * @param index - Zero-based index of the request
+ */
+export type TestResponder = (
+  request: LinePayTransportRequest,
+  index: number
+) => LinePayTransportResponse | Promise<LinePayTransportResponse>
+
+/**
+ * Builds a transport response with a JSON body
+ *
+ * @param body - Response body
+ * @param status - HTTP status
+ */
+export function jsonResponse(body: unknown, status = 200): LinePayTransportResponse {
+  return { status, headers: {}, text: JSON.stringify(body) }
+}
+
+/**
+ * Creates a client whose transport records every request and answers with `respond`
+ *
+ * @param Client - Client class to instantiate
+ * @param config - Configuration merged over {@link TEST_CLIENT_CONFIG}
+ * @param respond - Answers each request, a `0000` response with empty `info` by default
+ * @returns The client and the requests it sent
+ *
+ * @example
+ * ```typescript
+ * const { client, requests } = createTestClient(LinePayOnlineClient, { maxRetries: 0 }, () =>
+ *   jsonResponse({ returnCode: '1104', returnMessage: 'Merchant not found' })
+ * )
+ * ```
+ */
+export function createTestClient<C extends new (config: never) => unknown>(
+  Client: C,
+  config: Partial<ConstructorParameters<C>[0]> = {},
+  respond: TestResponder = () =>
+    jsonResponse({ returnCode: '0000', returnMessage: 'Success', info: {} })
+): { client: InstanceType<C>; requests: LinePayTransportRequest[] } {
+  const requests: LinePayTransportRequest[] = []
+  const client = new Client({
+    ...TEST_CLIENT_CONFIG,
+    ...config,
+    transport: async (request: LinePayTransportRequest) => {
+      requests.push(request)
+      return respond(request, requests.length - 1)
+    },
+  } as never) as InstanceType<C>
+  return { client, requests }
+}